@@ -5,10 +5,15 @@
 
 import * as http from 'http';
 import type { NodeBundle } from '../networking/peer.js';
+import { VNSDNSResolver, decodeDNSMessage, encodeDNSQuery, parseDNSType, toDNSJSON } from '../vns/dns-server.js';
+import { powVolumeWindow, rateLimitKey } from '../vns/security.js';
+import { VNS_CONFIG, normalizeVNSName } from '../types/vns-schema.js';
+import { lookupFriendlyName } from '../vns/friendly-names.js';
 
 export interface ApiServerOptions {
   port: number;
   nodeBundle: NodeBundle;
+  dnsUpstream?: string | null; // Forward non-.vfs DoH queries to this resolver
 }
 
 // In-memory mapping of wallet addresses to their latest profile CIDs
@@ -169,6 +174,7 @@ function getNextAvailableTask(progress: UserProgress, canCompleteProfile: boolea
 
 export function createApiServer(options: ApiServerOptions): http.Server {
   const { port, nodeBundle } = options;
+  let dohResolver: VNSDNSResolver | null = null;
 
   const server = http.createServer(async (req, res) => {
     // Enable CORS
@@ -219,9 +225,11 @@ export function createApiServer(options: ApiServerOptions): http.Server {
       // Status endpoint
       if (path === '/api/status' && req.method === 'GET') {
         const peers = nodeBundle.libp2p?.getPeers?.() || [];
+        const peerId = nodeBundle.libp2p?.peerId?.toString() || '';
         sendJson({
           status: 'running',
-          peerId: nodeBundle.libp2p?.peerId?.toString() || '',
+          peerId,
+          name: peerId ? lookupFriendlyName(peerId) : null,
           peers: peers.length,
           addresses: nodeBundle.libp2p?.getMultiaddrs?.()?.map((a: any) => a.toString()) || []
         });
@@ -1026,6 +1034,79 @@ export function createApiServer(options: ApiServerOptions): http.Server {
         return;
       }
 
+      // DNS-over-HTTPS - GET/POST /dns-query (RFC 8484 wire format, or application/dns-json)
+      if (path === '/dns-query' && (req.method === 'GET' || req.method === 'POST')) {
+        const vnsStore = (nodeBundle as any).vns?.store;
+        if (!vnsStore) {
+          sendError('VNS not enabled on this node', 503);
+          return;
+        }
+        dohResolver = dohResolver || new VNSDNSResolver(vnsStore, { upstream: options.dnsUpstream });
+
+        // JSON format: ?name=<name>&type=<type> (Accept or ct=application/dns-json)
+        const wantsJson = url.searchParams.has('name') ||
+          (req.headers.accept || '').includes('application/dns-json') ||
+          url.searchParams.get('ct') === 'application/dns-json';
+
+        let query: Buffer;
+        if (req.method === 'POST') {
+          if (req.headers['content-type'] !== 'application/dns-message') {
+            sendError('Content-Type must be application/dns-message', 415);
+            return;
+          }
+          const chunks: Buffer[] = [];
+          let size = 0;
+          for await (const chunk of req) {
+            size += chunk.length;
+            if (size > 65535) {
+              sendError('DNS message too large', 413);
+              return;
+            }
+            chunks.push(chunk);
+          }
+          query = Buffer.concat(chunks);
+        } else if (url.searchParams.has('dns')) {
+          query = Buffer.from(url.searchParams.get('dns')!, 'base64url');
+        } else if (url.searchParams.has('name')) {
+          const type = parseDNSType(url.searchParams.get('type'));
+          if (type === null) {
+            sendError(`Unknown DNS type: ${url.searchParams.get('type')}`, 400);
+            return;
+          }
+          try {
+            query = encodeDNSQuery(url.searchParams.get('name')!, type, 0);
+          } catch (e: any) {
+            sendError('Invalid name: ' + e.message, 400);
+            return;
+          }
+        } else {
+          sendError('Missing dns or name parameter', 400);
+          return;
+        }
+
+        const response = await dohResolver.handleQuery(query);
+        if (!response) {
+          sendError('Malformed DNS message', 400);
+          return;
+        }
+
+        // Cache for the smallest answer TTL (RFC 8484 section 5.1)
+        const decoded = decodeDNSMessage(response);
+        const ttls = decoded.answers.map(a => a.ttl);
+        const headers: Record<string, string> = {
+          'Cache-Control': `max-age=${ttls.length ? Math.min(...ttls) : 0}`
+        };
+
+        if (wantsJson) {
+          res.writeHead(200, { ...headers, 'Content-Type': 'application/dns-json' });
+          res.end(JSON.stringify(toDNSJSON(decoded)));
+        } else {
+          res.writeHead(200, { ...headers, 'Content-Type': 'application/dns-message' });
+          res.end(response);
+        }
+        return;
+      }
+
       // VNS endpoints
       if (path.startsWith('/api/vns/')) {
         const vnsStore = (nodeBundle as any).vns?.store;
@@ -1064,15 +1145,19 @@ export function createApiServer(options: ApiServerOptions): http.Server {
           return;
         }
 
-        // GET /api/vns/resolve/:name - Resolve a VNS name
+        // GET /api/vns/resolve/:name[?proof=true][&follow=true] - Resolve a VNS name (optionally with merkle proof, following CNAMEs)
         if (path.startsWith('/api/vns/resolve/') && req.method === 'GET') {
           try {
             const name = decodeURIComponent(path.replace('/api/vns/resolve/', ''));
-            const result = await vnsStore.resolve(name);
+            const withProof = url.searchParams.get('proof') === 'true' || url.searchParams.get('proof') === '1';
+            const follow = url.searchParams.get('follow') === 'true' || url.searchParams.get('follow') === '1';
+            const result = await vnsStore.resolve(name, { proof: withProof, followAliases: follow });
             
             sendJson({
               entry: result.found ? result : null,
-              ttl: result.ttl || 3600
+              ...(result.found ? {} : { error: result.error, aliasChain: result.aliasChain }),
+              ttl: result.ttl || 3600,
+              ...(withProof ? { proof: result.proof } : {})
             });
           } catch (e: any) {
             sendError('Resolution error: ' + e.message, 500);
@@ -1080,24 +1165,55 @@ export function createApiServer(options: ApiServerOptions): http.Server {
           return;
         }
 
-        // POST /api/vns/transfer/:name - Transfer name ownership
+        // POST /api/vns/update/:name - Replace records (owner-signed, keeps expiry)
+        if (path.startsWith('/api/vns/update/') && req.method === 'POST') {
+          try {
+            const name = decodeURIComponent(path.replace('/api/vns/update/', ''));
+            const body = await getBody();
+
+            if (!body || !body.update) {
+              sendError('Missing required field: update', 400);
+              return;
+            }
+
+            const peerId = nodeBundle.libp2p?.peerId?.toString() || 'api-client';
+            const result = await vnsStore.update({ ...body.update, name }, peerId);
+
+            if (result.success) {
+              sendJson({
+                success: true,
+                name,
+                cid: result.cid,
+                message: `Successfully updated records for ${name}`
+              });
+            } else {
+              sendError(result.error || 'Update failed', 400);
+            }
+          } catch (e: any) {
+            sendError('Update error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // POST /api/vns/transfer/:name - Transfer name ownership (signed by the current owner keys)
         if (path.startsWith('/api/vns/transfer/') && req.method === 'POST') {
           try {
             const name = decodeURIComponent(path.replace('/api/vns/transfer/', ''));
             const body = await getBody();
             
-            if (!body || !body.newOwner || !body.signature) {
-              sendError('Missing required fields: newOwner, signature', 400);
+            if (!body || !body.transfer || !Array.isArray(body.transfer.signatures)) {
+              sendError('Missing required field: transfer (with signatures)', 400);
               return;
             }
 
-            const peerId = body.currentOwner || nodeBundle.libp2p?.peerId?.toString() || 'api-client';
-            const result = await vnsStore.transfer(name, body.newOwner, body.signature, peerId);
+            const peerId = nodeBundle.libp2p?.peerId?.toString() || 'api-client';
+            const result = await vnsStore.transfer({ ...body.transfer, name }, peerId);
             
             if (result.success) {
               sendJson({
                 success: true,
-                message: `Successfully transferred ${name} to ${body.newOwner}`
+                cid: result.cid,
+                message: `Successfully transferred ${name} to ${body.transfer.newOwner}`
               });
             } else {
               sendError(result.error || 'Transfer failed', 400);
@@ -1108,6 +1224,207 @@ export function createApiServer(options: ApiServerOptions): http.Server {
           return;
         }
 
+        // POST /api/vns/rotate/:name - Rotate the owner key (signed by the current or recovery key)
+        if (path.startsWith('/api/vns/rotate/') && req.method === 'POST') {
+          try {
+            const name = decodeURIComponent(path.replace('/api/vns/rotate/', ''));
+            const body = await getBody();
+
+            if (!body || !body.rotation || !body.rotation.signature) {
+              sendError('Missing required field: rotation (with signature)', 400);
+              return;
+            }
+
+            const peerId = nodeBundle.libp2p?.peerId?.toString() || 'api-client';
+            const result = await vnsStore.rotateKey({ ...body.rotation, name }, peerId);
+
+            if (result.success) {
+              sendJson({
+                success: true,
+                cid: result.cid,
+                message: `Successfully rotated the key of ${name}`
+              });
+            } else {
+              sendError(result.error || 'Key rotation failed', 400);
+            }
+          } catch (e: any) {
+            sendError('Key rotation error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // GET /api/vns/renew/:name - Renewal details (current expiry, grace period, next expiry)
+        if (path.startsWith('/api/vns/renew/') && req.method === 'GET') {
+          const name = decodeURIComponent(path.replace('/api/vns/renew/', ''));
+          const info = vnsStore.getRenewalInfo(name);
+          if (!info) {
+            sendError('Name not found', 404);
+            return;
+          }
+          sendJson(info);
+          return;
+        }
+
+        // GET /api/vns/rate-limits - Registration rate limits per owner key
+        // (?key=<id>, or ?publicKey=<pem> / ?owner=<peerId> to look up one owner)
+        if (path === '/api/vns/rate-limits' && req.method === 'GET') {
+          try {
+            const publicKey = url.searchParams.get('publicKey') || undefined;
+            const owner = url.searchParams.get('owner') || '';
+            const key = url.searchParams.get('key') ||
+              (publicKey || owner ? rateLimitKey({ owner, publicKey }) : undefined);
+            sendJson({
+              windowMs: VNS_CONFIG.RATE_LIMIT_WINDOW_MS,
+              limits: { local: VNS_CONFIG.RATE_LIMIT_PER_HOUR, relay: VNS_CONFIG.RATE_LIMIT_RELAY_PER_HOUR },
+              keys: vnsStore.getRateLimits(key)
+            });
+          } catch (e: any) {
+            sendError('Rate limit error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // GET /api/vns/difficulty/:name - PoW difficulty required to register a name now
+        if (path.startsWith('/api/vns/difficulty/') && req.method === 'GET') {
+          try {
+            const name = normalizeVNSName(decodeURIComponent(path.replace('/api/vns/difficulty/', '')));
+            const now = Date.now();
+            sendJson({
+              name,
+              difficulty: vnsStore.getPowDifficulty(name, now),
+              algorithm: vnsStore.getPowAlgorithm(),
+              antiSpam: vnsStore.getAntiSpamMode(),
+              recentRegistrations: vnsStore.getRegistrationVolume(now),
+              window: powVolumeWindow(now)
+            });
+          } catch (e: any) {
+            sendError('Difficulty error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // POST /api/vns/renew/:name - Renew a name (owner-signed renewal with fresh PoW)
+        if (path.startsWith('/api/vns/renew/') && req.method === 'POST') {
+          try {
+            const name = decodeURIComponent(path.replace('/api/vns/renew/', ''));
+            const body = await getBody();
+
+            if (!body || !body.renewal) {
+              sendError('Missing required field: renewal', 400);
+              return;
+            }
+
+            const peerId = nodeBundle.libp2p?.peerId?.toString() || 'api-client';
+            const result = await vnsStore.renew({ ...body.renewal, name }, peerId);
+
+            if (result.success) {
+              sendJson({
+                success: true,
+                name,
+                cid: result.cid,
+                expires: result.expires,
+                message: `Successfully renewed ${name}`
+              });
+            } else {
+              sendError(result.error || 'Renewal failed', 400);
+            }
+          } catch (e: any) {
+            sendError('Renewal error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // GET /api/vns/history/:name[?blocks=true] - History chain (optionally with raw blocks for verification)
+        if (path.startsWith('/api/vns/history/') && req.method === 'GET') {
+          try {
+            const name = decodeURIComponent(path.replace('/api/vns/history/', ''));
+            const blocks = url.searchParams.get('blocks') === 'true' || url.searchParams.get('blocks') === '1';
+            const history = await vnsStore.getHistory(name, { blocks });
+            if (!history.head) {
+              sendError('Name has no history', 404);
+              return;
+            }
+            sendJson(history);
+          } catch (e: any) {
+            sendError('History error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // GET /api/vns/names?prefix=&owner=&recordType=&expiringBefore=&cursor=&limit= - Page through names in order
+        if (path === '/api/vns/names' && req.method === 'GET') {
+          try {
+            const param = (key: string) => url.searchParams.get(key) || undefined;
+            const numeric = (key: string) => (param(key) !== undefined ? Number(param(key)) : undefined);
+            const result = vnsStore.listNames({
+              prefix: param('prefix'),
+              owner: param('owner'),
+              recordType: param('recordType')?.toUpperCase(),
+              expiringBefore: numeric('expiringBefore'),
+              cursor: param('cursor'),
+              limit: numeric('limit')
+            });
+            if (result.error) {
+              sendError(result.error, 400);
+              return;
+            }
+            sendJson(result);
+          } catch (e: any) {
+            sendError('Listing error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // GET /api/vns/subscribe?name=...&name=...&owner=... - Server-sent change events (register, update, transfer, expire, ...)
+        if (path === '/api/vns/subscribe' && req.method === 'GET') {
+          if (vnsStore.getSubscriptionCount() >= VNS_CONFIG.MAX_SUBSCRIPTIONS) {
+            sendError('Too many open subscriptions', 503);
+            return;
+          }
+
+          const filter = {
+            names: url.searchParams.getAll('name').map(normalizeVNSName),
+            owner: url.searchParams.get('owner') || undefined
+          };
+          res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+          });
+          res.write(': subscribed\n\n');
+
+          const unsubscribe = vnsStore.subscribe(filter, (event: any) => {
+            res.write(`id: ${event.cid}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          });
+          const keepalive = setInterval(() => res.write(': keepalive\n\n'), VNS_CONFIG.SUBSCRIPTION_KEEPALIVE_MS);
+          req.on('close', () => {
+            clearInterval(keepalive);
+            unsubscribe();
+          });
+          return;
+        }
+
+        // GET /api/vns/reverse/:subject - Primary name claimed for a peer ID or IP address
+        if (path.startsWith('/api/vns/reverse/') && req.method === 'GET') {
+          try {
+            const subject = decodeURIComponent(path.replace('/api/vns/reverse/', ''));
+            if (!subject) {
+              sendError('Missing peer ID or IP address', 400);
+              return;
+            }
+
+            const result = vnsStore.reverseResolve(subject);
+            if (!result.found) {
+              sendError(`No primary name claimed for ${result.subject}`, 404);
+              return;
+            }
+            sendJson(result);
+          } catch (e: any) {
+            sendError('Reverse resolution error: ' + e.message, 500);
+          }
+          return;
+        }
+
         // GET /api/vns/query?owner=<pubkey> - Query names by owner
         if (path === '/api/vns/query' && req.method === 'GET') {
           try {
@@ -1132,10 +1449,13 @@ export function createApiServer(options: ApiServerOptions): http.Server {
               enabled: vnsStore.isEnabled(),
               entries: vnsStore.size(),
               merkleRoot: vnsStore.getMerkleRoot(),
+              reconciliation: (nodeBundle as any).vns?.reconciler?.getLastResult() ?? null,
+              stake: vnsStore.getStakeStatus(),
               config: {
                 tld: '.vfs',
-                powDifficulty: 3,
-                rateLimit: '5/hour',
+                powDifficulty: vnsStore.getPowDifficulty(null),
+                powAlgorithm: vnsStore.getPowAlgorithm(),
+                rateLimit: `${VNS_CONFIG.RATE_LIMIT_PER_HOUR}/hour per owner key (${VNS_CONFIG.RATE_LIMIT_RELAY_PER_HOUR}/hour relayed)`,
                 expiration: '1 year',
                 ttl: '3600s'
               }
@@ -1146,6 +1466,51 @@ export function createApiServer(options: ApiServerOptions): http.Server {
           return;
         }
 
+        // GET /api/vns/sync/buckets - Per-bucket hashes for anti-entropy reconciliation
+        if (path === '/api/vns/sync/buckets' && req.method === 'GET') {
+          try {
+            sendJson({
+              merkleRoot: vnsStore.getMerkleRoot(),
+              buckets: vnsStore.getBucketHashes()
+            });
+          } catch (e: any) {
+            sendError('Sync error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // POST /api/vns/sync/digests - Entry digests for the given buckets
+        if (path === '/api/vns/sync/digests' && req.method === 'POST') {
+          try {
+            const body = await getBody();
+            if (!body || !Array.isArray(body.buckets)) {
+              sendError('Missing required field: buckets', 400);
+              return;
+            }
+
+            sendJson({ digests: vnsStore.getDigests(body.buckets) });
+          } catch (e: any) {
+            sendError('Sync error: ' + e.message, 500);
+          }
+          return;
+        }
+
+        // POST /api/vns/sync/entries - Full entries for the given names
+        if (path === '/api/vns/sync/entries' && req.method === 'POST') {
+          try {
+            const body = await getBody();
+            if (!body || !Array.isArray(body.names)) {
+              sendError('Missing required field: names', 400);
+              return;
+            }
+
+            sendJson({ entries: vnsStore.getEntries(body.names) });
+          } catch (e: any) {
+            sendError('Sync error: ' + e.message, 500);
+          }
+          return;
+        }
+
         // POST /api/vns/push-delta - Receive VNS delta from another node (HTTP-based P2P)
         if (path === '/api/vns/push-delta' && req.method === 'POST') {
           let body = '';
@@ -37,6 +37,8 @@ program
   .option('--data-dir <path>', 'Data storage directory', './verimut-data')
   .option('--profile <file>', 'Profile JSON file to publish on startup')
   .option('--enable-vns', 'Enable Verimut Name Service (VNS)')
+  .option('--dns-port <port>', 'Serve .vfs names over DNS on this port (requires --enable-vns)')
+  .option('--dns-upstream <resolver>', 'Forward non-.vfs DNS queries to this resolver (host[:port])')
   .option('--verbose', 'Enable verbose logging');
 
 // Add VNS subcommand
@@ -63,7 +65,9 @@ async function main(options: any) {
       bootstrapPeers: options.bootstrap || [],
       dataDir: options.dataDir,
       verbose: options.verbose,
-      enableVNS: options.enableVns
+      enableVNS: options.enableVns,
+      dnsPort: options.dnsPort !== undefined ? parseInt(options.dnsPort) : undefined,
+      dnsUpstream: options.dnsUpstream
     });
 
     // Initialize node
@@ -79,6 +83,10 @@ async function main(options: any) {
       console.log(chalk.gray(`   API Server: http://localhost:${config.apiPort}`));
     }
     
+    if (node.dnsPort) {
+      console.log(chalk.gray(`   DNS Server: ${config.dnsHost}:${node.dnsPort} (.vfs)`));
+    }
+    
     console.log(chalk.gray(`   Data Directory: ${config.dataDir}`));
     console.log(chalk.gray(`   Bootstrap Peers: ${config.bootstrapPeers.length} configured\n`));
 
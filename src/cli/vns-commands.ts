@@ -10,72 +10,339 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { VNSNamespaceStore } from '../vns/namespace-store.js';
-import { VNSSecurity } from '../vns/security.js';
-import { VNSRegistration, VNS_CONFIG, normalizeVNSName } from '../types/vns-schema.js';
+import {
+  VNSSecurity,
+  VNSSignatureValidator,
+  renewalPoWSubject,
+  isPoWAlgorithm,
+  powZeros
+} from '../vns/security.js';
+import { VNSPoWProgress, solvePoW } from '../vns/pow-solver.js';
+import { blockMatchesCid, parseEntryState } from '../vns/history.js';
+import { VNSZone, VNSLiveName, formatZoneFile, parseZone, planZoneChanges } from '../vns/zone-file.js';
+import {
+  VNSRegistration,
+  VNSRecord,
+  VNSRenewal,
+  VNSRecordUpdate,
+  VNSTransfer,
+  VNSKeyRotation,
+  VNSOwnerSet,
+  VNSPoWAlgorithm,
+  VNSAntiSpamMode,
+  VNS_CONFIG,
+  normalizeVNSName,
+  getParentVNSName,
+  validateVNSRecords
+} from '../types/vns-schema.js';
 import { createOrLoadIdentity } from '../identity.js';
 import { signData } from '../identity.js';
+import type { VerimutIdentity } from '../identity.js';
 
 /**
  * Display PoW progress bar
  */
-function displayPoWProgress(attempt: number, maxAttempts: number): void {
-  const pct = Math.floor((attempt / maxAttempts) * 100);
+function displayPoWProgress(progress: VNSPoWProgress, maxAttempts: number): void {
+  const pct = Math.min(100, Math.floor((progress.attempts / maxAttempts) * 100));
   const bar = '█'.repeat(Math.floor(pct / 2)) + '░'.repeat(50 - Math.floor(pct / 2));
-  process.stdout.write(`\r${chalk.cyan('Computing PoW:')} [${bar}] ${pct}% (${attempt}/${maxAttempts})`);
+  process.stdout.write(
+    `\r${chalk.cyan('Computing PoW:')} [${bar}] ${pct}% (${progress.attempts}/${maxAttempts}, ${progress.hashRate} H/s)`
+  );
 }
 
 /**
- * Compute PoW with progress display
+ * PoW algorithm from the --pow-algorithm option (undefined = use the node's)
+ */
+function parsePoWAlgorithm(value: string | undefined): VNSPoWAlgorithm | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPoWAlgorithm(value)) {
+    throw new Error(`Unknown PoW algorithm: ${value} (expected sha256 or scrypt)`);
+  }
+  return value;
+}
+
+/**
+ * Solver options from --pow-threads and --pow-timeout
+ */
+function parsePoWOptions(opts: any): { threads?: number; timeout?: number } {
+  const threads = opts.powThreads !== undefined ? parseInt(opts.powThreads) : undefined;
+  if (threads !== undefined && !(threads >= 1)) {
+    throw new Error(`Invalid --pow-threads: ${opts.powThreads}`);
+  }
+  const timeout = opts.powTimeout !== undefined ? parseFloat(opts.powTimeout) : undefined;
+  if (timeout !== undefined && !(timeout > 0)) {
+    throw new Error(`Invalid --pow-timeout: ${opts.powTimeout}`);
+  }
+  return { threads, timeout };
+}
+
+/**
+ * Fetch the PoW difficulty, algorithm and anti-spam mode a node currently requires for a name
+ * Falls back to the local name-length requirement (SHA-256, PoW mode) if the node can't be reached
+ */
+async function fetchPoWRequirement(
+  name: string,
+  api: string,
+  security: VNSSecurity
+): Promise<{ difficulty: number; algorithm: VNSPoWAlgorithm; antiSpam: VNSAntiSpamMode }> {
+  try {
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(`${api}/api/vns/difficulty/${encodeURIComponent(name)}`);
+    if (response.ok) {
+      const data: any = await response.json();
+      if (Number.isInteger(data.difficulty)) {
+        // Nodes from before pluggable PoW don't report an algorithm
+        const algorithm = isPoWAlgorithm(data.algorithm) ? data.algorithm : 'sha256';
+        return { difficulty: data.difficulty, algorithm, antiSpam: data.antiSpam || 'pow' };
+      }
+    }
+    console.log(chalk.yellow(`⚠️  Could not read the required difficulty from ${api} (HTTP ${response.status})`));
+  } catch (e) {
+    console.log(chalk.yellow(`⚠️  Could not reach ${api} for the required difficulty`));
+  }
+  console.log(chalk.gray('   Using the local estimate (without the network volume surcharge)\n'));
+  return {
+    difficulty: security.getRequiredDifficulty(name),
+    algorithm: security.getPoWAlgorithm(),
+    antiSpam: security.getAntiSpamMode()
+  };
+}
+
+/**
+ * Compute PoW on worker threads with progress display
+ * Ctrl+C cancels the search; `timeout` is in seconds
  */
 async function computePoWWithProgress(
   name: string,
   owner: string,
-  security: VNSSecurity
+  difficulty: number,
+  algorithm: VNSPoWAlgorithm,
+  options: { threads?: number; timeout?: number } = {}
 ): Promise<number | null> {
+  const zeros = powZeros(difficulty, algorithm);
   console.log(chalk.blue(`\n🔨 Computing proof-of-work for ${name}...`));
-  console.log(chalk.gray(`   Difficulty: ${security.getPoWDifficulty()} leading zeros`));
-  console.log(chalk.gray(`   Estimated attempts: ~${Math.pow(16, security.getPoWDifficulty())}\n`));
-
-  const maxAttempts = 1000000; // 1 million attempts
-  const updateInterval = 1000; // Update every 1k attempts
-
-  return new Promise((resolve) => {
-    let attempt = 0;
-    const startTime = Date.now();
-
-    const tryNonce = () => {
-      const nonce = attempt;
-      const input = `${name}:${owner}:${nonce}`;
-      const hash = crypto.createHash('sha256').update(input).digest('hex');
-      const prefix = '0'.repeat(security.getPoWDifficulty());
-
-      if (hash.startsWith(prefix)) {
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
-        process.stdout.write('\r' + ' '.repeat(80) + '\r'); // Clear line
-        console.log(chalk.green(`✅ Found valid nonce: ${nonce} (${attempt + 1} attempts in ${elapsed}s)\n`));
-        resolve(nonce);
-        return;
-      }
+  console.log(chalk.gray(`   Algorithm: ${algorithm}`));
+  console.log(chalk.gray(`   Difficulty: ${zeros} leading zeros`));
+  console.log(chalk.gray(`   Estimated attempts: ~${Math.pow(16, zeros)}\n`));
 
-      attempt++;
+  // scrypt hashes take milliseconds each, so it gets a smaller floor
+  const maxAttempts = Math.max(algorithm === 'sha256' ? 1000000 : 1000, 4 * Math.pow(16, zeros));
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  process.once('SIGINT', cancel);
 
-      if (attempt % updateInterval === 0) {
-        displayPoWProgress(attempt, maxAttempts);
-      }
+  try {
+    const solution = await solvePoW({ name, owner, zeros, algorithm }, {
+      maxAttempts,
+      threads: options.threads,
+      timeout: options.timeout !== undefined ? options.timeout * 1000 : undefined,
+      signal: controller.signal,
+      onProgress: progress => displayPoWProgress(progress, maxAttempts)
+    });
+
+    process.stdout.write('\r' + ' '.repeat(120) + '\r'); // Clear line
+    const elapsed = (solution.elapsed / 1000).toFixed(2);
+    if (solution.status === 'found') {
+      console.log(chalk.green(
+        `✅ Found valid nonce: ${solution.nonce} (${solution.attempts} attempts in ${elapsed}s, ${solution.hashRate} H/s)\n`
+      ));
+    } else if (solution.status === 'timeout') {
+      console.log(chalk.red(`❌ No valid nonce within ${options.timeout}s (${solution.attempts} attempts)\n`));
+    } else if (solution.status === 'cancelled') {
+      console.log(chalk.yellow(`⚠️  Proof-of-work cancelled after ${solution.attempts} attempts\n`));
+    } else {
+      console.log(chalk.red('❌ Failed to find valid nonce within attempt limit\n'));
+    }
+    return solution.nonce;
+  } finally {
+    process.removeListener('SIGINT', cancel);
+  }
+}
+
+/**
+ * Build records from the record options (--cid, --ip, --cname, --srv, ...)
+ */
+function buildRecords(opts: any): any[] {
+  const records: any[] = [];
+  if (opts.cid) records.push({ type: 'FS', value: opts.cid, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.ip) records.push({ type: 'A', value: opts.ip, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.ip6) records.push({ type: 'AAAA', value: opts.ip6, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.txt) records.push({ type: 'TXT', value: opts.txt, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.sync) records.push({ type: 'SYNC', value: opts.sync, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.delegate) records.push({ type: 'DELEGATE', value: fs.readFileSync(opts.delegate, 'utf8'), ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.cname) records.push({ type: 'CNAME', value: normalizeVNSName(opts.cname), ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.srv) records.push({ type: 'SRV', value: opts.srv, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.mx) records.push({ type: 'MX', value: opts.mx, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.peer) records.push({ type: 'PEER', value: opts.peer, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.content) records.push({ type: 'CONTENT', value: opts.content, ttl: VNS_CONFIG.TTL_DEFAULT });
+  if (opts.primary) records.push({ type: 'PRIMARY', value: opts.primary, ttl: VNS_CONFIG.TTL_DEFAULT });
+
+  const check = validateVNSRecords(records);
+  if (!check.valid) {
+    throw new Error(check.error);
+  }
+  return records;
+}
+
+/**
+ * Build an M-of-N owner set from PEM key files (primary key is always included)
+ */
+function buildOwnerSet(primaryKeyPem: string, keyFiles: string[] | undefined, threshold: string | undefined): VNSOwnerSet | undefined {
+  if (!keyFiles || keyFiles.length === 0) {
+    return undefined;
+  }
 
-      if (attempt >= maxAttempts) {
-        process.stdout.write('\r' + ' '.repeat(80) + '\r');
-        console.log(chalk.red('❌ Failed to find valid nonce within attempt limit\n'));
-        resolve(null);
-        return;
+  const keys = [primaryKeyPem, ...keyFiles.map(f => fs.readFileSync(f, 'utf8'))]
+    .filter((key, i, all) => all.indexOf(key) === i);
+  return { keys, threshold: threshold ? parseInt(threshold, 10) : keys.length };
+}
+
+/**
+ * Compute PoW (or skip it for subdomains, stake-only networks and --no-pow) and
+ * sign a registration; subdomains also get the parent zone's signature
+ * Returns null if no PoW nonce was found
+ */
+async function prepareRegistration(
+  name: string,
+  records: VNSRecord[],
+  identity: VerimutIdentity,
+  opts: any
+): Promise<VNSRegistration | null> {
+  const owner = identity.peerId.toString();
+  const security = new VNSSecurity();
+  const parentZone = getParentVNSName(name);
+  let nonce: number;
+  let powAlgorithm: VNSPoWAlgorithm | undefined;
+
+  if (parentZone) {
+    console.log(chalk.gray(`Subdomain of ${parentZone}: zone signature replaces PoW\n`));
+    nonce = 0;
+  } else if (opts.pow === false) {
+    console.log(chalk.yellow('⚠️  Skipping PoW (testing mode)\n'));
+    nonce = 0;
+  } else {
+    const requirement = await fetchPoWRequirement(name, opts.api, security);
+    if (requirement.antiSpam === 'stake') {
+      console.log(chalk.gray('Stake-only network: stake is locked from your balance instead of PoW\n'));
+      nonce = 0;
+    } else {
+      const algorithm = parsePoWAlgorithm(opts.powAlgorithm) ?? requirement.algorithm;
+      const computedNonce = await computePoWWithProgress(
+        name, owner, requirement.difficulty, algorithm, parsePoWOptions(opts)
+      );
+      if (computedNonce === null) {
+        return null;
       }
+      nonce = computedNonce;
+      // SHA-256 stays implicit so the registration signs the same as before
+      powAlgorithm = algorithm === 'sha256' ? undefined : algorithm;
+    }
+  }
 
-      // Continue searching (non-blocking)
-      setImmediate(tryNonce);
+  // Create registration
+  const now = Date.now();
+  const registration: VNSRegistration = {
+    name,
+    owner,
+    records,
+    timestamp: now,
+    expires: now + VNS_CONFIG.EXPIRATION_PERIOD,
+    nonce,
+    powAlgorithm,
+    signature: '',
+    publicKey: identity.publicKeyPem,
+    owners: buildOwnerSet(identity.publicKeyPem, opts.coOwner, opts.threshold),
+    recoveryKey: opts.recoveryKey ? fs.readFileSync(opts.recoveryKey, 'utf8') : undefined
+  };
+
+  // Sign registration
+  const dataToSign = new VNSSignatureValidator().serializeForSigning(registration);
+  registration.signature = signData(identity.signingKeyPem, dataToSign);
+
+  if (parentZone) {
+    const zoneIdentity = opts.zoneKey ? await createOrLoadIdentity(opts.zoneKey) : identity;
+    registration.zoneSignature = {
+      publicKey: zoneIdentity.publicKeyPem,
+      signature: signData(zoneIdentity.signingKeyPem, dataToSign)
     };
+  }
 
-    tryNonce();
+  return registration;
+}
+
+/**
+ * Sign a record update for a name the identity holds
+ */
+function prepareUpdate(name: string, records: VNSRecord[], identity: VerimutIdentity): VNSRecordUpdate {
+  const update: VNSRecordUpdate = {
+    name,
+    owner: identity.peerId.toString(),
+    records,
+    timestamp: Date.now(),
+    signature: ''
+  };
+  update.signature = signData(
+    identity.signingKeyPem,
+    new VNSSignatureValidator().serializeUpdateForSigning(update)
+  );
+  return update;
+}
+
+/**
+ * Records, holder and expiry of a live name (null if it is not registered or has expired)
+ */
+async function fetchLiveName(api: string, name: string): Promise<(VNSLiveName & { expires: number }) | null> {
+  const fetch = (await import('node-fetch')).default;
+  const response = await fetch(`${api}/api/vns/resolve/${encodeURIComponent(name)}`);
+  if (!response.ok) {
+    throw new Error(`Could not resolve ${name}: HTTP ${response.status} ${response.statusText}`);
+  }
+  const result: any = await response.json();
+  return result.entry?.found
+    ? { owner: result.entry.owner, records: result.entry.records || [], expires: result.entry.expires }
+    : null;
+}
+
+/**
+ * POST a signed registration or update and return the node's answer
+ */
+async function submitSigned(url: string, body: any): Promise<{ success: boolean; error?: string; cid?: string }> {
+  const fetch = (await import('node-fetch')).default;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
   });
+  const result: any = await response.json();
+  return response.ok && result.success
+    ? { success: true, cid: result.cid }
+    : { success: false, error: result.error || response.statusText };
+}
+
+/**
+ * Submit a signed transfer to a VNS node
+ */
+async function submitTransfer(api: string, transfer: VNSTransfer): Promise<void> {
+  const fetch = (await import('node-fetch')).default;
+  const url = `${api}/api/vns/transfer/${encodeURIComponent(transfer.name)}`;
+
+  console.log(chalk.gray(`Submitting transfer to: ${url}...`));
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ transfer })
+  });
+
+  const result: any = await response.json();
+
+  if (response.ok && result.success) {
+    console.log(chalk.green('✅ Transfer successful!\n'));
+  } else {
+    console.log(chalk.red(`❌ Transfer failed: ${result.error || response.statusText}\n`));
+    process.exit(1);
+  }
 }
 
 /**
@@ -96,8 +363,23 @@ export function createVNSCommand(): Command {
     .option('--ip6 <address>', 'IPv6 address for AAAA record')
     .option('--txt <text>', 'Text metadata for TXT record')
     .option('--sync <endpoint>', 'VerimutSync peer endpoint')
+    .option('--delegate <pem>', 'Delegate subdomains of this name to a public key file (DELEGATE record)')
+    .option('--cname <name>', 'Alias to another .vfs name (CNAME record, must be the only record)')
+    .option('--srv <spec>', 'Service record: "<priority> <weight> <port> <target.vfs>"')
+    .option('--mx <spec>', 'Mail exchange record: "<priority> <target.vfs>"')
+    .option('--peer <multiaddr>', 'libp2p multiaddr ending in /p2p/<peerId> (PEER record)')
+    .option('--content <uri>', 'Content hash: ipfs://<cid> or ipns://<name> (CONTENT record)')
+    .option('--primary <subject>', 'Claim this name as primary for a peer ID or IP it points at (PRIMARY record)')
+    .option('--co-owner <pem...>', 'Co-owner public key files (makes the name M-of-N owned)')
+    .option('--threshold <n>', 'Signatures required to transfer a co-owned name (default: all)')
+    .option('--recovery-key <pem>', 'Recovery public key file that may rotate your key if it is lost or leaks')
+    .option('--zone-key <path>', 'Parent zone owner/delegate key for subdomains (default: --key)')
     .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
     .option('--data-dir <path>', 'Data directory (default: ./verimut-data)', './verimut-data')
+    .option('--api <url>', 'VNS API endpoint to read the required PoW difficulty from', 'http://localhost:3001')
+    .option('--pow-algorithm <name>', 'PoW algorithm: sha256 or scrypt (default: the one the node requires)')
+    .option('--pow-threads <n>', 'Worker threads for proof-of-work (default: all CPU cores)')
+    .option('--pow-timeout <seconds>', 'Give up on proof-of-work after this many seconds')
     .option('--no-pow', 'Skip proof-of-work (for testing only)')
     .action(async (name: string, opts) => {
       try {
@@ -114,12 +396,7 @@ export function createVNSCommand(): Command {
         console.log(chalk.gray(`Owner: ${owner.slice(0, 32)}...\n`));
 
         // Build records
-        const records: any[] = [];
-        if (opts.cid) records.push({ type: 'FS', value: opts.cid, ttl: VNS_CONFIG.TTL_DEFAULT });
-        if (opts.ip) records.push({ type: 'A', value: opts.ip, ttl: VNS_CONFIG.TTL_DEFAULT });
-        if (opts.ip6) records.push({ type: 'AAAA', value: opts.ip6, ttl: VNS_CONFIG.TTL_DEFAULT });
-        if (opts.txt) records.push({ type: 'TXT', value: opts.txt, ttl: VNS_CONFIG.TTL_DEFAULT });
-        if (opts.sync) records.push({ type: 'SYNC', value: opts.sync, ttl: VNS_CONFIG.TTL_DEFAULT });
+        const records = buildRecords(opts);
 
         if (records.length === 0) {
           console.log(chalk.yellow('⚠️  No records specified. Adding default TXT record.'));
@@ -130,46 +407,12 @@ export function createVNSCommand(): Command {
         records.forEach(r => console.log(chalk.gray(`  ${r.type}: ${r.value}`)));
         console.log('');
 
-        // Compute PoW
-        const security = new VNSSecurity();
-        let nonce: number;
-
-        if (opts.pow === false) {
-          console.log(chalk.yellow('⚠️  Skipping PoW (testing mode)\n'));
-          nonce = 0;
-        } else {
-          const computedNonce = await computePoWWithProgress(name, owner, security);
-          if (computedNonce === null) {
-            console.log(chalk.red('❌ Registration failed: Could not compute valid PoW'));
-            process.exit(1);
-          }
-          nonce = computedNonce;
+        const registration = await prepareRegistration(name, records, identity, opts);
+        if (!registration) {
+          console.log(chalk.red('❌ Registration failed: Could not compute valid PoW'));
+          process.exit(1);
         }
 
-        // Create registration
-        const now = Date.now();
-        const registration: VNSRegistration = {
-          name,
-          owner,
-          records,
-          timestamp: now,
-          expires: now + VNS_CONFIG.EXPIRATION_PERIOD,
-          nonce,
-          signature: '',
-          publicKey: identity.publicKeyPem
-        };
-
-        // Sign registration
-        const dataToSign = JSON.stringify({
-          name: registration.name,
-          owner: registration.owner,
-          records: registration.records,
-          timestamp: registration.timestamp,
-          expires: registration.expires,
-          nonce: registration.nonce
-        });
-        registration.signature = signData(identity.signingKeyPem, dataToSign);
-
         console.log(chalk.blue('📝 Registration prepared:'));
         console.log(chalk.gray(`   Timestamp: ${new Date(registration.timestamp).toISOString()}`));
         console.log(chalk.gray(`   Expires: ${new Date(registration.expires).toISOString()}`));
@@ -204,6 +447,7 @@ export function createVNSCommand(): Command {
   vns
     .command('resolve <name>')
     .description('Resolve a .vfs name to its records')
+    .option('--follow', 'Follow CNAME aliases to the final name')
     .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
     .action(async (name: string, opts) => {
       try {
@@ -215,7 +459,7 @@ export function createVNSCommand(): Command {
 
         // Query API
         const fetch = (await import('node-fetch')).default;
-        const url = `${opts.api}/api/vns/resolve/${encodeURIComponent(name)}`;
+        const url = `${opts.api}/api/vns/resolve/${encodeURIComponent(name)}${opts.follow ? '?follow=true' : ''}`;
         
         console.log(chalk.gray(`Querying: ${url}...`));
         const response = await fetch(url);
@@ -228,7 +472,7 @@ export function createVNSCommand(): Command {
         const result = await response.json();
 
         if (!result.entry || !result.entry.found) {
-          console.log(chalk.yellow(`⚠️  Name not found: ${name}\n`));
+          console.log(chalk.yellow(`⚠️  Name not found: ${name}${result.error ? ` (${result.error})` : ''}\n`));
           process.exit(0);
         }
 
@@ -236,6 +480,9 @@ export function createVNSCommand(): Command {
         console.log(chalk.green('✅ Name found!\n'));
         console.log(chalk.cyan('Details:'));
         console.log(chalk.gray(`   Name: ${result.entry.name}`));
+        if (result.entry.aliasChain) {
+          console.log(chalk.gray(`   Aliases: ${result.entry.aliasChain.join(' -> ')}`));
+        }
         console.log(chalk.gray(`   Owner: ${result.entry.owner}`));
         console.log(chalk.gray(`   Expires: ${new Date(result.entry.expires).toISOString()}`));
         console.log(chalk.gray(`   TTL: ${result.entry.ttl}s\n`));
@@ -256,12 +503,84 @@ export function createVNSCommand(): Command {
       }
     });
 
+  /**
+   * Replace the records of a name you own
+   */
+  vns
+    .command('update <name>')
+    .description('Replace the records of a .vfs name you own (keeps expiry)')
+    .option('--cid <cid>', 'IPFS CID for FS record')
+    .option('--ip <address>', 'IPv4 address for A record')
+    .option('--ip6 <address>', 'IPv6 address for AAAA record')
+    .option('--txt <text>', 'Text metadata for TXT record')
+    .option('--sync <endpoint>', 'VerimutSync peer endpoint')
+    .option('--delegate <pem>', 'Delegate subdomains of this name to a public key file (DELEGATE record)')
+    .option('--cname <name>', 'Alias to another .vfs name (CNAME record, must be the only record)')
+    .option('--srv <spec>', 'Service record: "<priority> <weight> <port> <target.vfs>"')
+    .option('--mx <spec>', 'Mail exchange record: "<priority> <target.vfs>"')
+    .option('--peer <multiaddr>', 'libp2p multiaddr ending in /p2p/<peerId> (PEER record)')
+    .option('--content <uri>', 'Content hash: ipfs://<cid> or ipns://<name> (CONTENT record)')
+    .option('--primary <subject>', 'Claim this name as primary for a peer ID or IP it points at (PRIMARY record)')
+    .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (name: string, opts) => {
+      try {
+        console.log(chalk.blue('\n✏️  VNS Update\n'));
+
+        // Normalize name
+        name = normalizeVNSName(name);
+        console.log(chalk.cyan(`Name: ${name}`));
+
+        const records = buildRecords(opts);
+        if (records.length === 0) {
+          console.log(chalk.red('❌ No records specified (use --cid, --ip, --ip6, --txt or --sync)\n'));
+          process.exit(1);
+        }
+
+        console.log(chalk.cyan('Records:'));
+        records.forEach(r => console.log(chalk.gray(`  ${r.type}: ${r.value}`)));
+        console.log('');
+
+        // Load identity and sign update
+        const identity = await createOrLoadIdentity(opts.key);
+        const update = prepareUpdate(name, records, identity);
+
+        // Submit update
+        const fetch = (await import('node-fetch')).default;
+        const url = `${opts.api}/api/vns/update/${encodeURIComponent(name)}`;
+
+        console.log(chalk.gray(`Submitting update to: ${url}...`));
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ update })
+        });
+
+        const result: any = await response.json();
+
+        if (response.ok && result.success) {
+          console.log(chalk.green(`✅ Records updated (CID: ${result.cid})\n`));
+        } else {
+          console.log(chalk.red(`❌ Update failed: ${result.error || response.statusText}\n`));
+          process.exit(1);
+        }
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
   /**
    * Transfer ownership of a name
    */
   vns
     .command('transfer <name> <new-owner>')
-    .description('Transfer ownership of a .vfs name')
+    .description('Transfer ownership of a .vfs name (signed by your key)')
+    .requiredOption('--new-public-key <pem>', 'New owner public key file (PEM)')
+    .option('--new-co-owner <pem...>', 'Co-owner public key files for the new owner set')
+    .option('--new-threshold <n>', 'Signatures required to transfer under the new owner set (default: all)')
+    .option('--out <file>', 'Write the signed transfer to a file for co-owners instead of submitting')
     .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
     .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
     .action(async (name: string, newOwner: string, opts) => {
@@ -273,39 +592,644 @@ export function createVNSCommand(): Command {
         console.log(chalk.cyan(`Name: ${name}`));
         console.log(chalk.cyan(`New Owner: ${newOwner}\n`));
 
-        // Load identity
+        // Current owner comes from the node, which may differ from our key for co-owned names
+        const fetch = (await import('node-fetch')).default;
+        const resolveResponse = await fetch(`${opts.api}/api/vns/resolve/${encodeURIComponent(name)}`);
+        const resolved: any = await resolveResponse.json();
+        if (!resolved.entry || !resolved.entry.found) {
+          console.log(chalk.red(`❌ Name not found: ${name}\n`));
+          process.exit(1);
+        }
+
+        const identity = await createOrLoadIdentity(opts.key);
+        const newPublicKey = fs.readFileSync(opts.newPublicKey, 'utf8');
+
+        const transfer: VNSTransfer = {
+          name,
+          fromOwner: resolved.entry.owner,
+          newOwner,
+          newPublicKey,
+          newOwners: buildOwnerSet(newPublicKey, opts.newCoOwner, opts.newThreshold),
+          nonce: crypto.randomBytes(16).toString('hex'),
+          timestamp: Date.now(),
+          signatures: []
+        };
+        transfer.signatures.push({
+          publicKey: identity.publicKeyPem,
+          signature: signData(identity.signingKeyPem, new VNSSignatureValidator().serializeTransferForSigning(transfer))
+        });
+
+        if (opts.out) {
+          fs.writeFileSync(opts.out, JSON.stringify(transfer, null, 2));
+          console.log(chalk.cyan(`💾 Transfer saved to: ${opts.out}`));
+          console.log(chalk.gray(`   Co-owners sign with: verimutfs vns cosign ${opts.out}\n`));
+          return;
+        }
+
+        await submitTransfer(opts.api, transfer);
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Add a co-owner signature to a pending transfer
+   */
+  vns
+    .command('cosign <file>')
+    .description('Add your signature to a transfer of a co-owned name')
+    .option('--submit', 'Submit the transfer after signing')
+    .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (file: string, opts) => {
+      try {
+        console.log(chalk.blue('\n✍️  VNS Transfer Co-sign\n'));
+
+        const transfer: VNSTransfer = JSON.parse(fs.readFileSync(file, 'utf8'));
+        console.log(chalk.cyan(`Name: ${transfer.name}`));
+        console.log(chalk.cyan(`New Owner: ${transfer.newOwner}\n`));
+
         const identity = await createOrLoadIdentity(opts.key);
-        const currentOwner = identity.peerId.toString();
+        if (transfer.signatures.some(s => s.publicKey === identity.publicKeyPem)) {
+          console.log(chalk.yellow('⚠️  This key has already signed the transfer'));
+        } else {
+          transfer.signatures.push({
+            publicKey: identity.publicKeyPem,
+            signature: signData(identity.signingKeyPem, new VNSSignatureValidator().serializeTransferForSigning(transfer))
+          });
+          fs.writeFileSync(file, JSON.stringify(transfer, null, 2));
+          console.log(chalk.green(`✅ Signed (${transfer.signatures.length} signature(s) collected)\n`));
+        }
 
-        // Sign transfer
-        const dataToSign = JSON.stringify({ name, newOwner, timestamp: Date.now() });
-        const signature = signData(identity.signingKeyPem, dataToSign);
+        if (opts.submit) {
+          await submitTransfer(opts.api, transfer);
+        }
 
-        // Submit transfer
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Rotate the key of a name (owner or recovery key signs)
+   */
+  vns
+    .command('rotate-key <name>')
+    .description('Replace the key that signs for a .vfs name you own')
+    .requiredOption('--new-public-key <pem>', 'New public key file (PEM)')
+    .option('--recovery', 'Sign with the recovery key declared at registration (--key points to it)')
+    .option('--new-recovery-key <pem>', 'New recovery public key file (with --recovery only)')
+    .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (name: string, opts) => {
+      try {
+        console.log(chalk.blue('\n🔑 VNS Key Rotation\n'));
+
+        // Normalize name
+        name = normalizeVNSName(name);
+        console.log(chalk.cyan(`Name: ${name}\n`));
+
+        if (opts.newRecoveryKey && !opts.recovery) {
+          console.log(chalk.red('❌ Only the recovery key may replace the recovery key (use --recovery)\n'));
+          process.exit(1);
+        }
+
+        // The owner stays the same, so take it from the node
         const fetch = (await import('node-fetch')).default;
-        const url = `${opts.api}/api/vns/transfer/${encodeURIComponent(name)}`;
-        
-        console.log(chalk.gray(`Submitting transfer to: ${url}...`));
+        const resolveResponse = await fetch(`${opts.api}/api/vns/resolve/${encodeURIComponent(name)}`);
+        const resolved: any = await resolveResponse.json();
+        if (!resolved.entry || !resolved.entry.found) {
+          console.log(chalk.red(`❌ Name not found: ${name}\n`));
+          process.exit(1);
+        }
+
+        const identity = await createOrLoadIdentity(opts.key);
+        const rotation: VNSKeyRotation = {
+          name,
+          owner: resolved.entry.owner,
+          newPublicKey: fs.readFileSync(opts.newPublicKey, 'utf8'),
+          newRecoveryKey: opts.newRecoveryKey ? fs.readFileSync(opts.newRecoveryKey, 'utf8') : undefined,
+          signer: opts.recovery ? 'recovery' : 'owner',
+          nonce: crypto.randomBytes(16).toString('hex'),
+          timestamp: Date.now(),
+          signature: ''
+        };
+        rotation.signature = signData(
+          identity.signingKeyPem,
+          new VNSSignatureValidator().serializeRotationForSigning(rotation)
+        );
+
+        const url = `${opts.api}/api/vns/rotate/${encodeURIComponent(name)}`;
+        console.log(chalk.gray(`Submitting key rotation to: ${url}...`));
         const response = await fetch(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ newOwner, signature, currentOwner })
+          body: JSON.stringify({ rotation })
         });
 
+        const result: any = await response.json();
+
+        if (response.ok && result.success) {
+          console.log(chalk.green('✅ Key rotated! Sign future updates, renewals and transfers with the new key.\n'));
+        } else {
+          console.log(chalk.red(`❌ Key rotation failed: ${result.error || response.statusText}\n`));
+          process.exit(1);
+        }
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Renew a name for another period
+   */
+  vns
+    .command('renew <name>')
+    .description('Renew a .vfs name you own (allowed until the grace period ends)')
+    .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .option('--pow-algorithm <name>', 'PoW algorithm: sha256 or scrypt (default: the one the node requires)')
+    .option('--pow-threads <n>', 'Worker threads for proof-of-work (default: all CPU cores)')
+    .option('--pow-timeout <seconds>', 'Give up on proof-of-work after this many seconds')
+    .action(async (name: string, opts) => {
+      try {
+        console.log(chalk.blue('\n⏳ VNS Renewal\n'));
+
+        // Normalize name
+        name = normalizeVNSName(name);
+        console.log(chalk.cyan(`Name: ${name}\n`));
+
+        // Load identity
+        const identity = await createOrLoadIdentity(opts.key);
+        const owner = identity.peerId.toString();
+
+        // Fetch current expiry (the renewal commits to it)
+        const fetch = (await import('node-fetch')).default;
+        const url = `${opts.api}/api/vns/renew/${encodeURIComponent(name)}`;
+
+        console.log(chalk.gray(`Fetching renewal details from: ${url}...`));
+        const infoResponse = await fetch(url);
+        if (!infoResponse.ok) {
+          console.log(chalk.red(`❌ HTTP ${infoResponse.status}: ${infoResponse.statusText}\n`));
+          process.exit(1);
+        }
+
+        const info: any = await infoResponse.json();
+        if (info.owner !== owner) {
+          console.log(chalk.red(`❌ ${name} is owned by ${String(info.owner).slice(0, 32)}..., not by this key\n`));
+          process.exit(1);
+        }
+        if (!info.renewable) {
+          console.log(chalk.red(`❌ Grace period ended at ${new Date(info.graceEndsAt).toISOString()}\n`));
+          process.exit(1);
+        }
+
+        console.log(chalk.gray(`   Current expiry: ${new Date(info.expires).toISOString()}`));
+        console.log(chalk.gray(`   New expiry: ${new Date(info.nextExpires).toISOString()}`));
+
+        // Fresh PoW bound to the expiry being extended (not needed for subdomains)
+        const security = new VNSSecurity();
+        const subdomain = getParentVNSName(name) !== null;
+        const algorithm = parsePoWAlgorithm(opts.powAlgorithm) ??
+          (isPoWAlgorithm(info.powAlgorithm) ? info.powAlgorithm : 'sha256');
+        const nonce = subdomain
+          ? 0
+          : await computePoWWithProgress(
+              renewalPoWSubject(name, info.expires),
+              owner,
+              info.powDifficulty ?? security.getRequiredDifficulty(name),
+              algorithm,
+              parsePoWOptions(opts)
+            );
+        if (nonce === null) {
+          console.log(chalk.red('❌ Renewal failed: Could not compute valid PoW'));
+          process.exit(1);
+        }
+
+        const renewal: VNSRenewal = {
+          name,
+          owner,
+          previousExpires: info.expires,
+          expires: info.nextExpires,
+          timestamp: Date.now(),
+          nonce,
+          powAlgorithm: subdomain || algorithm === 'sha256' ? undefined : algorithm,
+          signature: ''
+        };
+        renewal.signature = signData(
+          identity.signingKeyPem,
+          new VNSSignatureValidator().serializeRenewalForSigning(renewal)
+        );
+
+        // Submit renewal
+        console.log(chalk.gray(`Submitting renewal to: ${url}...`));
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ renewal })
+        });
+
+        const result: any = await response.json();
+
+        if (response.ok && result.success) {
+          console.log(chalk.green(`✅ Renewed until ${new Date(result.expires).toISOString()}\n`));
+        } else {
+          console.log(chalk.red(`❌ Renewal failed: ${result.error || response.statusText}\n`));
+          process.exit(1);
+        }
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Show the history chain of a name
+   */
+  vns
+    .command('history <name>')
+    .description('List registrations, updates, renewals, transfers and expiries of a name')
+    .option('--verify', 'Fetch the raw blocks and check every CID and link locally')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (name: string, opts) => {
+      try {
+        console.log(chalk.blue('\n📜 VNS History\n'));
+
+        name = normalizeVNSName(name);
+        console.log(chalk.cyan(`Name: ${name}\n`));
+
+        const fetch = (await import('node-fetch')).default;
+        const url = `${opts.api}/api/vns/history/${encodeURIComponent(name)}${opts.verify ? '?blocks=true' : ''}`;
+
+        console.log(chalk.gray(`Querying: ${url}...`));
+        const response = await fetch(url);
+
+        if (response.status === 404) {
+          console.log(chalk.yellow(`⚠️  No history for ${name}\n`));
+          process.exit(0);
+        }
         if (!response.ok) {
           console.log(chalk.red(`❌ HTTP ${response.status}: ${response.statusText}\n`));
           process.exit(1);
         }
 
-        const result = await response.json();
+        const history = await response.json();
+        let broken = 0;
+
+        for (let i = 0; i < history.events.length; i++) {
+          const event = history.events[i];
+          const when = new Date(event.timestamp).toISOString();
+          const mark = event.verified ? chalk.green('✔') : chalk.red('✘');
+          const owner = event.newOwner
+            ? `${event.owner.slice(0, 16)}... -> ${event.newOwner.slice(0, 16)}...`
+            : `${event.owner.slice(0, 16)}...`;
+
+          console.log(`${mark} ${chalk.cyan(event.operation.padEnd(8))} ${chalk.gray(when)}  ${owner}`);
+          console.log(chalk.gray(`     CID: ${event.cid}`));
+          if (event.signatures.length > 0) {
+            console.log(chalk.gray(`     Signatures: ${event.signatures.map((sig: string) => sig.slice(0, 16) + '...').join(', ')}`));
+          }
+          if (event.error) {
+            console.log(chalk.red(`     ${event.error}`));
+          }
+
+          // Re-hash each block and check it links to the next (older) one
+          if (opts.verify && event.block) {
+            const raw = Buffer.from(event.block, 'utf8');
+            const older = history.events.slice(i + 1).find((e: any) => e.operation !== 'expire');
+            const previous = parseEntryState(raw).previous;
+            if (!(await blockMatchesCid(raw, event.cid))) {
+              console.log(chalk.red('     Block does not hash to its CID'));
+              broken++;
+            } else if (older && previous !== older.cid) {
+              console.log(chalk.red(`     Links to ${previous}, expected ${older.cid}`));
+              broken++;
+            }
+          }
+        }
+
+        console.log('');
+        if (!history.complete) {
+          console.log(chalk.yellow('⚠️  Older history is not held by this node\n'));
+        }
+        if (opts.verify) {
+          if (broken > 0) {
+            console.log(chalk.red(`❌ ${broken} broken link(s) in the history chain\n`));
+            process.exit(1);
+          }
+          console.log(chalk.green('✅ History chain verified\n'));
+        }
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * List names page by page (squatting and expiry audits)
+   */
+  vns
+    .command('list')
+    .description('List names by prefix or wildcard, owner, record type or upcoming expiry')
+    .option('--prefix <pattern>', 'Name prefix, or a pattern with * wildcards (e.g. "*.myteam.vfs")')
+    .option('--owner <peerId>', 'Only names held by this owner')
+    .option('--type <recordType>', 'Only names with a record of this type (e.g. PEER)')
+    .option('--expiring-within <days>', 'Only names expiring within this many days')
+    .option('--limit <n>', 'Names per page', String(VNS_CONFIG.LIST_DEFAULT_LIMIT))
+    .option('--cursor <cursor>', 'Continue from a previous page')
+    .option('--all', 'Follow cursors until every matching name is listed')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (opts) => {
+      try {
+        console.log(chalk.blue('\n📋 VNS Names\n'));
+
+        const fetch = (await import('node-fetch')).default;
+        const params = new URLSearchParams({ limit: opts.limit });
+        if (opts.prefix) params.set('prefix', opts.prefix);
+        if (opts.owner) params.set('owner', opts.owner);
+        if (opts.type) params.set('recordType', opts.type.toUpperCase());
+        if (opts.expiringWithin) {
+          params.set('expiringBefore', String(Date.now() + parseFloat(opts.expiringWithin) * 24 * 60 * 60 * 1000));
+        }
+
+        let cursor: string | null = opts.cursor || null;
+        let total = 0;
+        do {
+          if (cursor) params.set('cursor', cursor);
+          const url = `${opts.api}/api/vns/names?${params}`;
+          console.log(chalk.gray(`Querying: ${url}...`));
+          const response = await fetch(url);
+          const result: any = await response.json();
+          if (!response.ok) {
+            console.log(chalk.red(`❌ ${result.error || `HTTP ${response.status}: ${response.statusText}`}\n`));
+            process.exit(1);
+          }
+
+          result.names.forEach((n: any) => {
+            const expires = n.expires >= Number.MAX_SAFE_INTEGER ? 'never' : new Date(n.expires).toISOString().slice(0, 10);
+            console.log(`   ${chalk.cyan(n.name.padEnd(32))} ${chalk.gray(expires.padEnd(10))} ${chalk.gray(n.owner.slice(0, 16))}... ${chalk.gray(n.recordTypes.join(','))}`);
+          });
+          total += result.names.length;
+          cursor = result.nextCursor;
+        } while (opts.all && cursor);
+
+        console.log(chalk.green(`\n✅ ${total} name(s)`));
+        if (cursor) {
+          console.log(chalk.gray(`   More results: --cursor ${cursor}`));
+        }
+        console.log('');
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
 
-        if (result.success) {
-          console.log(chalk.green('✅ Transfer successful!\n'));
+  /**
+   * Export names and records as a zone file
+   */
+  vns
+    .command('export')
+    .description('Export names, records and metadata as a BIND-like zone file or JSON')
+    .option('--prefix <pattern>', 'Name prefix, or a pattern with * wildcards (e.g. "*.myteam.vfs")')
+    .option('--owner <peerId>', 'Only names held by this owner')
+    .option('--format <format>', 'zone or json (default: json for a .json --output, else zone)')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (opts) => {
+      try {
+        const format = opts.format || (opts.output?.endsWith('.json') ? 'json' : 'zone');
+        if (format !== 'zone' && format !== 'json') {
+          throw new Error(`Unknown format: ${format} (expected zone or json)`);
+        }
+
+        // Page through the listing, then read each name's records
+        const fetch = (await import('node-fetch')).default;
+        const params = new URLSearchParams({ limit: String(VNS_CONFIG.LIST_MAX_LIMIT) });
+        if (opts.prefix) params.set('prefix', opts.prefix);
+        if (opts.owner) params.set('owner', opts.owner);
+
+        const names: string[] = [];
+        let cursor: string | null = null;
+        do {
+          if (cursor) params.set('cursor', cursor);
+          const response = await fetch(`${opts.api}/api/vns/names?${params}`);
+          const result: any = await response.json();
+          if (!response.ok) {
+            throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+          }
+          names.push(...result.names.map((n: any) => n.name));
+          cursor = result.nextCursor;
+        } while (cursor);
+
+        const zone: VNSZone = { version: 1, exported: Date.now(), names: [] };
+        for (const name of names) {
+          const live = await fetchLiveName(opts.api, name);
+          if (live) {
+            zone.names.push({ name, owner: live.owner, expires: live.expires, records: live.records });
+          }
+        }
+
+        const text = format === 'json' ? JSON.stringify(zone, null, 2) + '\n' : formatZoneFile(zone);
+        if (opts.output) {
+          fs.mkdirSync(path.dirname(path.resolve(opts.output)), { recursive: true });
+          fs.writeFileSync(opts.output, text, 'utf8');
+          console.log(chalk.green(`✅ Exported ${zone.names.length} name(s) to ${opts.output}`));
         } else {
-          console.log(chalk.red(`❌ Transfer failed: ${result.error}\n`));
+          process.stdout.write(text);
+        }
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Apply a zone file: register free names and update changed ones
+   */
+  vns
+    .command('import <file>')
+    .description('Diff a zone file (BIND-like or JSON) against the live namespace and submit the signed changes')
+    .option('--dry-run', 'Only show the changes')
+    .option('--zone-key <path>', 'Parent zone owner/delegate key for subdomains (default: --key)')
+    .option('--key <path>', 'Private key file (default: ./peer-key.json)', './peer-key.json')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .option('--pow-algorithm <name>', 'PoW algorithm: sha256 or scrypt (default: the one the node requires)')
+    .option('--pow-threads <n>', 'Worker threads for proof-of-work (default: all CPU cores)')
+    .option('--pow-timeout <seconds>', 'Give up on proof-of-work after this many seconds')
+    .option('--no-pow', 'Skip proof-of-work (for testing only)')
+    .action(async (file: string, opts) => {
+      try {
+        console.log(chalk.blue('\n📥 VNS Zone Import\n'));
+
+        const zone = parseZone(fs.readFileSync(file, 'utf8'));
+        const identity = await createOrLoadIdentity(opts.key);
+        const owner = identity.peerId.toString();
+        console.log(chalk.gray(`Zone: ${file} (${zone.names.length} name(s))`));
+        console.log(chalk.gray(`Owner: ${owner.slice(0, 32)}...\n`));
+
+        const live = new Map<string, VNSLiveName | null>();
+        for (const entry of zone.names) {
+          live.set(entry.name, await fetchLiveName(opts.api, entry.name));
+        }
+
+        // Zones before their subdomains, so the parent exists when a child is registered
+        const depth = (name: string) => name.split('.').length;
+        const changes = planZoneChanges(zone, live, owner).sort((a, b) => depth(a.name) - depth(b.name));
+        const colors = { register: chalk.green, update: chalk.yellow, unchanged: chalk.gray, conflict: chalk.red };
+        changes.forEach(change => {
+          const note = change.action === 'conflict' ? ` (held by ${change.owner!.slice(0, 16)}...)` : '';
+          console.log(`   ${colors[change.action](change.action.padEnd(10))} ${change.name}${note}`);
+        });
+        console.log('');
+
+        const conflicts = changes.filter(c => c.action === 'conflict').length;
+        if (opts.dryRun) {
+          console.log(chalk.gray('Dry run: nothing submitted\n'));
+          process.exit(conflicts > 0 ? 1 : 0);
+        }
+
+        let failed = conflicts;
+        for (const change of changes) {
+          let result: { success: boolean; error?: string; cid?: string };
+          if (change.action === 'register') {
+            const registration = await prepareRegistration(change.name, change.records, identity, opts);
+            result = registration
+              ? await submitSigned(`${opts.api}/api/vns/register`, registration)
+              : { success: false, error: 'Could not compute valid PoW' };
+          } else if (change.action === 'update') {
+            const update = prepareUpdate(change.name, change.records, identity);
+            result = await submitSigned(`${opts.api}/api/vns/update/${encodeURIComponent(change.name)}`, { update });
+          } else {
+            continue;
+          }
+
+          if (result.success) {
+            console.log(chalk.green(`✅ ${change.action === 'register' ? 'Registered' : 'Updated'} ${change.name}${result.cid ? ` (CID: ${result.cid})` : ''}`));
+          } else {
+            console.log(chalk.red(`❌ ${change.name}: ${result.error}`));
+            failed++;
+          }
+        }
+
+        console.log('');
+        if (failed > 0) {
+          console.log(chalk.red(`❌ ${failed} name(s) not applied\n`));
+          process.exit(1);
+        }
+        console.log(chalk.green('✅ Zone applied\n'));
+
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Follow changes to names as they happen
+   */
+  vns
+    .command('watch [names...]')
+    .description('Stream register, update, transfer and expire events (all names unless filtered)')
+    .option('--owner <peerId>', 'Only changes to names held (before or after) by this owner')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (names: string[], opts) => {
+      try {
+        console.log(chalk.blue('\n👀 VNS Watch\n'));
+
+        const params = new URLSearchParams();
+        names.forEach(name => params.append('name', normalizeVNSName(name)));
+        if (opts.owner) params.set('owner', opts.owner);
+        const url = `${opts.api}/api/vns/subscribe?${params}`;
+
+        console.log(chalk.gray(`Subscribing: ${url}... (Ctrl+C to stop)\n`));
+        // Node's built-in fetch, whose body is a web stream that can be read as events arrive
+        const response = await fetch(url, { headers: { Accept: 'text/event-stream' } });
+        if (!response.ok || !response.body) {
+          console.log(chalk.red(`❌ HTTP ${response.status}: ${response.statusText}\n`));
           process.exit(1);
         }
 
+        // Server-sent events: "data:" lines, one blank line after each event
+        const body: ReadableStream<Uint8Array> = response.body;
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+          let boundary: number;
+          while ((boundary = buffered.indexOf('\n\n')) >= 0) {
+            const block = buffered.slice(0, boundary);
+            buffered = buffered.slice(boundary + 2);
+            const data = block.split('\n').find(line => line.startsWith('data: '));
+            if (!data) continue;
+
+            const event = JSON.parse(data.slice('data: '.length));
+            const time = new Date(event.timestamp).toISOString();
+            const detail = event.type === 'transfer' && event.previousOwner
+              ? `${event.previousOwner.slice(0, 16)}... -> ${event.owner.slice(0, 16)}...`
+              : event.records.map((r: any) => `${r.type} ${r.value}`).join(', ');
+            console.log(`${chalk.gray(time)} ${chalk.yellow(event.type.padEnd(8))} ${chalk.cyan(event.name)} ${chalk.gray(detail)}`);
+          }
+        }
+
+        console.log(chalk.yellow('\n⚠️  Subscription closed by the node\n'));
+      } catch (e) {
+        console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
+        process.exit(1);
+      }
+    });
+
+  /**
+   * Reverse-resolve a peer ID or IP address
+   */
+  vns
+    .command('reverse <subject>')
+    .description('Find the primary .vfs name claimed for a peer ID or IP address')
+    .option('--api <url>', 'VNS API endpoint', 'http://localhost:3001')
+    .action(async (subject: string, opts) => {
+      try {
+        console.log(chalk.blue('\n↩️  VNS Reverse Resolution\n'));
+        console.log(chalk.cyan(`Subject: ${subject}\n`));
+
+        const fetch = (await import('node-fetch')).default;
+        const url = `${opts.api}/api/vns/reverse/${encodeURIComponent(subject)}`;
+
+        console.log(chalk.gray(`Querying: ${url}...`));
+        const response = await fetch(url);
+
+        if (response.status === 404) {
+          console.log(chalk.yellow(`⚠️  No primary name claimed for ${subject}\n`));
+          process.exit(0);
+        }
+        if (!response.ok) {
+          console.log(chalk.red(`❌ HTTP ${response.status}: ${response.statusText}\n`));
+          process.exit(1);
+        }
+
+        const result = await response.json();
+
+        console.log(chalk.green(`✅ ${result.name}\n`));
+        console.log(chalk.gray(`   Owner: ${result.owner}${result.selfClaimed ? ' (the peer itself)' : ''}`));
+        if (result.verified === false) {
+          console.log(chalk.yellow('   Unverified: claimed by another owner, not by the peer'));
+        }
+        const others = (result.candidates || []).filter((n: string) => n !== result.name);
+        if (others.length > 0) {
+          console.log(chalk.gray(`   Also claimed by: ${others.join(', ')}`));
+        }
+        console.log('');
+
       } catch (e) {
         console.error(chalk.red('❌ Error:'), e instanceof Error ? e.message : e);
         process.exit(1);
@@ -6,6 +6,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import type { VNSAntiSpamMode, VNSPoWAlgorithm } from './types/vns-schema.js';
+import { isAntiSpamMode, isPoWAlgorithm } from './vns/security.js';
 
 export interface NodeConfig {
   listenPort: number;
@@ -14,6 +16,15 @@ export interface NodeConfig {
   dataDir: string;
   verbose: boolean;
   enableVNS?: boolean; // Enable Verimut Name Service
+  vnsPowAlgorithm?: VNSPoWAlgorithm; // PoW algorithm pinned for the network (default: sha256)
+  vnsPowSince?: number; // Time the pinned algorithm took over (earlier SHA-256 PoW stays valid)
+  vnsAntiSpam?: VNSAntiSpamMode; // pow (default), stake or hybrid
+  vnsStakeAmount?: number; // Stake locked per name in the stake and hybrid modes
+  vnsStakeAllocation?: Record<string, number>; // Stake balances pinned for the network (owner -> amount)
+  vnsRenewalGracePeriod?: number; // Time (ms) after expiry where only the owner may renew, same on every node
+  dnsPort?: number | null; // Local DNS server for .vfs names (null = disabled)
+  dnsHost?: string;
+  dnsUpstream?: string | null; // Resolver for non-.vfs names ("host" or "host:port")
 }
 
 // Default bootstrap peers (update with your network's bootstrap nodes)
@@ -22,6 +33,35 @@ const DEFAULT_BOOTSTRAP_PEERS = [
   // Example: '/ip4/104.131.131.82/tcp/4001/p2p/QmaCpDMGvV2BGHeYERUEnRQAwe3N8SzbUtfsmvsqQLuvuJ'
 ];
 
+/**
+ * Read a choice from the environment, rejecting values the node does not know
+ */
+function envChoice<T extends string>(name: string, isChoice: (value: string) => value is T): T | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  if (!isChoice(value)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Read the network's stake allocation from the JSON file named in the environment
+ */
+function envStakeAllocation(): Record<string, number> | undefined {
+  const file = process.env.VNS_STAKE_ALLOCATION;
+  if (!file) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid VNS_STAKE_ALLOCATION: ${error.message}`);
+  }
+}
+
 /**
  * Load configuration from environment and options
  */
@@ -54,6 +94,36 @@ export function loadConfig(options: Partial<NodeConfig> = {}): NodeConfig {
                (process.env.ENABLE_VNS === 'true' || process.env.ENABLE_VNS === '1') ?? 
                false,
     
+    vnsPowAlgorithm: options.vnsPowAlgorithm ??
+                     envChoice('VNS_POW_ALGORITHM', isPoWAlgorithm) ??
+                     'sha256',
+
+    vnsPowSince: options.vnsPowSince ??
+                 (process.env.VNS_POW_SINCE ? parseInt(process.env.VNS_POW_SINCE) : undefined),
+
+    vnsAntiSpam: options.vnsAntiSpam ??
+                 envChoice('VNS_ANTI_SPAM', isAntiSpamMode) ??
+                 'pow',
+
+    vnsStakeAmount: options.vnsStakeAmount ??
+                    (process.env.VNS_STAKE_AMOUNT ? parseInt(process.env.VNS_STAKE_AMOUNT) : undefined),
+
+    vnsStakeAllocation: options.vnsStakeAllocation ?? envStakeAllocation(),
+
+    vnsRenewalGracePeriod: options.vnsRenewalGracePeriod ??
+                           (process.env.VNS_RENEWAL_GRACE_PERIOD ? parseInt(process.env.VNS_RENEWAL_GRACE_PERIOD) : undefined),
+
+    dnsPort: options.dnsPort !== undefined ? options.dnsPort :
+             (process.env.DNS_PORT ? parseInt(process.env.DNS_PORT) : null),
+
+    dnsHost: options.dnsHost ??
+             process.env.DNS_HOST ??
+             '127.0.0.1',
+
+    dnsUpstream: options.dnsUpstream ??
+                 process.env.DNS_UPSTREAM ??
+                 null,
+
     verbose: options.verbose ?? 
              process.env.VERBOSE === 'true'
   };
@@ -76,6 +146,41 @@ function validateConfig(config: NodeConfig): void {
     throw new Error(`Invalid API port: ${config.apiPort}`);
   }
 
+  if (config.dnsPort != null && (isNaN(config.dnsPort) || config.dnsPort < 0 || config.dnsPort > 65535)) {
+    throw new Error(`Invalid DNS port: ${config.dnsPort}`);
+  }
+
+  if (config.vnsPowAlgorithm && !isPoWAlgorithm(config.vnsPowAlgorithm)) {
+    throw new Error(`Invalid VNS PoW algorithm: ${config.vnsPowAlgorithm}`);
+  }
+
+  if (config.vnsPowSince != null && (isNaN(config.vnsPowSince) || config.vnsPowSince < 0)) {
+    throw new Error(`Invalid VNS PoW switch-over time: ${config.vnsPowSince}`);
+  }
+
+  if (config.vnsAntiSpam && !isAntiSpamMode(config.vnsAntiSpam)) {
+    throw new Error(`Invalid VNS anti-spam mode: ${config.vnsAntiSpam}`);
+  }
+
+  if (config.vnsStakeAmount != null && (isNaN(config.vnsStakeAmount) || config.vnsStakeAmount <= 0)) {
+    throw new Error(`Invalid VNS stake amount: ${config.vnsStakeAmount}`);
+  }
+
+  if (config.vnsStakeAllocation != null) {
+    if (typeof config.vnsStakeAllocation !== 'object' || Array.isArray(config.vnsStakeAllocation)) {
+      throw new Error('Invalid VNS stake allocation: expected an object of owner balances');
+    }
+    for (const [owner, amount] of Object.entries(config.vnsStakeAllocation)) {
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+        throw new Error(`Invalid VNS stake allocation for ${owner}: ${amount}`);
+      }
+    }
+  }
+
+  if (config.vnsRenewalGracePeriod != null && (isNaN(config.vnsRenewalGracePeriod) || config.vnsRenewalGracePeriod < 0)) {
+    throw new Error(`Invalid VNS renewal grace period: ${config.vnsRenewalGracePeriod}`);
+  }
+
   if (!config.dataDir) {
     throw new Error('Data directory must be specified');
   }
@@ -2,6 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { createEd25519PeerId, createFromJSON } from '@libp2p/peer-id-factory';
+import { peerIdFromString } from '@libp2p/peer-id';
+import { keysPBM } from '@libp2p/crypto/keys';
 
 export interface VerimutIdentity {
   repoPath: string;
@@ -57,3 +59,44 @@ export function verifySignature(publicKeyPem: string, data: Uint8Array | Buffer
   const sig = Buffer.from(signatureB64, 'base64');
   return crypto.verify(null as any, msg, pub, sig);
 }
+
+/**
+ * PEM key pair of an Ed25519 libp2p peer ID, so what it signs can be traced back to the peer ID
+ */
+export function peerIdKeyPems(peerId: any): { signingKeyPem: string; publicKeyPem: string } {
+  if (peerId?.type !== 'Ed25519' || !peerId.privateKey) {
+    throw new Error('Only Ed25519 peer IDs with a private key can sign');
+  }
+  // Ed25519 private keys are the 32-byte seed followed by the 32-byte public key
+  const { Data } = keysPBM.PrivateKey.decode(peerId.privateKey);
+  const priv = crypto.createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(Data.subarray(0, 32)).toString('base64url'),
+      x: Buffer.from(Data.subarray(32)).toString('base64url')
+    },
+    format: 'jwk'
+  });
+  return {
+    signingKeyPem: priv.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKeyPem: crypto.createPublicKey(priv).export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Whether a PEM public key is the key an Ed25519 peer ID was derived from
+ */
+export function publicKeyMatchesPeerId(publicKeyPem: string, peerId: string) {
+  try {
+    const jwk = crypto.createPublicKey(publicKeyPem).export({ format: 'jwk' });
+    const embedded = peerIdFromString(peerId).publicKey;
+    if (jwk.crv !== 'Ed25519' || !jwk.x || !embedded) {
+      return false;
+    }
+    const key = keysPBM.PublicKey.decode(embedded);
+    return key.Type === keysPBM.KeyType.Ed25519 && Buffer.from(jwk.x, 'base64url').equals(Buffer.from(key.Data));
+  } catch (e) {
+    return false;
+  }
+}
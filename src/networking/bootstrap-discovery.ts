@@ -15,13 +15,15 @@
  */
 
 import crypto from 'crypto';
+import { solvePoW } from '../vns/pow-solver.js';
 
 // Simple logging utility
 const log = (message: string) => console.log(message);
 
 /**
  * Compute proof-of-work nonce for VNS registration
- * Uses SHA-256 with configurable difficulty (default: 3 leading zeros)
+ * Uses SHA-256 with configurable difficulty (default: 3 leading zeros),
+ * searched on worker threads (see solvePoW)
  */
 async function computeProofOfWork(
   name: string,
@@ -29,23 +31,12 @@ async function computeProofOfWork(
   difficulty: number = 3,
   maxAttempts: number = 1000000
 ): Promise<number | null> {
-  const prefix = '0'.repeat(difficulty);
-  
-  for (let nonce = 0; nonce < maxAttempts; nonce++) {
-    const input = `${name}:${owner}:${nonce}`;
-    const hash = crypto.createHash('sha256').update(input).digest('hex');
-    
-    if (hash.startsWith(prefix)) {
-      return nonce;
-    }
-    
-    // Log progress every 100k attempts
-    if (nonce > 0 && nonce % 100000 === 0) {
-      log(`[BootstrapDiscovery] Computing PoW... ${nonce} attempts`);
-    }
-  }
-  
-  return null; // Failed to find valid nonce
+  const solution = await solvePoW({ name, owner, zeros: difficulty }, {
+    maxAttempts,
+    onProgress: ({ attempts, hashRate }) => log(`[BootstrapDiscovery] Computing PoW... ${attempts} attempts (${hashRate} H/s)`),
+    progressInterval: 5000
+  });
+  return solution.nonce; // null if no valid nonce within maxAttempts
 }
 
 export interface BootstrapDiscoveryConfig {
@@ -36,6 +36,10 @@ export interface VNSDelta {
   entry: any;
   peerId: string;
   timestamp: number;
+  hlc?: { wall: number; counter: number };
+  sequence?: number; // Envelope signed by the origin (see VNSDeltaGuard)
+  publicKey?: string;
+  signature?: string;
   fromPeer?: string;
 }
 
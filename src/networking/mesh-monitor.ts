@@ -2,8 +2,11 @@
  * Mesh Health Monitor - tracks gossipsub mesh formation and provides diagnostics
  */
 
+import { describePeer } from '../vns/friendly-names.js';
+
 export interface MeshHealth {
   topicPeers: number;
+  peerNames: string[]; // Topic peers by VNS primary name, else short peer ID
   connections: number;
   inboundConns: number;
   outboundConns: number;
@@ -63,14 +66,16 @@ export class MeshMonitor {
       const connManager = this.libp2p?.connectionManager;
       
       // Get topic peers
-      let topicPeers = 0;
+      let subscribers: any[] = [];
       try {
         if (pubsub && typeof pubsub.getSubscribers === 'function') {
-          topicPeers = pubsub.getSubscribers(this.targetTopic)?.length || 0;
+          subscribers = pubsub.getSubscribers(this.targetTopic) || [];
         } else if (pubsub && typeof pubsub.getPeersForTopic === 'function') {
-          topicPeers = pubsub.getPeersForTopic(this.targetTopic)?.length || 0;
+          subscribers = pubsub.getPeersForTopic(this.targetTopic) || [];
         }
       } catch (e) { /* ignore */ }
+      const topicPeers = subscribers.length;
+      const peerNames = subscribers.map((p: any) => describePeer(p?.toString?.() ?? String(p)));
 
       // Get connection counts
       let connections = 0;
@@ -97,7 +102,7 @@ export class MeshMonitor {
       } else if (topicPeers === 0) {
         diagnosis = `⚠️ Connected (${connections}) but no peers in gossipsub mesh`;
       } else if (topicPeers < 2) {
-        diagnosis = `⚡ Minimal mesh (${topicPeers} peer) - may experience delays`;
+        diagnosis = `⚡ Minimal mesh (${topicPeers} peer: ${peerNames.join(', ')}) - may experience delays`;
         isHealthy = true;
       } else {
         diagnosis = `✓ Healthy mesh (${topicPeers} peers, ${connections} connections)`;
@@ -106,6 +111,7 @@ export class MeshMonitor {
 
       return {
         topicPeers,
+        peerNames,
         connections,
         inboundConns,
         outboundConns,
@@ -115,6 +121,7 @@ export class MeshMonitor {
     } catch (e) {
       return {
         topicPeers: 0,
+        peerNames: [],
         connections: 0,
         inboundConns: 0,
         outboundConns: 0,
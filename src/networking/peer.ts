@@ -1,4 +1,4 @@
-import { loadConfig } from '../config.js';
+import { loadConfig, type NodeConfig } from '../config.js';
 import { createHelia } from 'helia';
 import { unixfs } from '@helia/unixfs';
 import pino from 'pino';
@@ -11,13 +11,14 @@ import { mplex } from '@libp2p/mplex';
 
 import { createStandaloneLibp2p } from './standalone-libp2p.js';
 import { MeshMonitor } from './mesh-monitor.js';
+import { lookupFriendlyName, setFriendlyNameSource } from '../vns/friendly-names.js';
 import fs from 'fs';
 import path from 'path';
 import { createEd25519PeerId, createFromJSON } from '@libp2p/peer-id-factory';
 import { FileBlockstore } from '../blockstore.js';
 import { VerimutLog } from '../log.js';
 import { VerimutSync } from '../sync.js';
-import { createOrLoadIdentity } from '../identity.js';
+import { createOrLoadIdentity, peerIdKeyPems } from '../identity.js';
 
 export interface NodeBundle {
   libp2p: any | null;
@@ -71,7 +72,8 @@ async function getPersistentPeerId() {
 
 /**
  * Start a periodic heartbeat publisher and return a stop function.
- * Publishes JSON { peerId, ts, capacity } to topic 'heartbeats'. Uses attached
+ * Publishes JSON { peerId, name, ts, capacity } to topic 'heartbeats' (name is the
+ * node's VNS primary name, or null). Uses attached
  * pubsub service if available, otherwise the local shim used for single-node demo.
  */
 function startHeartbeat(libp2p: any, pubsub: any, cfg: any) {
@@ -82,7 +84,12 @@ function startHeartbeat(libp2p: any, pubsub: any, cfg: any) {
   const timer = setInterval(async () => {
     if (stopped) return;
     try {
-      const payload = JSON.stringify({ peerId: peerIdStr, ts: Date.now(), capacity: cfg?.capacityScore ?? null });
+      const payload = JSON.stringify({
+        peerId: peerIdStr,
+        name: lookupFriendlyName(peerIdStr),
+        ts: Date.now(),
+        capacity: cfg?.capacityScore ?? null
+      });
       if (pubsub && typeof pubsub.publish === 'function') {
         await pubsub.publish('heartbeats', Buffer.from(payload));
       }
@@ -206,8 +213,8 @@ function startRedialManager(libp2p: any, bootstrapPeers: string[]) {
  * fixed listen ports and a real gossipsub). Fall back to default Helia when
  * custom creation fails.
  */
-export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBundle> {
-  const cfg = loadConfig();
+export async function createNode(bootstrapPeers: string[] = [], config?: NodeConfig): Promise<NodeBundle> {
+  const cfg = config ?? loadConfig();
   const logger = pino({ level: 'warn' });
   let helia: any = null;
   let libp2p: any = null;
@@ -334,6 +341,9 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
       meshMonitor = new MeshMonitor(libp2p, '/verimut/verimut-tasks', 5000);
       meshMonitor.start((health) => {
         console.log('[MeshMonitor]', health.diagnosis);
+        if (health.peerNames.length > 1) {
+          console.log('[MeshMonitor] Mesh peers:', health.peerNames.join(', '));
+        }
       });
     }
     
@@ -351,9 +361,9 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
         const safePid = pid.replace(/[^a-zA-Z0-9._-]/g, '_');
         const repoPath = path.join(base, safePid);
         const identity = await createOrLoadIdentity(repoPath);
-        // ensure network peerId alignment
-        if (libp2p) {
-          identity.peerId = libp2p.peerId;
+        // ensure network peerId alignment (sync stamps deltas with effectiveLibp2p.peerId)
+        if (effectiveLibp2p.peerId) {
+          identity.peerId = effectiveLibp2p.peerId;
         }
   const blocks = new FileBlockstore(repoPath);
   const vlog = new VerimutLog('verimut-tasks', blocks as any, identity as any);
@@ -363,15 +373,34 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
   // Initialize VNS if enabled
   let vnsStore: any = null;
   let vnsProtocol: any = null;
-  if (process.env.ENABLE_VNS === 'true' || process.env.ENABLE_VNS === '1') {
+  let vnsReconciler: any = null;
+  if (cfg.enableVNS) {
     try {
       const { VNSNamespaceStore } = await import('../vns/namespace-store.js');
-      const { VNSSecurity } = await import('../vns/security.js');
+      const { VNSSecurity, VNSRateLimiter } = await import('../vns/security.js');
       const { setupVNSProtocol } = await import('../protocols/vns-protocol.js');
       
-      const security = new VNSSecurity();
-      vnsStore = new VNSNamespaceStore(blocks as any, vlog, security);
+      const { VNSLocalStakeLedger } = await import('../vns/stake-ledger.js');
+      
+      // PoW algorithm, anti-spam mode and grace period pinned by network config (see loadConfig)
+      const security = new VNSSecurity(
+        undefined,
+        cfg.vnsStakeAmount,
+        cfg.vnsRenewalGracePeriod,
+        { algorithm: cfg.vnsPowAlgorithm ?? 'sha256', since: cfg.vnsPowSince },
+        cfg.vnsAntiSpam ?? 'pow',
+        new VNSLocalStakeLedger(path.join(repoPath, 'vns-stake-ledger.json'), cfg.vnsStakeAllocation),
+        new VNSRateLimiter(path.join(repoPath, 'vns-rate-limits.json'))
+      );
+      vnsStore = new VNSNamespaceStore(blocks as any, vlog, security, repoPath);
+      try {
+        // Deltas are signed with the key of the peer ID sync stamps them with, so receivers can check it
+        vnsStore.setNodeIdentity(peerIdKeyPems(effectiveLibp2p.peerId));
+      } catch (e) {
+        console.warn('[VNS] Outgoing deltas will be unsigned:', e instanceof Error ? e.message : e);
+      }
       await vnsStore.initialize();
+      setFriendlyNameSource(vnsStore);
       
       // Register VNS store with sync for delta propagation
       vsync.registerVNSStore(vnsStore);
@@ -384,6 +413,15 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
       } else {
         console.log('[VNS] Skipping protocol handler (libp2p not available, using pubsub shim only)');
       }
+
+      // Periodic anti-entropy reconciliation (libp2p peers + HTTP bootstrap peers)
+      const { VNSReconciler } = await import('../vns/reconciler.js');
+      vnsReconciler = new VNSReconciler(vnsStore, {
+        libp2p,
+        protocol: vnsProtocol,
+        httpPeers: () => vsync.httpP2P?.getBootstrapPeers() ?? []
+      });
+      vnsReconciler.start();
       
       console.log('[VNS] Verimut Name Service enabled and initialized');
     } catch (e) {
@@ -391,9 +429,9 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
     }
   }
   
-  verimut = { blocks, vlog, vsync, repoPath, vns: vnsStore ? { store: vnsStore, protocol: vnsProtocol } : null };
+  verimut = { blocks, vlog, vsync, repoPath, vns: vnsStore ? { store: vnsStore, protocol: vnsProtocol, reconciler: vnsReconciler } : null };
   // Store VNS reference for easy API access
-  vns = vnsStore ? { store: vnsStore, protocol: vnsProtocol } : null;
+  vns = vnsStore ? { store: vnsStore, protocol: vnsProtocol, reconciler: vnsReconciler } : null;
   // Announce presence for the verimut-tasks topic in the DHT so other
   // peers can discover topic participants if gossipsub mesh lags.
         try {
@@ -466,7 +504,11 @@ export async function createNode(bootstrapPeers: string[] = []): Promise<NodeBun
             } catch (e) { console.warn('[Sync] DHT discovery error (ignored):', e); }
           }
         } catch (e) { /* ignore */ }
-  controllers.verimut = { stop: async () => { try { await vsync.stop(); } catch (e) { } } };
+  controllers.verimut = { stop: async () => {
+    try { if (vnsReconciler) vnsReconciler.stop(); } catch (e) { }
+    try { if (vnsStore) vnsStore.stopExpirySweep(); } catch (e) { }
+    try { await vsync.stop(); } catch (e) { }
+  } };
       } catch (e) {
         console.warn('Failed to start Verimut sync:', e);
       }
@@ -8,11 +8,13 @@ import * as http from 'http';
 import type { NodeConfig } from './config.js';
 import { createNode, stopNode, type NodeBundle } from './networking/peer.js';
 import { createApiServer } from './api/http-server.js';
+import { VNSDNSServer } from './vns/dns-server.js';
 
 export class VerimutNode {
   private config: NodeConfig;
   private nodeBundle: NodeBundle | null = null;
   private apiServer: http.Server | null = null;
+  private dnsServer: VNSDNSServer | null = null;
 
   constructor(config: NodeConfig) {
     this.config = config;
@@ -31,17 +33,33 @@ export class VerimutNode {
       process.env.ENABLE_VNS = 'true';
     }
 
-    // Create the node bundle (libp2p + helia + all services)
-    this.nodeBundle = await createNode(this.config.bootstrapPeers);
+    // Create the node bundle (libp2p + helia + all services), with the VNS policy from this config
+    this.nodeBundle = await createNode(this.config.bootstrapPeers, this.config);
 
     // Start API server if port is configured
     if (this.config.apiPort && this.nodeBundle) {
       this.apiServer = createApiServer({
         port: this.config.apiPort,
-        nodeBundle: this.nodeBundle
+        nodeBundle: this.nodeBundle,
+        dnsUpstream: this.config.dnsUpstream
       });
     }
 
+    // Start DNS server for .vfs names if configured
+    if (this.config.dnsPort != null) {
+      const store = this.nodeBundle?.verimut?.vns?.store;
+      if (store) {
+        this.dnsServer = new VNSDNSServer(store, {
+          port: this.config.dnsPort,
+          host: this.config.dnsHost,
+          upstream: this.config.dnsUpstream
+        });
+        await this.dnsServer.start();
+      } else {
+        console.warn('[VNS DNS] DNS port configured but VNS is not enabled; DNS server not started');
+      }
+    }
+
     if (this.config.verbose) {
       console.log('Node started successfully');
     }
@@ -59,6 +77,11 @@ export class VerimutNode {
       this.apiServer = null;
     }
 
+    if (this.dnsServer) {
+      await this.dnsServer.stop();
+      this.dnsServer = null;
+    }
+
     // Stop node
     if (this.nodeBundle) {
       await stopNode(this.nodeBundle);
@@ -73,6 +96,13 @@ export class VerimutNode {
     return this.nodeBundle?.libp2p?.peerId?.toString() || '';
   }
 
+  /**
+   * Get the DNS server port (null if not running)
+   */
+  get dnsPort(): number | null {
+    return this.dnsServer ? this.dnsServer.getPort() : null;
+  }
+
   /**
    * Get listen addresses
    */
@@ -2,17 +2,36 @@
  * VNS Protocol Handler
  * 
  * libp2p stream protocol for VNS operations: /verimut/vns/1.0.0
- * Handles register, resolve, and transfer requests
+ * Handles register, resolve, update, transfer, rotate and renew requests, plus the
+ * anti-entropy reconciliation stages (buckets, digests, entries)
+ *
+ * Every request gets one JSON response, except `subscribe`: its stream stays
+ * open and carries newline-delimited JSON (the response first, then one
+ * VNSSubscriptionMessage per change or keepalive) until either side closes it.
  */
 
 import { pipe } from 'it-pipe';
 import type { VNSNamespaceStore } from '../vns/namespace-store.js';
-import type { VNSRegistration } from '../types/vns-schema.js';
+import type { VNSRegistration, VNSRenewal, VNSRecordUpdate, VNSTransfer, VNSKeyRotation, VNSListOptions } from '../types/vns-schema.js';
+import { VNS_CONFIG } from '../types/vns-schema.js';
+import type { VNSChangeEvent, VNSChangeFilter } from '../vns/change-feed.js';
 
 /**
  * Protocol request types
  */
-export type VNSRequestType = 'register' | 'resolve' | 'transfer' | 'query' | 'ping';
+export type VNSRequestType =
+  | 'register'
+  | 'resolve'
+  | 'update'
+  | 'transfer'
+  | 'rotate'
+  | 'renew'
+  | 'query'
+  | 'subscribe'
+  | 'ping'
+  | 'sync-buckets'
+  | 'sync-digests'
+  | 'sync-entries';
 
 /**
  * Base request interface
@@ -37,6 +56,17 @@ export interface VNSRegisterRequest extends VNSRequest {
 export interface VNSResolveRequest extends VNSRequest {
   type: 'resolve';
   name: string;
+  proof?: boolean; // Attach a merkle proof against the current root
+  followAliases?: boolean; // Follow CNAME records to the final name
+}
+
+/**
+ * Update request (owner-signed record replacement)
+ */
+export interface VNSUpdateRequest extends VNSRequest {
+  type: 'update';
+  update: VNSRecordUpdate;
+  peerId: string;
 }
 
 /**
@@ -44,18 +74,51 @@ export interface VNSResolveRequest extends VNSRequest {
  */
 export interface VNSTransferRequest extends VNSRequest {
   type: 'transfer';
-  name: string;
-  newOwner: string;
-  signature: string;
+  transfer: VNSTransfer; // Signed by the current owner (or `threshold` co-owners)
   peerId: string;
 }
 
 /**
- * Query request (get names by owner)
+ * Key rotation request
+ */
+export interface VNSRotateRequest extends VNSRequest {
+  type: 'rotate';
+  rotation: VNSKeyRotation; // Signed by the current owner key or the recovery key
+  peerId: string;
+}
+
+/**
+ * Renew request
+ */
+export interface VNSRenewRequest extends VNSRequest {
+  type: 'renew';
+  renewal: VNSRenewal;
+  peerId: string;
+}
+
+/**
+ * Query request: names by owner, or a filtered page of names when `list` is set
  */
 export interface VNSQueryRequest extends VNSRequest {
   type: 'query';
-  owner: string;
+  owner?: string;
+  list?: VNSListOptions;
+}
+
+/**
+ * Subscribe request (stream of change events, filtered by name or owner)
+ */
+export interface VNSSubscribeRequest extends VNSRequest, VNSChangeFilter {
+  type: 'subscribe';
+}
+
+/**
+ * Line sent on a subscription stream after the response
+ */
+export interface VNSSubscriptionMessage {
+  event?: VNSChangeEvent;
+  keepalive?: boolean;
+  error?: string; // Sent once before the node closes the subscription
 }
 
 /**
@@ -65,6 +128,29 @@ export interface VNSPingRequest extends VNSRequest {
   type: 'ping';
 }
 
+/**
+ * Sync buckets request (per-bucket hashes for anti-entropy)
+ */
+export interface VNSSyncBucketsRequest extends VNSRequest {
+  type: 'sync-buckets';
+}
+
+/**
+ * Sync digests request (entry digests for differing buckets)
+ */
+export interface VNSSyncDigestsRequest extends VNSRequest {
+  type: 'sync-digests';
+  buckets: string[];
+}
+
+/**
+ * Sync entries request (full entries to pull)
+ */
+export interface VNSSyncEntriesRequest extends VNSRequest {
+  type: 'sync-entries';
+  names: string[];
+}
+
 /**
  * Generic response
  */
@@ -83,6 +169,10 @@ export class VNSProtocolHandler {
   private protocol = '/verimut/vns/1.0.0';
   private running = false;
 
+  // Open subscription streams (each entry ends one)
+  private subscriptions: Set<() => void> = new Set();
+  private readonly MAX_PENDING_MESSAGES = 1000;
+
   constructor(libp2p: any, store: VNSNamespaceStore) {
     this.libp2p = libp2p;
     this.store = store;
@@ -121,6 +211,9 @@ export class VNSProtocolHandler {
       if (this.libp2p && typeof this.libp2p.unhandle === 'function') {
         await this.libp2p.unhandle(this.protocol);
       }
+      for (const end of Array.from(this.subscriptions)) {
+        end();
+      }
       this.running = false;
       console.log('[VNS Protocol] Handler stopped');
     } catch (e) {
@@ -139,6 +232,12 @@ export class VNSProtocolHandler {
       // Get peer ID from connection
       const peerId = connection?.remotePeer?.toString?.() || 'unknown';
 
+      // Subscriptions keep the stream open
+      if (request.type === 'subscribe') {
+        await this.streamChanges(stream, request as VNSSubscribeRequest);
+        return;
+      }
+
       // Process request
       const response = await this.processRequest(request, peerId);
 
@@ -159,6 +258,62 @@ export class VNSProtocolHandler {
     }
   }
 
+  /**
+   * Stream change events to a subscriber until it goes away, the node stops,
+   * or it falls MAX_PENDING_MESSAGES behind
+   */
+  private async streamChanges(stream: any, request: VNSSubscribeRequest): Promise<void> {
+    if (this.store.getSubscriptionCount() >= VNS_CONFIG.MAX_SUBSCRIPTIONS) {
+      await this.sendResponse(stream, { success: false, error: 'Too many open subscriptions' });
+      return;
+    }
+
+    const pending: string[] = [];
+    let open = true;
+    let wake: (() => void) | null = null;
+    const push = (message: VNSResponse | VNSSubscriptionMessage) => {
+      if (!open) return;
+      pending.push(JSON.stringify(message) + '\n');
+      if (pending.length > this.MAX_PENDING_MESSAGES) {
+        pending.length = 0;
+        pending.push(JSON.stringify({ error: 'Subscriber is too slow' }) + '\n');
+        open = false;
+      }
+      wake?.();
+    };
+    const end = () => {
+      open = false;
+      wake?.();
+    };
+
+    push({ success: true, data: { subscribed: true } });
+    const unsubscribe = this.store.subscribe({ names: request.names, owner: request.owner }, event => push({ event }));
+    const keepalive = setInterval(() => push({ keepalive: true }), VNS_CONFIG.SUBSCRIPTION_KEEPALIVE_MS);
+    this.subscriptions.add(end);
+
+    async function* lines(): AsyncGenerator<Uint8Array> {
+      while (true) {
+        while (pending.length > 0) {
+          yield Buffer.from(pending.shift()!, 'utf8');
+        }
+        if (!open) return;
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+      }
+    }
+
+    try {
+      await pipe(lines(), stream.sink);
+    } catch (e) {
+      // The subscriber closed or reset the stream
+    } finally {
+      open = false;
+      clearInterval(keepalive);
+      unsubscribe();
+      this.subscriptions.delete(end);
+    }
+  }
+
   /**
    * Read request from stream
    */
@@ -193,14 +348,32 @@ export class VNSProtocolHandler {
         case 'resolve':
           return await this.handleResolve(request as VNSResolveRequest);
         
+        case 'update':
+          return await this.handleUpdate(request as VNSUpdateRequest, peerId);
+
         case 'transfer':
           return await this.handleTransfer(request as VNSTransferRequest, peerId);
+
+        case 'rotate':
+          return await this.handleRotate(request as VNSRotateRequest, peerId);
+
+        case 'renew':
+          return await this.handleRenew(request as VNSRenewRequest, peerId);
         
         case 'query':
           return await this.handleQuery(request as VNSQueryRequest);
         
         case 'ping':
           return this.handlePing();
+
+        case 'sync-buckets':
+          return this.handleSyncBuckets();
+
+        case 'sync-digests':
+          return this.handleSyncDigests(request as VNSSyncDigestsRequest);
+
+        case 'sync-entries':
+          return this.handleSyncEntries(request as VNSSyncEntriesRequest);
         
         default:
           return {
@@ -233,7 +406,10 @@ export class VNSProtocolHandler {
    * Handle resolve request
    */
   private async handleResolve(request: VNSResolveRequest): Promise<VNSResponse> {
-    const result = await this.store.resolve(request.name);
+    const result = await this.store.resolve(request.name, {
+      proof: request.proof,
+      followAliases: request.followAliases
+    });
     
     return {
       success: result.found,
@@ -243,8 +419,24 @@ export class VNSProtocolHandler {
         records: result.records,
         owner: result.owner,
         expires: result.expires,
-        ttl: result.ttl
-      } : undefined
+        ttl: result.ttl,
+        cid: result.cid,
+        proof: result.proof,
+        aliasChain: result.aliasChain
+      } : (result.proof ? { proof: result.proof } : undefined)
+    };
+  }
+
+  /**
+   * Handle update request
+   */
+  private async handleUpdate(request: VNSUpdateRequest, peerId: string): Promise<VNSResponse> {
+    const result = await this.store.update(request.update, peerId);
+
+    return {
+      success: result.success,
+      error: result.error,
+      data: result.success ? { cid: result.cid } : undefined
     };
   }
 
@@ -252,23 +444,55 @@ export class VNSProtocolHandler {
    * Handle transfer request
    */
   private async handleTransfer(request: VNSTransferRequest, peerId: string): Promise<VNSResponse> {
-    const result = await this.store.transfer(
-      request.name,
-      request.newOwner,
-      request.signature,
-      peerId
-    );
+    const result = await this.store.transfer(request.transfer, peerId);
     
     return {
       success: result.success,
-      error: result.error
+      error: result.error,
+      data: result.success ? { cid: result.cid } : undefined
+    };
+  }
+
+  /**
+   * Handle key rotation request
+   */
+  private async handleRotate(request: VNSRotateRequest, peerId: string): Promise<VNSResponse> {
+    const result = await this.store.rotateKey(request.rotation, peerId);
+
+    return {
+      success: result.success,
+      error: result.error,
+      data: result.success ? { cid: result.cid } : undefined
     };
   }
 
   /**
-   * Handle query request (get names by owner)
+   * Handle renew request
+   */
+  private async handleRenew(request: VNSRenewRequest, peerId: string): Promise<VNSResponse> {
+    const result = await this.store.renew(request.renewal, peerId);
+
+    return {
+      success: result.success,
+      error: result.error,
+      data: result.success ? { cid: result.cid, expires: result.expires } : undefined
+    };
+  }
+
+  /**
+   * Handle query request (names by owner, or a page of a listing)
    */
   private async handleQuery(request: VNSQueryRequest): Promise<VNSResponse> {
+    if (request.list) {
+      const result = this.store.listNames({ ...request.list, owner: request.list.owner ?? request.owner });
+      return result.error
+        ? { success: false, error: result.error }
+        : { success: true, data: { names: result.names, nextCursor: result.nextCursor } };
+    }
+
+    if (!request.owner) {
+      return { success: false, error: 'Missing owner' };
+    }
     const names = this.store.getNamesByOwner(request.owner);
     
     return {
@@ -293,6 +517,47 @@ export class VNSProtocolHandler {
     };
   }
 
+  /**
+   * Handle sync-buckets request
+   */
+  private handleSyncBuckets(): VNSResponse {
+    return {
+      success: true,
+      data: {
+        merkleRoot: this.store.getMerkleRoot(),
+        buckets: this.store.getBucketHashes()
+      }
+    };
+  }
+
+  /**
+   * Handle sync-digests request
+   */
+  private handleSyncDigests(request: VNSSyncDigestsRequest): VNSResponse {
+    if (!Array.isArray(request.buckets)) {
+      return { success: false, error: 'Missing buckets' };
+    }
+
+    return {
+      success: true,
+      data: { digests: this.store.getDigests(request.buckets) }
+    };
+  }
+
+  /**
+   * Handle sync-entries request
+   */
+  private handleSyncEntries(request: VNSSyncEntriesRequest): VNSResponse {
+    if (!Array.isArray(request.names)) {
+      return { success: false, error: 'Missing names' };
+    }
+
+    return {
+      success: true,
+      data: { entries: this.store.getEntries(request.names) }
+    };
+  }
+
   /**
    * Make a VNS request to a remote peer
    */
@@ -321,6 +586,50 @@ export class VNSProtocolHandler {
     }
   }
 
+  /**
+   * Subscribe to change events on a remote peer
+   * Resolves once the peer accepted the subscription; call the returned function to close it
+   */
+  async subscribe(
+    peerId: string,
+    filter: VNSChangeFilter,
+    onEvent: (event: VNSChangeEvent) => void
+  ): Promise<() => void> {
+    if (!this.libp2p || typeof this.libp2p.dialProtocol !== 'function') {
+      throw new Error('libp2p not available');
+    }
+
+    const { stream } = await this.libp2p.dialProtocol(peerId, this.protocol);
+    const request: VNSSubscribeRequest = { type: 'subscribe', ...filter };
+    await pipe([Buffer.from(JSON.stringify(request), 'utf8')], stream.sink);
+
+    const lines = readLines(stream.source);
+    const first = await lines.next();
+    const response: VNSResponse | null = first.done ? null : JSON.parse(first.value);
+    if (!response?.success) {
+      throw new Error(`VNS subscription refused: ${response?.error || 'stream closed'}`);
+    }
+
+    (async () => {
+      for (let line = await lines.next(); !line.done; line = await lines.next()) {
+        const message: VNSSubscriptionMessage = JSON.parse(line.value);
+        if (message.event) {
+          onEvent(message.event);
+        } else if (message.error) {
+          console.warn(`[VNS Protocol] Subscription closed by ${peerId.slice(0, 16)}...: ${message.error}`);
+        }
+      }
+    })().catch(() => { /* stream closed */ });
+
+    return () => {
+      if (typeof stream.abort === 'function') {
+        stream.abort(new Error('Unsubscribed'));
+      } else if (typeof stream.close === 'function') {
+        stream.close();
+      }
+    };
+  }
+
   /**
    * Check if protocol is running
    */
@@ -329,6 +638,27 @@ export class VNSProtocolHandler {
   }
 }
 
+/**
+ * Split a byte stream into newline-delimited lines
+ */
+async function* readLines(source: AsyncIterable<any>): AsyncGenerator<string> {
+  let buffered = '';
+  for await (const chunk of source) {
+    buffered += Buffer.from(chunk.subarray ? chunk.subarray() : chunk).toString('utf8');
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) >= 0) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      if (line.trim()) {
+        yield line;
+      }
+    }
+  }
+  if (buffered.trim()) {
+    yield buffered;
+  }
+}
+
 /**
  * Helper function to setup VNS protocol on a node
  */
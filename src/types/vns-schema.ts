@@ -3,19 +3,48 @@
  * 
  * Decentralized DNS-like system for .vfs TLD
  * All names are first-come-first-served with PoW anti-spam
+ * Subdomains (api.myteam.vfs) are signed by the parent zone instead of PoW
  */
 
+import { isIPv4, isIPv6 } from 'net';
+
 /**
  * VNS Record Types
  */
-export type VNSRecordType = 'A' | 'AAAA' | 'TXT' | 'FS' | 'SYNC';
+export type VNSRecordType =
+  | 'A'
+  | 'AAAA'
+  | 'TXT'
+  | 'FS'
+  | 'SYNC'
+  | 'DELEGATE'
+  | 'CNAME'
+  | 'SRV'
+  | 'MX'
+  | 'PEER'
+  | 'CONTENT'
+  | 'PRIMARY';
 
 /**
  * Individual DNS-like record for a VNS name
+ *
+ * Value formats (checked by validateVNSRecord):
+ * - A / AAAA: IPv4 / IPv6 address
+ * - TXT: free text metadata
+ * - FS: IPFS CID or path
+ * - SYNC: VerimutSync peer endpoint
+ * - DELEGATE: PEM public key allowed to sign subdomains
+ * - CNAME: another .vfs name (must be the only record)
+ * - SRV: "<priority> <weight> <port> <target.vfs>"
+ * - MX: "<priority> <target.vfs>"
+ * - PEER: libp2p multiaddr ending in /p2p/<peerId>
+ * - CONTENT: ENS-style content hash, "ipfs://<cid>" or "ipns://<name>"
+ * - PRIMARY: peer ID or IP address this name is the primary (reverse) name for;
+ *   must be backed by a PEER, A or AAAA record of the same name
  */
 export interface VNSRecord {
   type: VNSRecordType;
-  value: string; // IP address (A/AAAA), metadata (TXT), CID/path (FS), or peer endpoint (SYNC)
+  value: string;
   ttl?: number; // Time-to-live in seconds (default: 3600)
 }
 
@@ -28,9 +57,186 @@ export interface VNSRegistration {
   records: VNSRecord[]; // Array of DNS-like records
   timestamp: number; // Registration time (Unix timestamp in ms)
   expires: number; // Expiration time (1 year from registration)
-  nonce: number; // Proof-of-work nonce (SHA256 with N leading zeros)
+  nonce: number; // Proof-of-work nonce (hash with N leading zeros)
+  powAlgorithm?: VNSPoWAlgorithm; // PoW hash function (absent = sha256)
   signature: string; // Ed25519 signature of serialized registration data
   publicKey?: string; // Owner's public key for signature verification
+  owners?: VNSOwnerSet; // Optional M-of-N co-owners (publicKey must be one of them)
+  recoveryKey?: string; // Optional recovery public key (PEM) that may rotate publicKey (single-key owners only)
+  zoneSignature?: VNSZoneSignature; // Subdomains only: parent zone authorization (replaces PoW)
+}
+
+/**
+ * Proof-of-work hash functions
+ * - sha256: SHA-256 (cheap to grind on parallel hardware)
+ * - scrypt: memory-hard scrypt with VNS_CONFIG.POW_SCRYPT_COST
+ */
+export type VNSPoWAlgorithm = 'sha256' | 'scrypt';
+
+/**
+ * Network PoW policy
+ * Registrations and renewals must use `algorithm`; those timestamped before
+ * `since` may still use sha256 (so names from before a switch keep validating)
+ */
+export interface VNSPoWPolicy {
+  algorithm: VNSPoWAlgorithm;
+  since?: number; // Switch-over time (Unix timestamp in ms, default 0)
+}
+
+/**
+ * Anti-spam requirement for new names (network config)
+ * - pow: proof-of-work only
+ * - stake: a stake lock only (no PoW)
+ * - hybrid: both
+ */
+export type VNSAntiSpamMode = 'pow' | 'stake' | 'hybrid';
+
+/**
+ * Stake locked by the holder of a name
+ * Released when the name expires or moves to another owner
+ */
+export interface VNSStakeLock {
+  name: string; // Normalized name the stake is locked for
+  owner: string; // Holder whose balance the stake is taken from
+  amount: number; // Locked amount
+  lockedAt: number; // Lock time (Unix timestamp in ms)
+  expires: number; // Expiry of the name when the lock was taken
+}
+
+/**
+ * Stake configuration and locks reported in /api/vns/status
+ */
+export interface VNSStakeStatus {
+  mode: VNSAntiSpamMode;
+  amount: number; // Stake locked per name
+  totalLocked: number;
+  locks: VNSStakeLock[]; // Empty in pow mode
+}
+
+/**
+ * Rate limit budgets
+ * - local: registrations submitted to this node (API, VNS protocol)
+ * - relay: fresh registrations relayed by peers as deltas
+ */
+export type VNSRateLimitBudget = 'local' | 'relay';
+
+/**
+ * Usage of one rate limit budget by one owner key
+ */
+export interface VNSRateLimitUsage {
+  limit: number; // Attempts allowed per window
+  used: number; // Attempts in the current window
+  remaining: number;
+  resetsAt: number | null; // When the oldest counted attempt leaves the window (null = none counted)
+}
+
+/**
+ * Parent zone authorization for a subdomain registration
+ * Signed over the same canonical data as the registration itself
+ */
+export interface VNSZoneSignature {
+  publicKey: string; // Parent owner key, or a key from a DELEGATE record on the parent
+  signature: string; // Ed25519 signature of the serialized registration
+}
+
+/**
+ * M-of-N owner set: `threshold` of `keys` must sign a transfer
+ */
+export interface VNSOwnerSet {
+  keys: string[]; // Co-owner public keys (PEM)
+  threshold: number; // Signatures required to move the name
+}
+
+/**
+ * Current holder of a name (registration owner, or the latest transfer)
+ */
+export interface VNSOwnership {
+  owner: string;
+  publicKey?: string;
+  owners?: VNSOwnerSet;
+  recoveryKey?: string; // May rotate publicKey (declared at registration, lapses on transfer)
+}
+
+/**
+ * Owner-signed renewal extending a registration by another period
+ */
+export interface VNSRenewal {
+  name: string; // Normalized name being renewed
+  owner: string; // Must match the registration owner
+  previousExpires: number; // Expiry being extended (binds the renewal to one period)
+  expires: number; // New expiry (previousExpires + EXPIRATION_PERIOD)
+  timestamp: number; // Renewal time (Unix timestamp in ms)
+  nonce: number; // Fresh proof-of-work nonce over the renewal subject
+  powAlgorithm?: VNSPoWAlgorithm; // PoW hash function (absent = sha256)
+  signature: string; // Ed25519 signature by the registration's public key
+}
+
+/**
+ * Signature over a transfer by one of the current owner keys
+ */
+export interface VNSTransferSignature {
+  publicKey: string; // Signing key (must belong to the current owner or owner set)
+  signature: string; // Ed25519 signature of the serialized transfer
+}
+
+/**
+ * Owner-signed transfer of a name to a new key (or owner set)
+ */
+export interface VNSTransfer {
+  name: string; // Normalized name being transferred
+  fromOwner: string; // Current owner (must match the holder at signing time)
+  newOwner: string; // New owner peer ID
+  newPublicKey: string; // New owner's public key (signs later updates/renewals/transfers)
+  newOwners?: VNSOwnerSet; // Optional M-of-N owner set for the new holder
+  nonce: string; // Random nonce (unique per name, prevents replay)
+  timestamp: number; // Transfer time (Unix timestamp in ms)
+  signatures: VNSTransferSignature[]; // One signature, or `threshold` for an owner set
+}
+
+/**
+ * Swap of the key that signs for the current holder (the owner stays the same)
+ * Signed by the holder's current key or by its recovery key; only a
+ * recovery-signed rotation may replace the recovery key, so a leaked owner key
+ * cannot lock the owner out of recovery
+ */
+export interface VNSKeyRotation {
+  name: string; // Normalized name whose key is rotated
+  owner: string; // Current holder (must match the holder at signing time)
+  newPublicKey: string; // Replaces the holder's public key
+  newRecoveryKey?: string; // Replaces the recovery key (recovery-signed rotations only)
+  signer: 'owner' | 'recovery'; // Key that signed the rotation
+  nonce: string; // Random nonce (unique per name, prevents replay)
+  timestamp: number; // Rotation time (Unix timestamp in ms)
+  signature: string; // Ed25519 signature of the serialized rotation
+}
+
+/**
+ * Owner-signed record update (replaces records, keeps expiry)
+ */
+export interface VNSRecordUpdate {
+  name: string; // Normalized name being updated
+  owner: string; // Must match the registration owner
+  records: VNSRecord[]; // Replacement record set
+  timestamp: number; // Update time (must be newer than the previous update)
+  signature: string; // Ed25519 signature by the registration's public key
+}
+
+/**
+ * Marker for a removed name
+ * Tombstones stay in the namespace (LWW, merkle tree, sync) so stale copies of
+ * the removed entry can't bring it back, and are garbage-collected later
+ */
+export interface VNSTombstone {
+  reason: 'expired'; // Why the name was removed
+  removedAt: number; // Removal time (Unix timestamp in ms)
+}
+
+/**
+ * Hybrid logical clock timestamp (see src/vns/hlc.ts)
+ */
+export interface VNSHybridTimestamp {
+  wall: number; // Largest physical time seen (Unix timestamp in ms)
+  counter: number; // Orders events sharing the same wall time
 }
 
 /**
@@ -40,12 +246,31 @@ export interface VNSRegistration {
 export interface VNSNamespaceEntry {
   name: string; // Normalized name (lowercase, with .vfs)
   registration: VNSRegistration; // The actual registration data
+  renewal?: VNSRenewal; // Latest renewal (overrides registration.expires)
+  update?: VNSRecordUpdate; // Latest record update (overrides registration.records)
+  transfers?: VNSTransfer[]; // Ownership chain from the registration owner to the current holder
+  rotations?: VNSKeyRotation[]; // Key rotations by the holders, oldest first
+  previous?: string; // CID of the entry this one replaced (history chain)
+  tombstone?: VNSTombstone; // Set when the name was removed (the last live state is kept)
   cid: string; // IPFS CID of this entry in blockstore
   merkleRoot?: string; // Merkle root for log integrity verification
-  lastModified: number; // Timestamp of last update (for LWW conflict resolution)
+  lastModified: number; // Wall time of last update (informational; entries without hlc fall back to it)
+  hlc?: VNSHybridTimestamp; // Hybrid logical clock of the last update (for LWW conflict resolution)
   version: number; // Incremental version counter
 }
 
+/**
+ * Merkle proof that a name is (or is not) in the namespace
+ * Verifiable against a trusted root with verifyMerkleProof()
+ */
+export interface VNSMerkleProof {
+  name: string; // Normalized name the proof is for
+  root: string; // Merkle root the proof was generated against
+  included: boolean; // true = inclusion proof, false = non-inclusion proof
+  siblings: string[]; // Sibling hashes from the root down to the terminal node
+  leaf?: { keyHash: string; valueHash: string }; // Terminal leaf (absent if the path ends empty)
+}
+
 /**
  * VNS resolution response
  */
@@ -56,13 +281,89 @@ export interface VNSResolutionResult {
   owner?: string;
   expires?: number;
   ttl?: number; // Cache TTL in seconds
+  cid?: string; // Entry CID (committed to by the merkle leaf)
+  proof?: VNSMerkleProof; // Present when requested
+  delegatedBy?: string; // Nearest ancestor zone with a DELEGATE record (when not found)
+  aliasChain?: string[]; // Names visited when following CNAME records (requested name first)
   error?: string; // Error message if resolution failed
 }
 
+/**
+ * Reverse resolution of a peer ID or IP address to its primary name
+ */
+export interface VNSReverseResolution {
+  found: boolean;
+  subject: string; // Peer ID or IP address looked up (normalized)
+  name?: string; // Primary name
+  owner?: string; // Holder of the primary name
+  selfClaimed?: boolean; // The name is held by the peer ID it claims
+  verified?: boolean; // Peer IDs only: false when another owner made the claim (never used as a friendly name)
+  candidates?: string[]; // Every live name claiming the subject, best first
+}
+
+/**
+ * Filters and page position for listing names
+ */
+export interface VNSListOptions {
+  prefix?: string; // Name prefix, or a pattern where `*` matches any characters ("*.myteam.vfs")
+  owner?: string; // Current holder
+  recordType?: VNSRecordType; // Names with at least one record of this type
+  expiringBefore?: number; // Names expiring before this timestamp (ms)
+  cursor?: string; // nextCursor of the previous page
+  limit?: number; // Page size (default LIST_DEFAULT_LIMIT, max LIST_MAX_LIMIT)
+}
+
+/**
+ * A name in a listing
+ */
+export interface VNSListedName {
+  name: string;
+  owner: string;
+  expires: number;
+  recordTypes: VNSRecordType[];
+}
+
+/**
+ * One page of a listing, in name order
+ */
+export interface VNSListResult {
+  names: VNSListedName[];
+  nextCursor: string | null; // Pass as `cursor` for the next page (null on the last page)
+  error?: string; // Invalid options
+}
+
 /**
  * VNS operation types for logging
  */
-export type VNSOperationType = 'register' | 'update' | 'transfer' | 'resolve' | 'expire';
+export type VNSOperationType = 'register' | 'update' | 'transfer' | 'rotate' | 'resolve' | 'expire' | 'renew';
+
+/**
+ * One step in the history of a name
+ * Derived by comparing an entry state with its predecessor in the CID chain
+ */
+export interface VNSHistoryEvent {
+  operation: Exclude<VNSOperationType, 'resolve'>;
+  cid: string; // Entry CID produced by the operation (for expiry: the CID that lapsed)
+  previous?: string; // Predecessor entry CID
+  timestamp: number; // Signed operation time (for expiry: the expiry time)
+  owner: string; // Holder performing the operation
+  newOwner?: string; // For transfers
+  signatures: string[]; // Signatures authorizing the operation
+  reason?: string; // Why the name was removed (tombstones)
+  verified: boolean; // Block matches its CID and all signatures check out
+  error?: string; // Why verification failed
+  block?: string; // Raw entry state block (when requested, for client-side verification)
+}
+
+/**
+ * History of a name, newest event first
+ */
+export interface VNSHistory {
+  name: string;
+  head: string | null; // Current entry CID (a tombstone for removed names)
+  events: VNSHistoryEvent[];
+  complete: boolean; // false if a predecessor block is missing locally
+}
 
 /**
  * VNS log entry for VerimutLog integration
@@ -90,6 +391,16 @@ export interface VNSSyncMessage {
   signature?: string; // Optional signature for message authenticity
 }
 
+/**
+ * Compact per-entry digest exchanged during anti-entropy reconciliation
+ */
+export interface VNSEntryDigest {
+  name: string;
+  cid: string;
+  lastModified: number;
+  hlc?: VNSHybridTimestamp;
+}
+
 /**
  * Reserved VNS names (hardcoded, cannot be registered)
  */
@@ -109,15 +420,45 @@ export const VNS_CONFIG = {
   MIN_NAME_LENGTH: 3,
   TTL_DEFAULT: 3600, // 1 hour
   EXPIRATION_PERIOD: 365 * 24 * 60 * 60 * 1000, // 1 year in ms
-  POW_DIFFICULTY: 3, // Leading zeros required in SHA256 hash
-  RATE_LIMIT_PER_HOUR: 5, // Max registrations per peer per hour
+  RENEWAL_GRACE_PERIOD: 30 * 24 * 60 * 60 * 1000, // 30 days after expiry where only the owner may renew
+  POW_DIFFICULTY: 3, // Base leading zeros required in SHA256 hash
+  POW_MAX_DIFFICULTY: 8, // Cap on the adaptive difficulty
+  POW_SHORT_NAME_LENGTH: 4, // Labels shorter than this need one extra zero per missing char
+  POW_VOLUME_WINDOW: 60 * 60 * 1000, // Registration volume is counted per 1-hour window
+  POW_VOLUME_STEP: 100, // Registrations per window before the first volume surcharge (then every 4x)
+  POW_SCRYPT_COST: 16384, // scrypt N (16 MiB per hash with r = 8)
+  POW_SCRYPT_ZERO_DISCOUNT: 2, // scrypt hashes need this many fewer leading zeros than sha256
+  STAKE_AMOUNT: 100, // Stake locked per name in the stake and hybrid anti-spam modes
+  RATE_LIMIT_PER_HOUR: 5, // Max registrations per owner key per hour submitted to this node
+  RATE_LIMIT_RELAY_PER_HOUR: 20, // Max relayed registrations per owner key per hour
   RATE_LIMIT_WINDOW_MS: 60 * 60 * 1000, // 1 hour
   SHARDING_THRESHOLD: 5000, // Start sharding at 5k entries
-  MAX_RECORDS_PER_NAME: 20 // Prevent bloat
+  SHARD_BUCKET_SIZE: 256, // Max names per shard leaf once the namespace is sharded
+  MAX_RECORDS_PER_NAME: 20, // Prevent bloat
+  RECONCILE_INTERVAL_MS: 5 * 60 * 1000, // Anti-entropy round every 5 minutes
+  RECONCILE_MAX_ENTRIES: 500, // Max entries pulled per reconciliation request
+  RECONCILE_REQUEST_TIMEOUT_MS: 5 * 1000, // HTTP reconciliation requests give up after this
+  LIST_DEFAULT_LIMIT: 100, // Names per listing page unless a limit is given
+  LIST_MAX_LIMIT: 1000, // Largest listing page
+  MAX_SUBSCRIPTIONS: 256, // Open change subscriptions (SSE and protocol streams) per node
+  SUBSCRIPTION_KEEPALIVE_MS: 15 * 1000, // Idle subscription streams get a keepalive this often
+  DELTA_MAX_AGE_MS: 10 * 60 * 1000, // Relayed deltas sent longer ago than this are stale
+  DELTA_DEDUP_CACHE_SIZE: 10000, // Entry CIDs remembered to drop duplicate deltas
+  STATE_SAVE_DELAY_MS: 1000, // Delta and rate limit state changes are batched into one write this often
+  MAX_OWNER_KEYS: 10, // Max keys in an M-of-N owner set
+  MAX_LABEL_LENGTH: 63, // DNS label limit for subdomain labels
+  MAX_SUBDOMAIN_DEPTH: 4, // Labels allowed in front of the registered name
+  MAX_FULL_NAME_LENGTH: 253, // DNS full name limit
+  MAX_RECORD_VALUE_LENGTH: 1024, // Longest record value (TXT, DELEGATE PEM, ...)
+  MAX_ALIAS_DEPTH: 8, // CNAME hops followed during resolution
+  MAX_HISTORY_LENGTH: 1000, // Entry states walked when listing a name's history
+  TOMBSTONE_RETENTION: 90 * 24 * 60 * 60 * 1000, // Keep tombstones 90 days before garbage collection
+  MAX_CLOCK_DRIFT: 5 * 60 * 1000 // Reject timestamps more than 5 minutes ahead of the local clock
 } as const;
 
 /**
  * Validate a VNS name format
+ * Accepts registered names (myteam.vfs) and subdomains (api.myteam.vfs)
  */
 export function validateVNSName(name: string): { valid: boolean; error?: string } {
   // Must end with .vfs
@@ -125,8 +466,16 @@ export function validateVNSName(name: string): { valid: boolean; error?: string
     return { valid: false, error: `Name must end with ${VNS_CONFIG.TLD}` };
   }
 
-  // Extract the label (part before .vfs)
-  const label = name.slice(0, -VNS_CONFIG.TLD.length);
+  if (name.length > VNS_CONFIG.MAX_FULL_NAME_LENGTH) {
+    return { valid: false, error: `Name too long (max ${VNS_CONFIG.MAX_FULL_NAME_LENGTH} chars in total)` };
+  }
+
+  // Split into labels (the last one is the registered label)
+  const labels = name.slice(0, -VNS_CONFIG.TLD.length).split('.');
+  const label = labels[labels.length - 1];
+  if (labels.length - 1 > VNS_CONFIG.MAX_SUBDOMAIN_DEPTH) {
+    return { valid: false, error: `Too many subdomain levels (max ${VNS_CONFIG.MAX_SUBDOMAIN_DEPTH})` };
+  }
 
   // Check length
   if (label.length < VNS_CONFIG.MIN_NAME_LENGTH) {
@@ -135,25 +484,222 @@ export function validateVNSName(name: string): { valid: boolean; error?: string
   if (label.length > VNS_CONFIG.MAX_NAME_LENGTH) {
     return { valid: false, error: `Name too long (max ${VNS_CONFIG.MAX_NAME_LENGTH} chars)` };
   }
+  for (const sub of labels.slice(0, -1)) {
+    if (sub.length === 0 || sub.length > VNS_CONFIG.MAX_LABEL_LENGTH) {
+      return { valid: false, error: `Subdomain labels must be 1-${VNS_CONFIG.MAX_LABEL_LENGTH} chars` };
+    }
+  }
 
   // Check if reserved
   if (RESERVED_VNS_NAMES.includes(name as any)) {
     return { valid: false, error: 'Name is reserved' };
   }
 
-  // Must contain only alphanumeric, hyphen, underscore
-  if (!/^[a-z0-9_-]+$/.test(label)) {
-    return { valid: false, error: 'Name must contain only lowercase letters, numbers, hyphens, and underscores' };
+  for (const part of labels) {
+    // Must contain only alphanumeric, hyphen, underscore
+    if (!/^[a-z0-9_-]+$/.test(part)) {
+      return { valid: false, error: 'Name must contain only lowercase letters, numbers, hyphens, and underscores' };
+    }
+
+    // Cannot start or end with hyphen
+    if (part.startsWith('-') || part.endsWith('-')) {
+      return { valid: false, error: 'Name cannot start or end with a hyphen' };
+    }
   }
 
-  // Cannot start or end with hyphen
-  if (label.startsWith('-') || label.endsWith('-')) {
-    return { valid: false, error: 'Name cannot start or end with a hyphen' };
+  return { valid: true };
+}
+
+const CID_V0 = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+const CID_V1 = /^b[a-z2-7]{50,}$/;
+const MULTIADDR = /^(\/[a-z0-9-]+\/[^/\s]+)+$/i;
+const PEER_ID = /^[1-9A-HJ-NP-Za-km-z]{32,}$|^b[a-z2-7]{50,}$/;
+
+/**
+ * Check for an IPFS CID (v0 base58btc or v1 base32)
+ */
+function isCID(value: string): boolean {
+  return CID_V0.test(value) || CID_V1.test(value);
+}
+
+/**
+ * Check a 16-bit unsigned integer field (SRV/MX priorities, weights, ports)
+ */
+function isUint16(value: string, min = 0): boolean {
+  if (!/^\d+$/.test(value)) return false;
+  const n = parseInt(value, 10);
+  return n >= min && n <= 65535;
+}
+
+/**
+ * Validate a single record value for its type
+ */
+export function validateVNSRecord(record: VNSRecord): { valid: boolean; error?: string } {
+  if (!record || typeof record.value !== 'string' || record.value.length === 0) {
+    return { valid: false, error: 'Record value is required' };
+  }
+  if (record.value.length > VNS_CONFIG.MAX_RECORD_VALUE_LENGTH) {
+    return { valid: false, error: `${record.type} record too long (max ${VNS_CONFIG.MAX_RECORD_VALUE_LENGTH} chars)` };
+  }
+  if (record.ttl !== undefined && (!Number.isInteger(record.ttl) || record.ttl < 0)) {
+    return { valid: false, error: `Invalid TTL for ${record.type} record` };
+  }
+
+  const value = record.value;
+  switch (record.type) {
+    case 'A':
+      return isIPv4(value) ? { valid: true } : { valid: false, error: `Invalid IPv4 address: ${value}` };
+
+    case 'AAAA':
+      return isIPv6(value) ? { valid: true } : { valid: false, error: `Invalid IPv6 address: ${value}` };
+
+    case 'TXT':
+    case 'FS':
+    case 'SYNC':
+      return { valid: true };
+
+    case 'DELEGATE':
+      return value.includes('-----BEGIN PUBLIC KEY-----')
+        ? { valid: true }
+        : { valid: false, error: 'DELEGATE record must hold a PEM public key' };
+
+    case 'CNAME': {
+      const target = validateVNSName(value);
+      return target.valid ? { valid: true } : { valid: false, error: `Invalid CNAME target: ${target.error}` };
+    }
+
+    case 'SRV': {
+      const [priority, weight, port, target, ...rest] = value.split(' ');
+      if (rest.length > 0 || !isUint16(priority) || !isUint16(weight) || !isUint16(port, 1) || !target) {
+        return { valid: false, error: 'SRV record must be "<priority> <weight> <port> <target.vfs>"' };
+      }
+      const targetCheck = validateVNSName(target);
+      return targetCheck.valid ? { valid: true } : { valid: false, error: `Invalid SRV target: ${targetCheck.error}` };
+    }
+
+    case 'MX': {
+      const [priority, target, ...rest] = value.split(' ');
+      if (rest.length > 0 || !isUint16(priority) || !target) {
+        return { valid: false, error: 'MX record must be "<priority> <target.vfs>"' };
+      }
+      const targetCheck = validateVNSName(target);
+      return targetCheck.valid ? { valid: true } : { valid: false, error: `Invalid MX target: ${targetCheck.error}` };
+    }
+
+    case 'PEER':
+      return MULTIADDR.test(value) && /\/p2p\/[^/]+$/.test(value)
+        ? { valid: true }
+        : { valid: false, error: 'PEER record must be a multiaddr ending in /p2p/<peerId>' };
+
+    case 'PRIMARY':
+      return isIPv4(value) || isIPv6(value) || PEER_ID.test(value)
+        ? { valid: true }
+        : { valid: false, error: 'PRIMARY record must be a peer ID or an IP address' };
+
+    case 'CONTENT': {
+      const match = /^(ipfs|ipns):\/\/([^/\s]+)(\/\S*)?$/.exec(value);
+      if (!match) {
+        return { valid: false, error: 'CONTENT record must be ipfs://<cid> or ipns://<name>' };
+      }
+      const [, protocol, id] = match;
+      if (protocol === 'ipfs' && !isCID(id)) {
+        return { valid: false, error: `Invalid IPFS CID: ${id}` };
+      }
+      if (protocol === 'ipns' && !isCID(id) && !/^[a-z0-9]+([.-][a-z0-9]+)*$/i.test(id) && !/^k[a-z0-9]{50,}$/.test(id)) {
+        return { valid: false, error: `Invalid IPNS name: ${id}` };
+      }
+      return { valid: true };
+    }
+
+    default:
+      return { valid: false, error: `Unknown record type: ${(record as any).type}` };
+  }
+}
+
+/**
+ * Validate a full record set (count, per-type values, CNAME exclusivity)
+ */
+export function validateVNSRecords(records: VNSRecord[]): { valid: boolean; error?: string } {
+  if (!Array.isArray(records)) {
+    return { valid: false, error: 'Records must be an array' };
+  }
+  if (records.length > VNS_CONFIG.MAX_RECORDS_PER_NAME) {
+    return { valid: false, error: `Too many records (max ${VNS_CONFIG.MAX_RECORDS_PER_NAME})` };
+  }
+
+  for (const record of records) {
+    const check = validateVNSRecord(record);
+    if (!check.valid) {
+      return check;
+    }
+  }
+
+  // An alias stands in for the whole name, as in DNS
+  if (records.some(r => r.type === 'CNAME') && records.length > 1) {
+    return { valid: false, error: 'A CNAME record cannot be combined with other records' };
+  }
+
+  // A primary name claim must be confirmed by the name's own forward records
+  const forward = getForwardSubjects(records);
+  for (const record of records) {
+    if (record.type === 'PRIMARY' && !forward.has(normalizeReverseSubject(record.value))) {
+      return { valid: false, error: `PRIMARY ${record.value} is not backed by a PEER, A or AAAA record of this name` };
+    }
   }
 
   return { valid: true };
 }
 
+/**
+ * Normalize a reverse lookup subject (IP addresses are case-insensitive, peer IDs are not)
+ */
+export function normalizeReverseSubject(subject: string): string {
+  const value = subject.trim();
+  return isIPv4(value) || isIPv6(value) ? value.toLowerCase() : value;
+}
+
+/**
+ * Peer IDs and addresses a record set points at (PEER, A and AAAA records)
+ */
+export function getForwardSubjects(records: VNSRecord[]): Set<string> {
+  const subjects = new Set<string>();
+  for (const record of records) {
+    if (record.type === 'A' || record.type === 'AAAA') {
+      subjects.add(normalizeReverseSubject(record.value));
+    } else if (record.type === 'PEER') {
+      subjects.add(record.value.slice(record.value.lastIndexOf('/p2p/') + '/p2p/'.length));
+    }
+  }
+  return subjects;
+}
+
+/**
+ * Subjects a record set claims as primary (only those its forward records confirm)
+ */
+export function getPrimarySubjects(records: VNSRecord[]): string[] {
+  const forward = getForwardSubjects(records);
+  const claimed = records
+    .filter(r => r.type === 'PRIMARY')
+    .map(r => normalizeReverseSubject(r.value))
+    .filter(subject => forward.has(subject));
+  return Array.from(new Set(claimed));
+}
+
+/**
+ * Parent zone of a subdomain (null for registered names like myteam.vfs)
+ */
+export function getParentVNSName(name: string): string | null {
+  const labels = name.slice(0, -VNS_CONFIG.TLD.length).split('.');
+  return labels.length > 1 ? labels.slice(1).join('.') + VNS_CONFIG.TLD : null;
+}
+
+/**
+ * Check whether a name is a subdomain (has a parent zone)
+ */
+export function isVNSSubdomain(name: string): boolean {
+  return getParentVNSName(name) !== null;
+}
+
 /**
  * Normalize a VNS name (lowercase, ensure .vfs suffix)
  */
@@ -164,3 +710,58 @@ export function normalizeVNSName(name: string): string {
   }
   return name;
 }
+
+/**
+ * Effective expiry of an entry (latest renewal wins over the registration)
+ */
+export function getEntryExpires(entry: VNSNamespaceEntry): number {
+  return entry.renewal ? entry.renewal.expires : entry.registration.expires;
+}
+
+/**
+ * Effective records of an entry (latest update wins over the registration)
+ */
+export function getEntryRecords(entry: VNSNamespaceEntry): VNSRecord[] {
+  return entry.update ? entry.update.records : entry.registration.records;
+}
+
+/**
+ * Current holder of an entry (latest transfer wins over the registration)
+ */
+export function getEntryOwnership(entry: Pick<VNSNamespaceEntry, 'registration' | 'transfers' | 'rotations'>): VNSOwnership {
+  return getEntryOwnershipAt(entry, Infinity);
+}
+
+/**
+ * Holder of an entry at a point in time
+ * Replays transfers and key rotations (which never share a timestamp) in order
+ */
+export function getEntryOwnershipAt(
+  entry: Pick<VNSNamespaceEntry, 'registration' | 'transfers' | 'rotations'>,
+  timestamp: number
+): VNSOwnership {
+  const steps: Array<{ timestamp: number; transfer?: VNSTransfer; rotation?: VNSKeyRotation }> = [
+    ...(entry.transfers || []).map(transfer => ({ timestamp: transfer.timestamp, transfer })),
+    ...(entry.rotations || []).map(rotation => ({ timestamp: rotation.timestamp, rotation }))
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  let holder: VNSOwnership = {
+    owner: entry.registration.owner,
+    publicKey: entry.registration.publicKey,
+    owners: entry.registration.owners,
+    recoveryKey: entry.registration.recoveryKey
+  };
+  for (const step of steps) {
+    if (step.timestamp > timestamp) break;
+    if (step.transfer) {
+      holder = { owner: step.transfer.newOwner, publicKey: step.transfer.newPublicKey, owners: step.transfer.newOwners };
+    } else {
+      holder = {
+        ...holder,
+        publicKey: step.rotation!.newPublicKey,
+        recoveryKey: step.rotation!.newRecoveryKey ?? holder.recoveryKey
+      };
+    }
+  }
+  return holder;
+}
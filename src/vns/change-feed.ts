@@ -0,0 +1,143 @@
+/**
+ * VNS Change Feed
+ *
+ * Typed change events for subscribers that follow names instead of polling
+ * resolve. The namespace store publishes one event whenever a stored entry
+ * changes, whether the change was made locally, arrived as a delta or was
+ * pulled by the reconciler, so every node reports the same changes:
+ *
+ * - register: a name was taken (fresh, or after its tombstone)
+ * - update / renew: records or expiry changed
+ * - transfer / rotate: the holder or the owner key changed
+ * - expire: the name was tombstoned
+ *
+ * Listeners run synchronously inside the store; a throwing listener is logged
+ * and does not affect the change or other listeners.
+ */
+
+import type { VNSNamespaceEntry, VNSOperationType, VNSRecord, VNSHybridTimestamp } from '../types/vns-schema.js';
+import { getEntryExpires, getEntryOwnership, getEntryRecords, normalizeVNSName } from '../types/vns-schema.js';
+
+export type VNSChangeType = Exclude<VNSOperationType, 'resolve'>;
+
+/**
+ * A change to a stored name
+ */
+export interface VNSChangeEvent {
+  type: VNSChangeType;
+  name: string;
+  owner: string; // Holder after the change
+  previousOwner?: string; // Holder before a transfer
+  cid: string; // Entry CID after the change
+  version: number;
+  records: VNSRecord[]; // Empty once expired
+  expires: number;
+  hlc?: VNSHybridTimestamp;
+  timestamp: number; // When this node saw the change
+}
+
+/**
+ * Which changes a subscriber receives (all of them when empty)
+ */
+export interface VNSChangeFilter {
+  names?: string[]; // Exact names
+  owner?: string; // Holder before or after the change
+}
+
+export type VNSChangeListener = (event: VNSChangeEvent) => void;
+
+/**
+ * Classify the change from one stored entry to the next (null if nothing a subscriber sees changed)
+ */
+export function describeChange(previous: VNSNamespaceEntry | undefined, entry: VNSNamespaceEntry): VNSChangeEvent | null {
+  if (previous && previous.cid === entry.cid) {
+    return null;
+  }
+  if (entry.tombstone && previous?.tombstone) {
+    return null;
+  }
+
+  const owner = getEntryOwnership(entry).owner;
+  const previousOwner = previous && !previous.tombstone ? getEntryOwnership(previous).owner : undefined;
+  let type: VNSChangeType;
+  if (entry.tombstone) {
+    type = 'expire';
+  } else if (!previous || previous.tombstone || previous.registration.timestamp !== entry.registration.timestamp) {
+    type = 'register';
+  } else if ((entry.transfers?.length || 0) > (previous.transfers?.length || 0)) {
+    type = 'transfer';
+  } else if ((entry.rotations?.length || 0) > (previous.rotations?.length || 0)) {
+    type = 'rotate';
+  } else if (getEntryExpires(entry) !== getEntryExpires(previous) && entry.update?.timestamp === previous.update?.timestamp) {
+    type = 'renew';
+  } else {
+    type = 'update';
+  }
+
+  return {
+    type,
+    name: entry.name,
+    owner,
+    ...(type === 'transfer' && previousOwner !== owner ? { previousOwner } : {}),
+    cid: entry.cid,
+    version: entry.version,
+    records: entry.tombstone ? [] : getEntryRecords(entry),
+    expires: getEntryExpires(entry),
+    hlc: entry.hlc,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Whether an event passes a subscriber's filter
+ */
+export function matchesChangeFilter(filter: VNSChangeFilter, event: VNSChangeEvent): boolean {
+  if (filter.names && filter.names.length > 0 && !filter.names.map(normalizeVNSName).includes(event.name)) {
+    return false;
+  }
+  if (filter.owner && filter.owner !== event.owner && filter.owner !== event.previousOwner) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Fan-out of change events to filtered listeners
+ */
+export class VNSChangeFeed {
+  private listeners: Set<{ filter: VNSChangeFilter; listener: VNSChangeListener }> = new Set();
+
+  /**
+   * Receive matching changes until the returned function is called
+   */
+  subscribe(filter: VNSChangeFilter, listener: VNSChangeListener): () => void {
+    const subscription = { filter, listener };
+    this.listeners.add(subscription);
+    return () => {
+      this.listeners.delete(subscription);
+    };
+  }
+
+  /**
+   * Deliver an event to every matching listener
+   */
+  publish(event: VNSChangeEvent): void {
+    for (const { filter, listener } of Array.from(this.listeners)) {
+      if (!matchesChangeFilter(filter, event)) {
+        continue;
+      }
+      try {
+        listener(event);
+      } catch (e) {
+        console.warn('[VNS] Change listener failed:', e instanceof Error ? e.message : e);
+      }
+    }
+  }
+
+  /**
+   * Number of active subscriptions
+   */
+  size(): number {
+    return this.listeners.size;
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * VNS Delta Guard
+ *
+ * Relayed deltas travel in an envelope signed by the node that sent them:
+ *
+ * - `peerId`, `sequence`, `timestamp`, `publicKey` and `signature` sit next to
+ *   the entry; the signature covers them together with the delta type, the
+ *   entry name and CID, the merkle root and the sender's HLC
+ * - each origin numbers its deltas 1, 2, 3, ... and a receiver only accepts a
+ *   sequence above the last one it accepted from that origin, so a captured
+ *   delta cannot be played again (out-of-order copies are dropped too; the
+ *   reconciler repairs anything they carried). A sequence is only used up once
+ *   the entry it carries passed validation (see accept)
+ * - envelopes older than VNS_CONFIG.DELTA_MAX_AGE_MS, or further ahead than
+ *   VNS_CONFIG.MAX_CLOCK_DRIFT, are stale
+ * - `publicKey` must be the Ed25519 key `peerId` was derived from, so only the
+ *   origin node can sign for its peer ID (see peerIdKeyPems)
+ *
+ * Independently of who relays it, an entry CID that was already processed is
+ * dropped before validation (bounded cache of DELTA_DEDUP_CACHE_SIZE CIDs), so
+ * an old state re-wrapped in a fresh envelope neither rolls a name back nor
+ * charges the owner's rate limit again.
+ *
+ * With a file path the local sequence, the origins and the processed CIDs are
+ * saved, so a restarted node keeps numbering where it stopped and does not
+ * reopen the replay window. Each sealed sequence is written at once (it must
+ * never be reused); received origins and CIDs are batched into one write per
+ * VNS_CONFIG.STATE_SAVE_DELAY_MS (see flush):
+ *
+ *   { "version": 1, "sequence": 42, "origins": { "<peerId>": { publicKey, sequence, lastSeen } }, "seen": { "<cid>": processedAt } }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { VNS_CONFIG, VNSHybridTimestamp } from '../types/vns-schema.js';
+import { signData, verifySignature, publicKeyMatchesPeerId } from '../identity.js';
+
+/**
+ * The parts of a delta covered by its envelope
+ */
+export interface VNSDeltaEnvelope {
+  type: string;
+  entry: { name: string; cid: string };
+  merkleRoot: string;
+  peerId: string; // Origin node
+  timestamp: number; // When the origin sent the delta
+  hlc?: VNSHybridTimestamp;
+  sequence?: number; // Per-origin sequence number
+  publicKey?: string; // Origin node key
+  signature?: string; // Origin node signature (see serializeDeltaForSigning)
+}
+
+/**
+ * Key and sequence last accepted from an origin node
+ */
+interface VNSDeltaOrigin {
+  publicKey: string;
+  sequence: number;
+  lastSeen: number;
+}
+
+/**
+ * Canonical string an origin signs for a delta
+ */
+export function serializeDeltaForSigning(delta: VNSDeltaEnvelope): string {
+  return JSON.stringify({
+    type: delta.type,
+    name: delta.entry.name,
+    cid: delta.entry.cid,
+    merkleRoot: delta.merkleRoot,
+    peerId: delta.peerId,
+    sequence: delta.sequence,
+    timestamp: delta.timestamp,
+    hlc: delta.hlc ? { wall: delta.hlc.wall, counter: delta.hlc.counter } : null
+  });
+}
+
+/**
+ * Signs outgoing deltas and screens incoming ones for replays
+ */
+export class VNSDeltaGuard {
+  private filePath: string | null;
+  private sequence = 0;
+  private origins: Map<string, VNSDeltaOrigin> = new Map();
+  private seen: Map<string, number> = new Map(); // entry CID -> time processed (oldest first)
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  /**
+   * Stamp a delta with the next local sequence number and sign it
+   */
+  seal<T extends VNSDeltaEnvelope>(delta: T, identity: { signingKeyPem: string; publicKeyPem: string }): T {
+    this.sequence++;
+    this.save();
+
+    delta.sequence = this.sequence;
+    delta.timestamp = Date.now();
+    delta.publicKey = identity.publicKeyPem;
+    delta.signature = signData(identity.signingKeyPem, serializeDeltaForSigning(delta));
+    return delta;
+  }
+
+  /**
+   * Check the envelope of an incoming delta
+   * Nothing is recorded: call accept once the entry it carries is valid too
+   */
+  verify(delta: VNSDeltaEnvelope): { valid: boolean; error?: string } {
+    if (!delta.signature || !delta.publicKey || !Number.isInteger(delta.sequence) || delta.sequence! < 1) {
+      return { valid: false, error: 'Delta is not signed by its origin' };
+    }
+
+    const now = Date.now();
+    if (typeof delta.timestamp !== 'number' || delta.timestamp < now - VNS_CONFIG.DELTA_MAX_AGE_MS) {
+      return { valid: false, error: 'Delta is stale' };
+    }
+    if (delta.timestamp > now + VNS_CONFIG.MAX_CLOCK_DRIFT) {
+      return { valid: false, error: 'Delta timestamp is ahead of the local clock' };
+    }
+
+    if (!publicKeyMatchesPeerId(delta.publicKey, delta.peerId)) {
+      return { valid: false, error: `Delta is signed with a key that does not belong to ${delta.peerId.slice(0, 16)}...` };
+    }
+
+    const origin = this.origins.get(delta.peerId);
+    if (origin && delta.sequence! <= origin.sequence) {
+      return { valid: false, error: `Delta replays sequence ${delta.sequence} (last accepted ${origin.sequence})` };
+    }
+
+    let signed = false;
+    try {
+      signed = verifySignature(delta.publicKey, serializeDeltaForSigning(delta), delta.signature);
+    } catch (e) {
+      signed = false;
+    }
+    if (!signed) {
+      return { valid: false, error: 'Invalid delta signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Use up the sequence number of a verified delta
+   */
+  accept(delta: VNSDeltaEnvelope): void {
+    const origin = this.origins.get(delta.peerId);
+    if (origin && delta.sequence! <= origin.sequence) {
+      return;
+    }
+    this.origins.set(delta.peerId, { publicKey: delta.publicKey!, sequence: delta.sequence!, lastSeen: Date.now() });
+    this.scheduleSave();
+  }
+
+  /**
+   * Whether an entry CID was already processed
+   */
+  isDuplicate(cid: string): boolean {
+    return this.seen.has(cid);
+  }
+
+  /**
+   * Record a processed entry CID (evicts the oldest once the cache is full)
+   */
+  remember(cid: string): void {
+    this.seen.delete(cid);
+    this.seen.set(cid, Date.now());
+    while (this.seen.size > VNS_CONFIG.DELTA_DEDUP_CACHE_SIZE) {
+      this.seen.delete(this.seen.keys().next().value!);
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Last sequence number this node sent
+   */
+  getSequence(): number {
+    return this.sequence;
+  }
+
+  /**
+   * Write changes still waiting for their batched save (call before shutdown)
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      this.save();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.flush(), VNS_CONFIG.STATE_SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (Number.isInteger(data?.sequence)) {
+        this.sequence = data.sequence;
+      }
+      for (const [peerId, origin] of Object.entries<any>(data?.origins || {})) {
+        if (origin && typeof origin.publicKey === 'string' && Number.isInteger(origin.sequence)) {
+          this.origins.set(peerId, { publicKey: origin.publicKey, sequence: origin.sequence, lastSeen: origin.lastSeen || 0 });
+        }
+      }
+      // Saved oldest first, so the eviction order survives too
+      for (const [cid, processedAt] of Object.entries<any>(data?.seen || {}).slice(-VNS_CONFIG.DELTA_DEDUP_CACHE_SIZE)) {
+        if (typeof processedAt === 'number') {
+          this.seen.set(cid, processedAt);
+        }
+      }
+    } catch (e) {
+      // Losing the counters only re-opens the freshness window, which still bounds replays
+      console.warn('[VNS] Delta state file is unreadable, ignoring:', e instanceof Error ? e.message : e);
+    }
+  }
+
+  /**
+   * Written to a temp file and renamed so a crash never leaves a partial file
+   */
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.filePath) {
+      return;
+    }
+
+    const data = {
+      version: 1,
+      sequence: this.sequence,
+      origins: Object.fromEntries(this.origins),
+      seen: Object.fromEntries(this.seen)
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
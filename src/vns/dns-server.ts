@@ -0,0 +1,641 @@
+/**
+ * VNS DNS Server
+ *
+ * Optional UDP/TCP DNS listener that answers `*.vfs` queries from the
+ * namespace store, so browsers and services can use VNS names directly:
+ *
+ *   dig @127.0.0.1 -p 5353 myproject.vfs A
+ *
+ * - A, AAAA, TXT, CNAME, SRV and MX questions are answered from VNS records
+ * - VNS-only records are served as TXT: FS/CONTENT as `dnslink=`, PEER as
+ *   `dnsaddr=`, SYNC/DELEGATE/PRIMARY as `vns-sync=` / `vns-delegate=` / `vns-primary=`
+ * - CNAME records are followed (loops answer SERVFAIL)
+ * - Unknown or expired names answer NXDOMAIN
+ * - Record TTLs are passed through (default VNS_CONFIG.TTL_DEFAULT)
+ * - Other names are forwarded to an upstream resolver if configured, else REFUSED
+ *
+ * Query answering lives in VNSDNSResolver so the DNS-over-HTTPS endpoint
+ * (/dns-query) shares it with the UDP/TCP listener.
+ */
+
+import dgram from 'dgram';
+import net from 'net';
+import type { VNSNamespaceStore } from './namespace-store.js';
+import { VNS_CONFIG, VNSRecord, normalizeVNSName } from '../types/vns-schema.js';
+
+export const DNS_TYPE = {
+  A: 1,
+  CNAME: 5,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  SRV: 33
+} as const;
+
+export const DNS_RCODE = {
+  NOERROR: 0,
+  FORMERR: 1,
+  SERVFAIL: 2,
+  NXDOMAIN: 3,
+  NOTIMP: 4,
+  REFUSED: 5
+} as const;
+
+const CLASS_IN = 1;
+const UDP_MAX_SIZE = 512;
+
+/**
+ * DNS type a VNS record is served as (VNS-only types are served as TXT)
+ */
+function dnsTypeOf(record: VNSRecord): number {
+  switch (record.type) {
+    case 'A': return DNS_TYPE.A;
+    case 'AAAA': return DNS_TYPE.AAAA;
+    case 'CNAME': return DNS_TYPE.CNAME;
+    case 'SRV': return DNS_TYPE.SRV;
+    case 'MX': return DNS_TYPE.MX;
+    default: return DNS_TYPE.TXT;
+  }
+}
+
+/**
+ * TXT text for a record served as TXT
+ */
+function recordText(record: VNSRecord): string {
+  switch (record.type) {
+    case 'FS':
+      return `dnslink=${record.value.startsWith('/') ? record.value : `/ipfs/${record.value}`}`;
+    case 'CONTENT':
+      return `dnslink=${record.value.replace(/^(ipfs|ipns):\/\//, '/$1/')}`;
+    case 'PEER':
+      return `dnsaddr=${record.value}`;
+    case 'SYNC':
+      return `vns-sync=${record.value}`;
+    case 'DELEGATE':
+      return `vns-delegate=${record.value}`;
+    case 'PRIMARY':
+      return `vns-primary=${record.value}`;
+    default:
+      return record.value;
+  }
+}
+
+export interface DNSQuestion {
+  name: string;
+  type: number;
+  class: number;
+}
+
+export interface DNSAnswer {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  data: Buffer;
+  // Presentation form of the data (set when decoding)
+  text?: string;
+}
+
+export interface DNSMessage {
+  id: number;
+  flags: number;
+  rcode: number;
+  questions: DNSQuestion[];
+  answers: DNSAnswer[];
+}
+
+export interface VNSDNSResolverOptions {
+  // Upstream resolver for non-.vfs names ("host" or "host:port"); omit to refuse them
+  upstream?: string | null;
+  upstreamTimeoutMs?: number;
+}
+
+export interface VNSDNSServerOptions extends VNSDNSResolverOptions {
+  port: number;
+  host?: string;
+}
+
+/**
+ * Read a (possibly compressed) domain name starting at offset
+ */
+function readName(buf: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let next = -1;
+  let jumps = 0;
+
+  for (;;) {
+    if (offset >= buf.length) throw new Error('Name runs past end of message');
+    const len = buf[offset];
+
+    if ((len & 0xc0) === 0xc0) {
+      if (++jumps > 16) throw new Error('Too many compression pointers');
+      if (next < 0) next = offset + 2;
+      offset = buf.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+
+    if (len === 0) {
+      return { name: labels.join('.'), next: next < 0 ? offset + 1 : next };
+    }
+
+    labels.push(buf.toString('ascii', offset + 1, offset + 1 + len));
+    offset += len + 1;
+  }
+}
+
+/**
+ * Encode a domain name as uncompressed labels
+ */
+function encodeName(name: string): Buffer {
+  const parts = name.replace(/\.$/, '').split('.').filter(Boolean);
+  const chunks = parts.map(label => {
+    const bytes = Buffer.from(label, 'ascii');
+    if (bytes.length > 63) throw new Error(`Label too long: ${label}`);
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...chunks, Buffer.from([0])]);
+}
+
+/**
+ * Encode an IPv6 address (handles :: compression and embedded IPv4)
+ */
+function encodeIPv6(address: string): Buffer {
+  let [head, tail] = address.includes('::') ? address.split('::') : [address, null];
+  const toGroups = (part: string | null): string[] => {
+    if (!part) return [];
+    const groups = part.split(':');
+    const last = groups[groups.length - 1];
+    if (last.includes('.')) {
+      const v4 = last.split('.').map(n => parseInt(n, 10));
+      groups.splice(-1, 1, ((v4[0] << 8) | v4[1]).toString(16), ((v4[2] << 8) | v4[3]).toString(16));
+    }
+    return groups;
+  };
+
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const fill = tail === null ? [] : new Array(8 - headGroups.length - tailGroups.length).fill('0');
+  const buf = Buffer.alloc(16);
+  [...headGroups, ...fill, ...tailGroups].forEach((g, i) => buf.writeUInt16BE(parseInt(g, 16), i * 2));
+  return buf;
+}
+
+/**
+ * Encode record data for a VNS record
+ */
+function encodeRecordData(record: VNSRecord): Buffer {
+  switch (record.type) {
+    case 'A':
+      return Buffer.from(record.value.split('.').map(n => parseInt(n, 10)));
+
+    case 'AAAA':
+      return encodeIPv6(record.value);
+
+    case 'CNAME':
+      return encodeName(record.value);
+
+    case 'SRV': {
+      const [priority, weight, port, target] = record.value.split(' ');
+      const header = Buffer.alloc(6);
+      header.writeUInt16BE(parseInt(priority, 10), 0);
+      header.writeUInt16BE(parseInt(weight, 10), 2);
+      header.writeUInt16BE(parseInt(port, 10), 4);
+      return Buffer.concat([header, encodeName(target)]);
+    }
+
+    case 'MX': {
+      const [priority, target] = record.value.split(' ');
+      const header = Buffer.alloc(2);
+      header.writeUInt16BE(parseInt(priority, 10), 0);
+      return Buffer.concat([header, encodeName(target)]);
+    }
+
+    default: {
+      // Character strings are limited to 255 bytes each
+      const bytes = Buffer.from(recordText(record), 'utf8');
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < bytes.length || i === 0; i += 255) {
+        const chunk = bytes.subarray(i, i + 255);
+        chunks.push(Buffer.from([chunk.length]), chunk);
+      }
+      return Buffer.concat(chunks);
+    }
+  }
+}
+
+/**
+ * Presentation form of record data at offset (names may be compressed)
+ */
+function formatRecordData(buf: Buffer, offset: number, type: number, length: number): string {
+  const data = buf.subarray(offset, offset + length);
+  switch (type) {
+    case DNS_TYPE.A:
+      return [...data].join('.');
+
+    case DNS_TYPE.AAAA: {
+      const groups: string[] = [];
+      for (let i = 0; i < 16; i += 2) groups.push(data.readUInt16BE(i).toString(16));
+      // The URL parser yields the canonical (RFC 5952) form
+      return new URL(`http://[${groups.join(':')}]`).hostname.slice(1, -1);
+    }
+
+    case DNS_TYPE.CNAME:
+      return `${readName(buf, offset).name}.`;
+
+    case DNS_TYPE.SRV:
+      return `${data.readUInt16BE(0)} ${data.readUInt16BE(2)} ${data.readUInt16BE(4)} ${readName(buf, offset + 6).name}.`;
+
+    case DNS_TYPE.MX:
+      return `${data.readUInt16BE(0)} ${readName(buf, offset + 2).name}.`;
+
+    case DNS_TYPE.TXT: {
+      const strings: string[] = [];
+      for (let i = 0; i < data.length; i += data[i] + 1) {
+        strings.push(data.toString('utf8', i + 1, i + 1 + data[i]));
+      }
+      return strings.map(str => JSON.stringify(str)).join(' ');
+    }
+
+    default:
+      return `\\# ${length} ${data.toString('hex')}`;
+  }
+}
+
+/**
+ * Decode a DNS message (header, questions and answers)
+ */
+export function decodeDNSMessage(buf: Buffer): DNSMessage {
+  if (buf.length < 12) throw new Error('Message shorter than header');
+
+  const id = buf.readUInt16BE(0);
+  const flags = buf.readUInt16BE(2);
+  const qdcount = buf.readUInt16BE(4);
+  const ancount = buf.readUInt16BE(6);
+  let offset = 12;
+
+  const questions: DNSQuestion[] = [];
+  for (let i = 0; i < qdcount; i++) {
+    const { name, next } = readName(buf, offset);
+    if (next + 4 > buf.length) throw new Error('Truncated question');
+    questions.push({ name, type: buf.readUInt16BE(next), class: buf.readUInt16BE(next + 2) });
+    offset = next + 4;
+  }
+
+  const answers: DNSAnswer[] = [];
+  for (let i = 0; i < ancount; i++) {
+    const { name, next } = readName(buf, offset);
+    if (next + 10 > buf.length) throw new Error('Truncated answer');
+    const type = buf.readUInt16BE(next);
+    const length = buf.readUInt16BE(next + 8);
+    answers.push({
+      name,
+      type,
+      class: buf.readUInt16BE(next + 2),
+      ttl: buf.readUInt32BE(next + 4),
+      data: buf.subarray(next + 10, next + 10 + length),
+      text: formatRecordData(buf, next + 10, type, length)
+    });
+    offset = next + 10 + length;
+  }
+
+  return { id, flags, rcode: flags & 0x0f, questions, answers };
+}
+
+/**
+ * Encode a DNS query for a single question (recursion desired)
+ */
+export function encodeDNSQuery(name: string, type: number, id = Math.floor(Math.random() * 0xffff)): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2);
+  header.writeUInt16BE(1, 4);
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(CLASS_IN, 2);
+  return Buffer.concat([header, encodeName(name), question]);
+}
+
+/**
+ * Encode a response to a query
+ */
+function encodeResponse(
+  query: { id: number; flags: number; question?: DNSQuestion },
+  rcode: number,
+  answers: DNSAnswer[] = [],
+  truncated = false
+): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(query.id, 0);
+  // QR + opcode + AA (authoritative for .vfs) + TC + RD copied from query + RCODE
+  const rd = query.flags & 0x0100;
+  const flags = 0x8000 | (query.flags & 0x7800) | 0x0400 | (truncated ? 0x0200 : 0) | rd | rcode;
+  header.writeUInt16BE(flags, 2);
+  header.writeUInt16BE(query.question ? 1 : 0, 4);
+  header.writeUInt16BE(truncated ? 0 : answers.length, 6);
+
+  const parts: Buffer[] = [header];
+  if (query.question) {
+    const q = Buffer.alloc(4);
+    q.writeUInt16BE(query.question.type, 0);
+    q.writeUInt16BE(query.question.class, 2);
+    parts.push(encodeName(query.question.name), q);
+  }
+
+  if (!truncated) {
+    for (const answer of answers) {
+      const meta = Buffer.alloc(10);
+      meta.writeUInt16BE(answer.type, 0);
+      meta.writeUInt16BE(answer.class, 2);
+      meta.writeUInt32BE(answer.ttl, 4);
+      meta.writeUInt16BE(answer.data.length, 8);
+      parts.push(encodeName(answer.name), meta, answer.data);
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Convert a decoded response to the JSON format (application/dns-json)
+ */
+export function toDNSJSON(message: DNSMessage): any {
+  const fqdn = (name: string) => `${name}.`;
+  return {
+    Status: message.rcode,
+    TC: !!(message.flags & 0x0200),
+    RD: !!(message.flags & 0x0100),
+    RA: !!(message.flags & 0x0080),
+    AD: false,
+    CD: false,
+    Question: message.questions.map(q => ({ name: fqdn(q.name), type: q.type })),
+    Answer: message.answers.map(a => ({ name: fqdn(a.name), type: a.type, TTL: a.ttl, data: a.text }))
+  };
+}
+
+/**
+ * Parse a query type given by name ("AAAA") or number ("28")
+ */
+export function parseDNSType(type: string | null): number | null {
+  if (!type) return DNS_TYPE.A;
+  if (/^\d+$/.test(type)) {
+    const value = parseInt(type, 10);
+    return value > 0 && value <= 0xffff ? value : null;
+  }
+  return (DNS_TYPE as Record<string, number>)[type.toUpperCase()] ?? null;
+}
+
+/**
+ * VNS DNS Resolver
+ * Answers wire-format queries from the namespace store (shared by UDP/TCP and DoH)
+ */
+export class VNSDNSResolver {
+  private store: VNSNamespaceStore;
+  private upstream: { host: string; port: number } | null;
+  private upstreamTimeoutMs: number;
+
+  constructor(store: VNSNamespaceStore, options: VNSDNSResolverOptions = {}) {
+    this.store = store;
+    this.upstreamTimeoutMs = options.upstreamTimeoutMs ?? 3000;
+
+    if (options.upstream) {
+      const [host, port] = options.upstream.split(':');
+      this.upstream = { host, port: port ? parseInt(port, 10) : 53 };
+    } else {
+      this.upstream = null;
+    }
+  }
+
+  /**
+   * Get the upstream resolver label (null if not forwarding)
+   */
+  getUpstream(): string | null {
+    return this.upstream ? `${this.upstream.host}:${this.upstream.port}` : null;
+  }
+
+  /**
+   * Answer a wire-format query
+   * `maxSize` limits the response (UDP); larger answers are sent truncated
+   */
+  async handleQuery(msg: Buffer, maxSize = Infinity): Promise<Buffer | null> {
+    let query: DNSMessage;
+    try {
+      query = decodeDNSMessage(msg);
+    } catch (e) {
+      if (msg.length < 4) return null;
+      return encodeResponse({ id: msg.readUInt16BE(0), flags: msg.readUInt16BE(2) }, DNS_RCODE.FORMERR);
+    }
+
+    const question = query.questions[0];
+    const opcode = (query.flags >> 11) & 0x0f;
+    if ((query.flags & 0x8000) || !question) {
+      return encodeResponse({ ...query, question }, DNS_RCODE.FORMERR);
+    }
+    if (opcode !== 0 || query.questions.length !== 1) {
+      return encodeResponse({ ...query, question }, DNS_RCODE.NOTIMP);
+    }
+
+    const name = question.name.toLowerCase().replace(/\.$/, '');
+    if (!name.endsWith(VNS_CONFIG.TLD)) {
+      if (!this.upstream) {
+        return encodeResponse({ ...query, question }, DNS_RCODE.REFUSED);
+      }
+      try {
+        return await this.forward(msg);
+      } catch (e) {
+        console.warn(`[VNS DNS] Upstream query for ${name} failed:`, e instanceof Error ? e.message : e);
+        return encodeResponse({ ...query, question }, DNS_RCODE.SERVFAIL);
+      }
+    }
+
+    try {
+      const { rcode, answers } = await this.answer(name, question.type);
+      const response = encodeResponse({ ...query, question }, rcode, answers);
+      return response.length > maxSize
+        ? encodeResponse({ ...query, question }, rcode, answers, true)
+        : response;
+    } catch (e) {
+      console.warn(`[VNS DNS] Failed to answer ${name}:`, e instanceof Error ? e.message : e);
+      return encodeResponse({ ...query, question }, DNS_RCODE.SERVFAIL);
+    }
+  }
+
+  /**
+   * Build answers for a .vfs question, following CNAMEs
+   */
+  private async answer(name: string, qtype: number): Promise<{ rcode: number; answers: DNSAnswer[] }> {
+    const answers: DNSAnswer[] = [];
+    const visited = new Set<string>();
+    let current = normalizeVNSName(name);
+
+    for (let hop = 0; hop <= VNS_CONFIG.MAX_ALIAS_DEPTH; hop++) {
+      if (visited.has(current)) {
+        return { rcode: DNS_RCODE.SERVFAIL, answers: [] };
+      }
+      visited.add(current);
+
+      const result = await this.store.resolve(current);
+      if (!result.found) {
+        // NXDOMAIN only for the queried name; a dangling alias still returns the CNAME
+        return { rcode: hop === 0 ? DNS_RCODE.NXDOMAIN : DNS_RCODE.NOERROR, answers };
+      }
+
+      const records = result.records || [];
+      const alias = records.find(r => r.type === 'CNAME');
+      if (alias && qtype !== DNS_TYPE.CNAME) {
+        answers.push(this.toAnswer(current, alias));
+        current = normalizeVNSName(alias.value);
+        continue;
+      }
+
+      for (const record of records) {
+        if (dnsTypeOf(record) === qtype) {
+          answers.push(this.toAnswer(current, record));
+        }
+      }
+      return { rcode: DNS_RCODE.NOERROR, answers };
+    }
+
+    return { rcode: DNS_RCODE.SERVFAIL, answers: [] };
+  }
+
+  private toAnswer(name: string, record: VNSRecord): DNSAnswer {
+    return {
+      name,
+      type: dnsTypeOf(record),
+      class: CLASS_IN,
+      ttl: record.ttl ?? VNS_CONFIG.TTL_DEFAULT,
+      data: encodeRecordData(record)
+    };
+  }
+
+  /**
+   * Relay a raw query to the upstream resolver over UDP
+   */
+  private forward(msg: Buffer): Promise<Buffer> {
+    const upstream = this.upstream!;
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIPv6(upstream.host) ? 'udp6' : 'udp4');
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error(`timed out after ${this.upstreamTimeoutMs}ms`));
+      }, this.upstreamTimeoutMs);
+
+      socket.once('message', (response) => {
+        clearTimeout(timer);
+        socket.close();
+        resolve(response);
+      });
+      socket.once('error', (e) => {
+        clearTimeout(timer);
+        socket.close();
+        reject(e);
+      });
+      socket.send(msg, upstream.port, upstream.host);
+    });
+  }
+}
+
+/**
+ * VNS DNS Server
+ */
+export class VNSDNSServer {
+  private resolver: VNSDNSResolver;
+  private port: number;
+  private host: string;
+  private udp: dgram.Socket | null = null;
+  private tcp: net.Server | null = null;
+
+  constructor(store: VNSNamespaceStore, options: VNSDNSServerOptions) {
+    this.resolver = new VNSDNSResolver(store, options);
+    this.port = options.port;
+    this.host = options.host ?? '127.0.0.1';
+  }
+
+  /**
+   * Start UDP and TCP listeners on the same port
+   */
+  async start(): Promise<void> {
+    if (this.udp) return;
+
+    const udp = dgram.createSocket(this.host.includes(':') ? 'udp6' : 'udp4');
+    udp.on('message', async (msg, rinfo) => {
+      const response = await this.resolver.handleQuery(msg, UDP_MAX_SIZE);
+      if (response) {
+        udp.send(response, rinfo.port, rinfo.address);
+      }
+    });
+    udp.on('error', (e) => console.warn('[VNS DNS] UDP error:', e.message));
+
+    await new Promise<void>((resolve, reject) => {
+      udp.once('error', reject);
+      udp.bind(this.port, this.host, () => {
+        udp.off('error', reject);
+        resolve();
+      });
+    });
+    this.udp = udp;
+    // Port 0 picks a free port; TCP shares whatever UDP got
+    this.port = udp.address().port;
+
+    const tcp = net.createServer((socket) => this.handleTCPConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      tcp.once('error', reject);
+      tcp.listen(this.port, this.host, () => {
+        tcp.off('error', reject);
+        resolve();
+      });
+    });
+    this.tcp = tcp;
+
+    const upstream = this.resolver.getUpstream();
+    console.log(`[VNS DNS] Listening on ${this.host}:${this.port} (udp/tcp)${upstream ? `, forwarding to ${upstream}` : ''}`);
+  }
+
+  /**
+   * Stop both listeners
+   */
+  async stop(): Promise<void> {
+    if (this.udp) {
+      await new Promise<void>((resolve) => this.udp!.close(() => resolve()));
+      this.udp = null;
+    }
+    if (this.tcp) {
+      await new Promise<void>((resolve) => this.tcp!.close(() => resolve()));
+      this.tcp = null;
+    }
+  }
+
+  /**
+   * Get the bound port (useful when started on port 0)
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Serve length-prefixed queries on a TCP connection
+   */
+  private handleTCPConnection(socket: net.Socket): void {
+    let pending = Buffer.alloc(0);
+    socket.setTimeout(10000, () => socket.destroy());
+    socket.on('error', () => socket.destroy());
+
+    socket.on('data', async (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= 2) {
+        const length = pending.readUInt16BE(0);
+        if (pending.length < length + 2) break;
+
+        const msg = pending.subarray(2, length + 2);
+        pending = pending.subarray(length + 2);
+
+        const response = await this.resolver.handleQuery(msg);
+        if (response && !socket.destroyed) {
+          const prefix = Buffer.alloc(2);
+          prefix.writeUInt16BE(response.length, 0);
+          socket.write(Buffer.concat([prefix, response]));
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * VNS Friendly Names
+ *
+ * Turns peer IDs and IP addresses into the primary names their owners claimed
+ * (PRIMARY records, see VNSNamespaceStore.reverseResolve) for logs, status
+ * output and heartbeats. A peer ID only gets a name the peer holds itself, so
+ * nobody can label another node. The node registers its namespace store once
+ * VNS is up; until then, or without VNS, every lookup falls back to a shortened ID.
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import type { VNSReverseResolution } from '../types/vns-schema.js';
+
+/**
+ * Anything that can reverse-resolve a subject (the namespace store)
+ */
+export interface VNSFriendlyNameSource {
+  reverseResolve(subject: string): VNSReverseResolution;
+}
+
+let source: VNSFriendlyNameSource | null = null;
+
+/**
+ * Set (or clear) the store used for lookups
+ */
+export function setFriendlyNameSource(next: VNSFriendlyNameSource | null): void {
+  source = next;
+}
+
+/**
+ * Primary name of a peer ID (held by the peer itself) or IP address, or null if none is claimed
+ */
+export function lookupFriendlyName(subject: string): string | null {
+  if (!source || !subject) {
+    return null;
+  }
+  try {
+    const result = source.reverseResolve(subject);
+    if (!result.found || !result.name) {
+      return null;
+    }
+    const isAddress = isIPv4(result.subject) || isIPv6(result.subject);
+    return isAddress || result.selfClaimed ? result.name : null;
+  } catch (e) {
+    // A lookup failure must never break the log line it decorates
+    return null;
+  }
+}
+
+/**
+ * Shorten a long ID for display ("12D3KooW…x7Qp")
+ */
+export function shortId(id: string): string {
+  return id.length > 16 ? `${id.slice(0, 8)}…${id.slice(-4)}` : id;
+}
+
+/**
+ * Primary name of a subject, or its shortened ID
+ */
+export function friendlyName(subject: string): string {
+  return lookupFriendlyName(subject) || shortId(subject);
+}
+
+/**
+ * Primary name followed by the shortened ID ("alice.vfs (12D3KooW…x7Qp)"), or the shortened ID alone
+ */
+export function describePeer(subject: string): string {
+  const name = lookupFriendlyName(subject);
+  return name ? `${name} (${shortId(subject)})` : shortId(subject);
+}
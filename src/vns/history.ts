@@ -0,0 +1,196 @@
+/**
+ * VNS Name History
+ *
+ * The CID of a namespace entry commits to the name's signed state (registration
+ * plus latest renewal, update and transfer chain) and to the CID of the entry it
+ * replaced, so successive versions of a name form a content-addressed chain:
+ *
+ *   head -> { registration, ..., previous } -> { registration, ..., previous } -> ...
+ *
+ * Walking the chain from the head and comparing each state with its predecessor
+ * yields the registrations, updates, renewals, transfers, key rotations and
+ * expiries of a name
+ * (a tombstone is the last state of a removed name plus when and why it went).
+ * Anyone holding the blocks can check every link by re-hashing it.
+ */
+
+import { CID } from 'multiformats/cid';
+import * as sha from 'multiformats/hashes/sha2';
+import { bytes } from 'multiformats';
+import type {
+  VNSHistoryEvent,
+  VNSRegistration,
+  VNSRenewal,
+  VNSRecordUpdate,
+  VNSTransfer,
+  VNSKeyRotation,
+  VNSTombstone
+} from '../types/vns-schema.js';
+
+/**
+ * Signed state of a name as stored in an entry block
+ */
+export interface VNSEntryState {
+  registration: VNSRegistration;
+  renewal?: VNSRenewal;
+  update?: VNSRecordUpdate;
+  transfers?: VNSTransfer[];
+  rotations?: VNSKeyRotation[];
+  previous?: string;
+  tombstone?: VNSTombstone;
+}
+
+/**
+ * Serialize an entry state to its block bytes
+ * A bare registration (no amendments, no predecessor) is stored as-is
+ */
+export function serializeEntryState(state: VNSEntryState): Buffer {
+  const transfers = state.transfers && state.transfers.length > 0 ? state.transfers : undefined;
+  const rotations = state.rotations && state.rotations.length > 0 ? state.rotations : undefined;
+  if (!state.renewal && !state.update && !transfers && !rotations && !state.previous) {
+    return Buffer.from(JSON.stringify(state.registration), 'utf8');
+  }
+
+  // Fixed key order so any node rebuilds the same bytes (and CID)
+  return Buffer.from(JSON.stringify({
+    registration: state.registration,
+    renewal: state.renewal,
+    update: state.update,
+    transfers,
+    rotations,
+    previous: state.previous,
+    tombstone: state.tombstone
+  }), 'utf8');
+}
+
+/**
+ * Parse an entry state block
+ */
+export function parseEntryState(raw: Uint8Array): VNSEntryState {
+  const data = JSON.parse(Buffer.from(raw).toString('utf8'));
+  if (data && data.registration) {
+    return data;
+  }
+  if (data && typeof data.name === 'string' && typeof data.signature === 'string') {
+    return { registration: data };
+  }
+  throw new Error('Block is not a VNS entry state');
+}
+
+/**
+ * Check that block bytes hash to the given CID
+ */
+export async function blockMatchesCid(raw: Uint8Array, cid: string): Promise<boolean> {
+  try {
+    const digest = await sha.sha256.digest(bytes.coerce(raw));
+    return bytes.equals(CID.parse(cid).multihash.bytes, digest.bytes);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Expiry of a state (renewal overrides the registration)
+ */
+export function stateExpires(state: VNSEntryState): number {
+  return state.renewal ? state.renewal.expires : state.registration.expires;
+}
+
+/**
+ * Holder of a state (last transfer recipient, else the registrant)
+ */
+export function stateHolder(state: VNSEntryState): string {
+  const transfers = state.transfers || [];
+  return transfers.length > 0 ? transfers[transfers.length - 1].newOwner : state.registration.owner;
+}
+
+/**
+ * Describe the operation that turned `older` into `state`
+ * Without the predecessor block, the most recent signed amendment is assumed
+ */
+export function describeHistoryStep(
+  state: VNSEntryState,
+  older: VNSEntryState | null
+): Pick<VNSHistoryEvent, 'operation' | 'timestamp' | 'owner' | 'newOwner' | 'signatures' | 'reason'> {
+  const registration = state.registration;
+  const transfers = state.transfers || [];
+  const transfer = transfers[transfers.length - 1];
+  const rotations = state.rotations || [];
+  const rotation = rotations[rotations.length - 1];
+
+  const steps = {
+    register: () => ({
+      operation: 'register' as const,
+      timestamp: registration.timestamp,
+      owner: registration.owner,
+      signatures: [registration.signature]
+    }),
+    transfer: () => ({
+      operation: 'transfer' as const,
+      timestamp: transfer.timestamp,
+      owner: transfer.fromOwner,
+      newOwner: transfer.newOwner,
+      signatures: transfer.signatures.map(s => s.signature)
+    }),
+    rotate: () => ({
+      operation: 'rotate' as const,
+      timestamp: rotation.timestamp,
+      owner: rotation.owner,
+      signatures: [rotation.signature]
+    }),
+    update: () => ({
+      operation: 'update' as const,
+      timestamp: state.update!.timestamp,
+      owner: state.update!.owner,
+      signatures: [state.update!.signature]
+    }),
+    renew: () => ({
+      operation: 'renew' as const,
+      timestamp: state.renewal!.timestamp,
+      owner: state.renewal!.owner,
+      signatures: [state.renewal!.signature]
+    })
+  };
+
+  if (state.tombstone) {
+    return {
+      operation: 'expire',
+      timestamp: state.tombstone.removedAt,
+      owner: stateHolder(state),
+      signatures: [],
+      reason: state.tombstone.reason
+    };
+  }
+
+  if (!older) {
+    if (!state.previous) {
+      return steps.register();
+    }
+    const latest = [
+      transfer ? steps.transfer() : null,
+      rotation ? steps.rotate() : null,
+      state.update ? steps.update() : null,
+      state.renewal ? steps.renew() : null
+    ].filter(step => step !== null).sort((a, b) => b!.timestamp - a!.timestamp)[0];
+    return latest || steps.register();
+  }
+
+  if (older.registration.signature !== registration.signature) {
+    return steps.register();
+  }
+  if (transfers.length > (older.transfers || []).length) {
+    return steps.transfer();
+  }
+  if (rotations.length > (older.rotations || []).length) {
+    return steps.rotate();
+  }
+  if (state.update && state.update.signature !== older.update?.signature) {
+    return steps.update();
+  }
+  if (state.renewal && state.renewal.signature !== older.renewal?.signature) {
+    return steps.renew();
+  }
+
+  // Re-stored state with nothing new signed
+  return steps.register();
+}
@@ -0,0 +1,112 @@
+/**
+ * VNS Hybrid Logical Clock
+ *
+ * Entries and deltas are stamped with a hybrid logical clock (HLC) instead of
+ * the raw wall clock, so conflict resolution does not reward fast clocks:
+ *
+ * - `wall` tracks the largest physical time seen (local or received)
+ * - `counter` orders events that share the same `wall`
+ *
+ * A node stamps local changes with now() and merges every accepted remote stamp
+ * with observe(), so its next stamp is greater than anything it has seen.
+ * Stamps further ahead of the local clock than VNS_CONFIG.MAX_CLOCK_DRIFT are
+ * rejected rather than merged, which bounds how far one clock can drag the others.
+ *
+ * Versions are ordered by HLC, then by entry CID, so every node picks the same
+ * winner for concurrent writes.
+ */
+
+import { VNSHybridTimestamp, VNSNamespaceEntry, VNS_CONFIG } from '../types/vns-schema.js';
+
+/**
+ * Compare two HLC timestamps (negative if a is older)
+ */
+export function compareHLC(a: VNSHybridTimestamp, b: VNSHybridTimestamp): number {
+  return a.wall !== b.wall ? a.wall - b.wall : a.counter - b.counter;
+}
+
+/**
+ * HLC timestamp of an entry (entries written before HLCs fall back to lastModified)
+ */
+export function entryHLC(entry: Pick<VNSNamespaceEntry, 'hlc' | 'lastModified'>): VNSHybridTimestamp {
+  return entry.hlc || { wall: entry.lastModified, counter: 0 };
+}
+
+/**
+ * Order two versions of a name (negative if a loses to b, 0 if identical)
+ * Ties on the HLC break on the CID so every node picks the same winner
+ */
+export function compareEntryVersions(
+  a: Pick<VNSNamespaceEntry, 'hlc' | 'lastModified' | 'cid'>,
+  b: Pick<VNSNamespaceEntry, 'hlc' | 'lastModified' | 'cid'>
+): number {
+  const byClock = compareHLC(entryHLC(a), entryHLC(b));
+  if (byClock !== 0) {
+    return byClock;
+  }
+  return a.cid < b.cid ? -1 : a.cid > b.cid ? 1 : 0;
+}
+
+/**
+ * Format an HLC timestamp for logs
+ */
+export function formatHLC(ts: VNSHybridTimestamp): string {
+  return `${ts.wall}.${ts.counter}`;
+}
+
+/**
+ * Hybrid logical clock for one node
+ */
+export class HybridLogicalClock {
+  private last: VNSHybridTimestamp = { wall: 0, counter: 0 };
+  private physical: () => number;
+  private maxDrift: number;
+
+  constructor(physical: () => number = () => Date.now(), maxDrift: number = VNS_CONFIG.MAX_CLOCK_DRIFT) {
+    this.physical = physical;
+    this.maxDrift = maxDrift;
+  }
+
+  /**
+   * Timestamp a local event
+   */
+  now(): VNSHybridTimestamp {
+    const pt = this.physical();
+    this.last = pt > this.last.wall
+      ? { wall: pt, counter: 0 }
+      : { wall: this.last.wall, counter: this.last.counter + 1 };
+    return { ...this.last };
+  }
+
+  /**
+   * Merge a received timestamp so later local events order after it
+   */
+  observe(remote: VNSHybridTimestamp): void {
+    const pt = this.physical();
+    const wall = Math.max(pt, this.last.wall, remote.wall);
+    let counter = 0;
+    if (wall === this.last.wall && wall === remote.wall) {
+      counter = Math.max(this.last.counter, remote.counter) + 1;
+    } else if (wall === this.last.wall) {
+      counter = this.last.counter + 1;
+    } else if (wall === remote.wall) {
+      counter = remote.counter + 1;
+    }
+    this.last = { wall, counter };
+  }
+
+  /**
+   * Check a received timestamp against the local physical clock
+   */
+  validate(remote: VNSHybridTimestamp): { valid: boolean; error?: string } {
+    if (!remote || !Number.isSafeInteger(remote.wall) || !Number.isSafeInteger(remote.counter) ||
+        remote.wall < 0 || remote.counter < 0) {
+      return { valid: false, error: 'Malformed clock timestamp' };
+    }
+    const drift = remote.wall - this.physical();
+    if (drift > this.maxDrift) {
+      return { valid: false, error: `Timestamp is ${Math.round(drift / 1000)}s ahead of the local clock (max ${this.maxDrift / 1000}s)` };
+    }
+    return { valid: true };
+  }
+}
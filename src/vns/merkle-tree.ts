@@ -0,0 +1,248 @@
+/**
+ * VNS Merkle Tree
+ *
+ * Sparse Merkle tree (compressed binary trie) over the VNS namespace.
+ * Each leaf commits to a normalized name and its entry CID; the path of a
+ * leaf is the SHA-256 of the name, so every name has exactly one slot.
+ *
+ * Hashing:
+ * - empty subtree:  32 zero bytes
+ * - leaf:           sha256(0x00 || sha256(name) || sha256(cid))
+ * - branch:         sha256(0x01 || left || right)
+ * - a subtree holding a single leaf hashes to that leaf (no branch chain)
+ *
+ * Updates touch only the nodes on one root-to-leaf path, and proofs can show
+ * both inclusion and non-inclusion of a name against a trusted root.
+ */
+
+import crypto from 'crypto';
+import type { VNSMerkleProof } from '../types/vns-schema.js';
+
+const EMPTY_HASH = Buffer.alloc(32);
+const LEAF_PREFIX = Buffer.from([0x00]);
+const BRANCH_PREFIX = Buffer.from([0x01]);
+
+interface LeafNode {
+  kind: 'leaf';
+  keyHash: Buffer;
+  valueHash: Buffer;
+  hash: Buffer;
+}
+
+interface BranchNode {
+  kind: 'branch';
+  left: TreeNode | null;
+  right: TreeNode | null;
+  hash: Buffer;
+}
+
+type TreeNode = LeafNode | BranchNode;
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = crypto.createHash('sha256');
+  parts.forEach(p => hash.update(p));
+  return hash.digest();
+}
+
+/**
+ * Path key for a name (SHA-256 of the normalized name)
+ */
+function hashName(name: string): Buffer {
+  return sha256(Buffer.from(name, 'utf8'));
+}
+
+/**
+ * Bit at a given depth of a path key (0 = left, 1 = right)
+ */
+function bitAt(key: Buffer, depth: number): number {
+  return (key[depth >> 3] >> (7 - (depth & 7))) & 1;
+}
+
+function leafHash(keyHash: Buffer, valueHash: Buffer): Buffer {
+  return sha256(LEAF_PREFIX, keyHash, valueHash);
+}
+
+function branchHash(left: Buffer, right: Buffer): Buffer {
+  return sha256(BRANCH_PREFIX, left, right);
+}
+
+function hashOf(node: TreeNode | null): Buffer {
+  return node ? node.hash : EMPTY_HASH;
+}
+
+function makeLeaf(keyHash: Buffer, valueHash: Buffer): LeafNode {
+  return { kind: 'leaf', keyHash, valueHash, hash: leafHash(keyHash, valueHash) };
+}
+
+function makeBranch(left: TreeNode | null, right: TreeNode | null): BranchNode {
+  return { kind: 'branch', left, right, hash: branchHash(hashOf(left), hashOf(right)) };
+}
+
+/**
+ * Build the smallest subtree holding two leaves that share a prefix up to depth
+ */
+function split(a: LeafNode, b: LeafNode, depth: number): BranchNode {
+  const aBit = bitAt(a.keyHash, depth);
+  const bBit = bitAt(b.keyHash, depth);
+
+  if (aBit === bBit) {
+    const child = split(a, b, depth + 1);
+    return aBit ? makeBranch(null, child) : makeBranch(child, null);
+  }
+
+  return aBit ? makeBranch(b, a) : makeBranch(a, b);
+}
+
+function insert(node: TreeNode | null, leaf: LeafNode, depth: number): TreeNode {
+  if (!node) {
+    return leaf;
+  }
+
+  if (node.kind === 'leaf') {
+    return node.keyHash.equals(leaf.keyHash) ? leaf : split(node, leaf, depth);
+  }
+
+  return bitAt(leaf.keyHash, depth)
+    ? makeBranch(node.left, insert(node.right, leaf, depth + 1))
+    : makeBranch(insert(node.left, leaf, depth + 1), node.right);
+}
+
+function remove(node: TreeNode | null, keyHash: Buffer, depth: number): TreeNode | null {
+  if (!node) {
+    return null;
+  }
+
+  if (node.kind === 'leaf') {
+    return node.keyHash.equals(keyHash) ? null : node;
+  }
+
+  const goRight = bitAt(keyHash, depth);
+  const left = goRight ? node.left : remove(node.left, keyHash, depth + 1);
+  const right = goRight ? remove(node.right, keyHash, depth + 1) : node.right;
+
+  if (left === node.left && right === node.right) {
+    return node;
+  }
+
+  // Keep the tree canonical: a lone leaf moves up to replace its branch
+  if (!left && !right) return null;
+  if (!left && right.kind === 'leaf') return right;
+  if (!right && left.kind === 'leaf') return left;
+
+  return makeBranch(left, right);
+}
+
+/**
+ * VNS Merkle Tree
+ */
+export class VNSMerkleTree {
+  private rootNode: TreeNode | null = null;
+
+  /**
+   * Build a tree from a set of entries
+   */
+  static fromEntries(entries: Iterable<{ name: string; cid: string }>): VNSMerkleTree {
+    const tree = new VNSMerkleTree();
+    for (const entry of entries) {
+      tree.set(entry.name, entry.cid);
+    }
+    return tree;
+  }
+
+  /**
+   * Insert or replace the leaf for a name
+   */
+  set(name: string, cid: string): void {
+    const leaf = makeLeaf(hashName(name), sha256(Buffer.from(cid, 'utf8')));
+    this.rootNode = insert(this.rootNode, leaf, 0);
+  }
+
+  /**
+   * Remove the leaf for a name (no-op if absent)
+   */
+  delete(name: string): void {
+    this.rootNode = remove(this.rootNode, hashName(name), 0);
+  }
+
+  /**
+   * Get the root hash (hex)
+   */
+  getRoot(): string {
+    return hashOf(this.rootNode).toString('hex');
+  }
+
+  /**
+   * Produce an inclusion or non-inclusion proof for a name
+   */
+  prove(name: string): VNSMerkleProof {
+    const keyHash = hashName(name);
+    const siblings: string[] = [];
+    let node = this.rootNode;
+    let depth = 0;
+
+    while (node && node.kind === 'branch') {
+      const goRight = bitAt(keyHash, depth);
+      siblings.push(hashOf(goRight ? node.left : node.right).toString('hex'));
+      node = goRight ? node.right : node.left;
+      depth++;
+    }
+
+    const leaf = node as LeafNode | null;
+    return {
+      name,
+      root: this.getRoot(),
+      included: !!leaf && leaf.keyHash.equals(keyHash),
+      siblings,
+      leaf: leaf ? { keyHash: leaf.keyHash.toString('hex'), valueHash: leaf.valueHash.toString('hex') } : undefined
+    };
+  }
+}
+
+/**
+ * Verify a proof against a trusted root
+ * For inclusion proofs, pass the expected entry CID to check the leaf value too
+ */
+export function verifyMerkleProof(proof: VNSMerkleProof, trustedRoot: string, cid?: string): boolean {
+  if (proof.root !== trustedRoot) {
+    return false;
+  }
+
+  const keyHash = hashName(proof.name);
+  let node: Buffer;
+
+  if (proof.leaf) {
+    const leafKey = Buffer.from(proof.leaf.keyHash, 'hex');
+    if (leafKey.length !== 32) {
+      return false;
+    }
+
+    // The terminal leaf must sit on the name's path
+    for (let depth = 0; depth < proof.siblings.length; depth++) {
+      if (bitAt(leafKey, depth) !== bitAt(keyHash, depth)) {
+        return false;
+      }
+    }
+
+    const isSelf = leafKey.equals(keyHash);
+    if (proof.included !== isSelf) {
+      return false;
+    }
+    if (isSelf && cid !== undefined && proof.leaf.valueHash !== sha256(Buffer.from(cid, 'utf8')).toString('hex')) {
+      return false;
+    }
+
+    node = leafHash(leafKey, Buffer.from(proof.leaf.valueHash, 'hex'));
+  } else {
+    if (proof.included) {
+      return false;
+    }
+    node = EMPTY_HASH;
+  }
+
+  for (let depth = proof.siblings.length - 1; depth >= 0; depth--) {
+    const sibling = Buffer.from(proof.siblings[depth], 'hex');
+    node = bitAt(keyHash, depth) ? branchHash(sibling, node) : branchHash(node, sibling);
+  }
+
+  return node.toString('hex') === trustedRoot;
+}
@@ -3,10 +3,14 @@
  * 
  * Core storage and resolution engine for VNS names
  * Backed by FileBlockstore at /vns/root with in-memory caching
- * Uses Last-Write-Wins (LWW) for conflict resolution
+ * Persisted as a sharded tree of blocks, so a save rewrites only changed entries
+ * Uses Last-Write-Wins (LWW) on hybrid logical clocks for conflict resolution
  */
 
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { isIPv4, isIPv6 } from 'net';
 import type { Blockstore } from '../types.js';
 import type { VerimutLog } from '../log.js';
 import {
@@ -14,12 +18,52 @@ import {
   VNSNamespaceEntry,
   VNSResolutionResult,
   VNSLogEntry,
+  VNSMerkleProof,
+  VNSEntryDigest,
+  VNSRenewal,
+  VNSRecordUpdate,
+  VNSTransfer,
+  VNSKeyRotation,
+  VNSOwnership,
+  VNSHistory,
+  VNSHistoryEvent,
+  VNSTombstone,
+  VNSHybridTimestamp,
+  VNSPoWAlgorithm,
+  VNSStakeStatus,
+  VNSAntiSpamMode,
+  VNSRateLimitUsage,
+  VNSReverseResolution,
+  VNSListOptions,
+  VNSListResult,
+  VNSListedName,
   RESERVED_VNS_NAMES,
   VNS_CONFIG,
   validateVNSName,
-  normalizeVNSName
+  normalizeVNSName,
+  getEntryExpires,
+  getEntryRecords,
+  getEntryOwnership,
+  getEntryOwnershipAt,
+  getParentVNSName,
+  getPrimarySubjects,
+  normalizeReverseSubject
 } from '../types/vns-schema.js';
-import { VNSSecurity } from './security.js';
+import { VNSSecurity, powVolumeWindow } from './security.js';
+import { VNSMerkleTree } from './merkle-tree.js';
+import {
+  VNSEntryState,
+  serializeEntryState,
+  parseEntryState,
+  blockMatchesCid,
+  describeHistoryStep,
+  stateExpires,
+  stateHolder
+} from './history.js';
+import { HybridLogicalClock, compareEntryVersions, entryHLC, formatHLC } from './hlc.js';
+import { VNSShardTree } from './shard-tree.js';
+import { VNSDeltaGuard } from './delta-guard.js';
+import { VNSChangeFeed, VNSChangeFilter, VNSChangeListener, describeChange } from './change-feed.js';
 
 /**
  * Genesis entry for root.vfs
@@ -37,15 +81,101 @@ const GENESIS_ROOT: VNSRegistration = {
   signature: 'genesis'
 };
 
+/**
+ * Anti-entropy bucket key for a name
+ * Buckets are name-prefix ranges: the first character of the normalized name
+ */
+function bucketOf(name: string): string {
+  return name.charAt(0);
+}
+
+/**
+ * Position of the first name in a sorted list that is not below `name`
+ */
+function lowerBound(sorted: string[], name: string): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < name) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Listing cursors are the last listed name, base64url-encoded so clients treat them as opaque
+ */
+function encodeListCursor(name: string): string {
+  return Buffer.from(name, 'utf8').toString('base64url');
+}
+
+function decodeListCursor(cursor: string): string | null {
+  const name = Buffer.from(cursor, 'base64url').toString('utf8');
+  return name.endsWith(VNS_CONFIG.TLD) && encodeListCursor(name) === cursor ? name : null;
+}
+
+/**
+ * Whole-name pattern where `*` matches any run of characters
+ */
+function wildcardPattern(pattern: string): RegExp {
+  const parts = pattern.split('*').map(part => part.replace(/[.+?^$()|[\]{}\\]/g, '\\$&'));
+  return new RegExp(`^${parts.join('.*')}$`);
+}
+
+/**
+ * Legacy merkle root (flat hash of sorted entry CIDs)
+ * Only used to verify version 1 manifests written before the merkle tree
+ */
+function legacyMerkleRoot(entries: Iterable<VNSNamespaceEntry>): string {
+  const cids = Array.from(entries)
+    .map(e => e.cid)
+    .sort();
+
+  return crypto.createHash('sha256')
+    .update(cids.join(':'))
+    .digest('hex');
+}
+
 /**
  * VNS Delta message for P2P propagation
  */
 export interface VNSDelta {
-  type: 'register' | 'update' | 'transfer' | 'expire';
+  type: 'register' | 'update' | 'transfer' | 'rotate' | 'expire' | 'renew';
   entry: VNSNamespaceEntry;
   merkleRoot: string;
   peerId: string;
   timestamp: number;
+  hlc?: VNSHybridTimestamp; // Sender's clock when the delta was sent
+  sequence?: number; // Envelope (see VNSDeltaGuard): per-origin sequence number,
+  publicKey?: string; // origin node key
+  signature?: string; // and origin node signature
+}
+
+/**
+ * Manifest block written by saveToBlockstore()
+ * Version 3 points to a shard tree; versions 1-2 list every entry inline
+ */
+interface VNSManifest {
+  version: number;
+  merkleRoot: string;
+  shardRoot?: string; // Root CID of the shard tree (version 3)
+  count?: number; // Names in the shard tree (version 3)
+  entries?: Array<{ name: string; cid: string }>; // Versions 1-2
+  savedAt: number;
+}
+
+/**
+ * Head file recording the latest manifest CID in the repo
+ * The previous CID is kept so a corrupt manifest can be rolled back
+ */
+interface VNSHead {
+  manifestCid: string;
+  previousManifestCid?: string;
+  savedAt: number;
 }
 
 /**
@@ -62,12 +192,24 @@ export class VNSNamespaceStore {
   
   // Reverse index: owner -> names[]
   private ownerIndex: Map<string, string[]>;
+
+  // Reverse index: claimed peer ID / IP (PRIMARY records) -> names[]
+  private primaryIndex: Map<string, string[]> = new Map();
+
+  // Every stored name (tombstones included) in sort order, for listings
+  private sortedNames: string[] = [];
   
-  // Merkle root for integrity
-  private merkleRoot: string;
+  // Merkle tree over name -> entry CID for integrity and proofs
+  private merkleTree: VNSMerkleTree;
   
   // Store path in blockstore
   private readonly storePath = '/vns/root';
+
+  // Head file holding the latest manifest CID (null = no durable head)
+  private headPath: string | null;
+
+  // CID of the manifest currently reflected in memory
+  private manifestCid: string | null = null;
   
   // Enable/disable flag
   private enabled: boolean;
@@ -78,6 +220,15 @@ export class VNSNamespaceStore {
   // Local peer ID (for delta propagation)
   private localPeerId: string = 'unknown';
 
+  // Node key that signs outgoing delta envelopes
+  private nodeIdentity: { signingKeyPem: string; publicKeyPem: string } | null = null;
+
+  // Delta envelope signing and replay protection
+  private deltaGuard: VNSDeltaGuard;
+
+  // Change events for subscribers (local, relayed and reconciled changes alike)
+  private changeFeed: VNSChangeFeed = new VNSChangeFeed();
+
   // Expiry sweep timer
   private expirySweepTimer: NodeJS.Timeout | null = null;
 
@@ -85,13 +236,24 @@ export class VNSNamespaceStore {
   private deltaQueue: VNSDelta[] = [];
   private readonly MAX_QUEUE_SIZE = 1000;
 
-  constructor(blockstore: Blockstore, log: VerimutLog | null, security?: VNSSecurity) {
+  // Hybrid logical clock stamping local changes (merged with accepted remote stamps)
+  private clock: HybridLogicalClock = new HybridLogicalClock();
+
+  // Persisted layout: shard tree of entry blocks, and names changed since the last save
+  private shardTree: VNSShardTree;
+  private dirtyNames: Set<string> = new Set();
+  private pendingSave: Promise<unknown> = Promise.resolve();
+
+  constructor(blockstore: Blockstore, log: VerimutLog | null, security?: VNSSecurity, repoPath?: string) {
     this.blockstore = blockstore;
     this.log = log;
     this.security = security || new VNSSecurity();
+    this.headPath = repoPath ? path.join(repoPath, 'vns-head.json') : null;
+    this.deltaGuard = new VNSDeltaGuard(repoPath ? path.join(repoPath, 'vns-delta-state.json') : null);
     this.entries = new Map();
     this.ownerIndex = new Map();
-    this.merkleRoot = '';
+    this.merkleTree = new VNSMerkleTree();
+    this.shardTree = new VNSShardTree(blockstore);
     this.enabled = true;
   }
 
@@ -102,6 +264,9 @@ export class VNSNamespaceStore {
     this.syncCallback = callback;
     this.localPeerId = peerId;
     console.log(`[VNS] Sync callback registered for peer ${peerId.slice(0, 16)}...`);
+    if (!this.nodeIdentity) {
+      console.warn('[VNS] No node identity set, peers will reject our unsigned deltas');
+    }
     
     // Replay any queued deltas
     if (this.deltaQueue.length > 0) {
@@ -111,6 +276,13 @@ export class VNSNamespaceStore {
     }
   }
 
+  /**
+   * Set the node key that signs outgoing deltas (the key of its peer ID, see peerIdKeyPems)
+   */
+  setNodeIdentity(identity: { signingKeyPem: string; publicKeyPem: string }): void {
+    this.nodeIdentity = identity;
+  }
+
   /**
    * Initialize the store and load genesis + reserved names
    */
@@ -126,9 +298,6 @@ export class VNSNamespaceStore {
     // Try to load existing namespace from blockstore
     await this.loadFromBlockstore();
 
-    // Compute initial merkle root
-    this.updateMerkleRoot();
-
     // Start expiry sweep timer (run every hour)
     this.startExpirySweep();
 
@@ -136,20 +305,22 @@ export class VNSNamespaceStore {
   }
 
   /**
-   * Start background expiry sweep
+   * Start background expiry sweep (also prunes rate limit counters)
    */
   private startExpirySweep(): void {
     const SWEEP_INTERVAL = 60 * 60 * 1000; // 1 hour
 
     this.expirySweepTimer = setInterval(async () => {
       await this.sweepExpired();
+      this.security.cleanup(); // Drop rate limit attempts that left the window
     }, SWEEP_INTERVAL);
 
     console.log('[VNS] Expiry sweep timer started (1 hour interval)');
   }
 
   /**
-   * Stop background expiry sweep
+   * Stop background expiry sweep and write the delta and rate limit state still
+   * waiting for its batched save (the store is shutting down)
    */
   stopExpirySweep(): void {
     if (this.expirySweepTimer) {
@@ -157,12 +328,15 @@ export class VNSNamespaceStore {
       this.expirySweepTimer = null;
       console.log('[VNS] Expiry sweep timer stopped');
     }
+    this.deltaGuard.flush();
+    this.security.flush();
   }
 
   /**
    * Sweep expired names from namespace
+   * Expired names become tombstones; tombstones past the retention horizon are dropped
    */
-  private async sweepExpired(): Promise<number> {
+  async sweepExpired(): Promise<number> {
     const now = Date.now();
     const reservedNames = ['root.vfs', 'admin.vfs', 'sync.vfs', 'bootstrap.vfs'];
     let removed = 0;
@@ -175,26 +349,23 @@ export class VNSNamespaceStore {
         continue;
       }
 
-      // Check if expired
-      if (entry.registration.expires < now) {
-        console.log(`[VNS] Removing expired name: ${name} (expired at ${new Date(entry.registration.expires).toISOString()})`);
-        
-        // Remove from cache
-        this.entries.delete(name);
-        
-        // Remove from owner index
-        const owner = entry.registration.owner;
-        const ownerNames = this.ownerIndex.get(owner);
-        if (ownerNames) {
-          const filtered = ownerNames.filter(n => n !== name);
-          if (filtered.length > 0) {
-            this.ownerIndex.set(owner, filtered);
-          } else {
-            this.ownerIndex.delete(owner);
-          }
+      if (entry.tombstone) {
+        if (entry.tombstone.removedAt + VNS_CONFIG.TOMBSTONE_RETENTION < now) {
+          this.removeEntry(name);
+          removed++;
         }
+        continue;
+      }
 
-        // Propagate expiry to peers
+      // Check if expired and past the owner-only renewal grace period
+      const expires = getEntryExpires(entry);
+      if (expires + this.security.getRenewalGracePeriod() < now) {
+        console.log(`[VNS] Removing expired name: ${name} (expired at ${new Date(expires).toISOString()})`);
+        
+        // Replace with a tombstone (cache, merkle tree and owner index)
+        await this.buryEntry(entry);
+
+        // Propagate the tombstone to peers
         await this.triggerDeltaPropagation('expire', name);
         
         removed++;
@@ -202,9 +373,6 @@ export class VNSNamespaceStore {
     }
 
     if (removed > 0) {
-      // Update merkle root
-      this.updateMerkleRoot();
-      
       // Persist changes
       await this.saveToBlockstore();
       
@@ -228,7 +396,7 @@ export class VNSNamespaceStore {
       version: 1
     };
 
-    this.entries.set(GENESIS_ROOT.name, entry);
+    this.putEntry(entry);
     this.indexOwner(GENESIS_ROOT.owner, GENESIS_ROOT.name);
   }
 
@@ -255,74 +423,214 @@ export class VNSNamespaceStore {
         version: 1
       };
 
-      this.entries.set(name, entry);
+      this.putEntry(entry);
       this.indexOwner('reserved', name);
     }
   }
 
   /**
-   * Load namespace entries from blockstore
+   * Load namespace entries from the manifest recorded in the head file
+   * Falls back to the previous manifest if the latest one is missing, truncated
+   * or fails merkle verification; starts empty if neither can be loaded
    */
   private async loadFromBlockstore(): Promise<void> {
-    try {
-      // For now, we store the manifest CID in memory or a known location
-      // In a production system, this would be in a well-known DHT key or config
-      const manifestCidKey = '__vns_manifest_cid__';
-      
-      // Try to get the manifest CID (this is a hack for now - would use DHT in production)
-      // For Phase 3, we'll skip actual persistence and note it as TODO
-      console.log('[VNS] Blockstore persistence TODO: Implement DHT-based manifest discovery');
-      console.log('[VNS] Starting with empty namespace (beyond genesis/reserved)');
+    const head = this.readHead();
+    if (!head) {
+      console.log('[VNS] No saved manifest found, starting with empty namespace (beyond genesis/reserved)');
       return;
+    }
 
-      // TODO Phase 3.1: Implement proper persistence
-      // 1. Store manifest CID in DHT at /vns/manifest
-      // 2. Load manifest from that CID
-      // 3. Load all entry CIDs from manifest
-      // 4. Reconstruct namespace in memory
-      
+    const candidates = [head.manifestCid, head.previousManifestCid].filter((c): c is string => !!c);
+    for (const manifestCid of candidates) {
+      try {
+        const loaded = await this.loadManifest(manifestCid);
+        console.log(`[VNS] Loaded ${loaded} entries from manifest ${manifestCid}`);
+        return;
+      } catch (e) {
+        console.warn(`[VNS] Failed to load manifest ${manifestCid}:`, e instanceof Error ? e.message : e);
+      }
+    }
+
+    console.warn('[VNS] No usable manifest, starting with empty namespace (beyond genesis/reserved)');
+  }
+
+  /**
+   * Load a single manifest and swap it into memory once it verifies
+   * Returns the number of entries loaded
+   */
+  private async loadManifest(manifestCid: string): Promise<number> {
+    const manifest = await this.readJsonBlock<VNSManifest>(manifestCid, 'Manifest');
+    const sharded = manifest.version >= 3;
+    if (typeof manifest.merkleRoot !== 'string' ||
+        (sharded ? typeof manifest.shardRoot !== 'string' : !Array.isArray(manifest.entries))) {
+      throw new Error('Manifest has an invalid structure');
+    }
+
+    // Older manifests are migrated to a shard tree on the next save
+    const shardTree = sharded
+      ? await VNSShardTree.load(this.blockstore, manifest.shardRoot!)
+      : new VNSShardTree(this.blockstore);
+    const listed = sharded ? shardTree.entries() : manifest.entries!;
+
+    // Stage on top of genesis/reserved so nothing is touched until verified
+    const staged = new Map(this.entries);
+    let loaded = 0;
+    for await (const { name, cid } of listed) {
+      const entry = await this.readJsonBlock<VNSNamespaceEntry>(cid, `Entry ${name}`);
+      if (entry.name !== name || !entry.registration) {
+        throw new Error(`Entry block ${cid} does not match ${name}`);
+      }
+      staged.set(name, entry);
+      loaded++;
+    }
+
+    // Version 1 manifests carry the legacy flat hash of sorted CIDs
+    const tree = VNSMerkleTree.fromEntries(staged.values());
+    const merkleRoot = manifest.version === 1 ? legacyMerkleRoot(staged.values()) : tree.getRoot();
+    if (merkleRoot !== manifest.merkleRoot) {
+      throw new Error(`Merkle root mismatch (manifest ${manifest.merkleRoot.slice(0, 16)}..., recomputed ${merkleRoot.slice(0, 16)}...)`);
+    }
+
+    this.entries = staged;
+    this.sortedNames = Array.from(staged.keys()).sort();
+    this.ownerIndex = new Map();
+    this.primaryIndex = new Map();
+    for (const [name, entry] of staged) {
+      if (!entry.tombstone) {
+        this.indexOwner(getEntryOwnership(entry).owner, name);
+        this.indexPrimary(entry);
+      }
+    }
+    this.merkleTree = tree;
+    this.manifestCid = manifestCid;
+    this.shardTree = shardTree;
+    this.dirtyNames = sharded ? new Set() : new Set(staged.keys());
+
+    // Resume the clock after the newest stored stamp, so restarts stay monotonic
+    for (const entry of staged.values()) {
+      this.clock.observe(entryHLC(entry));
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Read and parse a JSON block, failing on missing or truncated data
+   */
+  private async readJsonBlock<T>(cid: string, label: string): Promise<T> {
+    const raw = await this.blockstore.get(cid);
+    if (!raw) {
+      throw new Error(`${label} block ${cid} is missing`);
+    }
+
+    try {
+      return JSON.parse(Buffer.from(raw).toString('utf8')) as T;
+    } catch (e) {
+      throw new Error(`${label} block ${cid} is truncated or corrupt`);
+    }
+  }
+
+  /**
+   * Read the head file (null if missing or unreadable)
+   */
+  private readHead(): VNSHead | null {
+    if (!this.headPath || !fs.existsSync(this.headPath)) {
+      return null;
+    }
+
+    try {
+      const head = JSON.parse(fs.readFileSync(this.headPath, 'utf8'));
+      return typeof head?.manifestCid === 'string' ? head : null;
     } catch (e) {
-      console.warn('[VNS] Failed to load from blockstore:', e);
+      console.warn('[VNS] Head file is unreadable, ignoring:', e instanceof Error ? e.message : e);
+      return null;
+    }
+  }
+
+  /**
+   * Record a new manifest CID in the head file
+   * Written to a temp file and renamed so a crash never leaves a partial head
+   */
+  private writeHead(manifestCid: string): void {
+    if (!this.headPath || manifestCid === this.manifestCid) {
+      this.manifestCid = manifestCid;
+      return;
     }
+
+    const head: VNSHead = {
+      manifestCid,
+      previousManifestCid: this.manifestCid || undefined,
+      savedAt: Date.now()
+    };
+
+    const tmpPath = `${this.headPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(head, null, 2), 'utf8');
+    fs.renameSync(tmpPath, this.headPath);
+    this.manifestCid = manifestCid;
   }
 
   /**
    * Save namespace to blockstore
    * Returns the manifest CID
    */
-  private async saveToBlockstore(): Promise<string | null> {
+  private saveToBlockstore(): Promise<string | null> {
+    // One save at a time, so concurrent operations never interleave shard tree updates
+    const save = this.pendingSave.then(() => this.writeChanges());
+    this.pendingSave = save;
+    return save;
+  }
+
+  /**
+   * Write the entries changed since the last save, the shard tree path above
+   * each of them and a new manifest
+   */
+  private async writeChanges(): Promise<string | null> {
+    const changed = Array.from(this.dirtyNames);
+    this.dirtyNames.clear();
+
     try {
-      const entryCids: Array<{ name: string; cid: string }> = [];
       const reservedNames = ['root.vfs', 'admin.vfs', 'sync.vfs', 'bootstrap.vfs'];
 
-      // Save each entry (skip genesis and reserved)
-      for (const [name, entry] of this.entries) {
+      // Save each changed entry (skip genesis and reserved)
+      for (const name of changed) {
         if (reservedNames.includes(name)) {
           continue; // Don't persist genesis/reserved
         }
 
+        const entry = this.entries.get(name);
+        if (!entry) {
+          await this.shardTree.delete(name);
+          continue;
+        }
+
         const entryData = Buffer.from(JSON.stringify(entry), 'utf8');
         const entryCid = await this.blockstore.put(entryData);
-        entryCids.push({ name, cid: entryCid });
+        await this.shardTree.set(name, entryCid);
       }
 
       // Create and save manifest
-      const manifest = {
-        version: 1,
-        merkleRoot: this.merkleRoot,
-        entries: entryCids,
+      const manifest: VNSManifest = {
+        version: 3,
+        merkleRoot: this.getMerkleRoot(),
+        shardRoot: await this.shardTree.flush(),
+        count: this.shardTree.size,
         savedAt: Date.now()
       };
 
       const manifestData = Buffer.from(JSON.stringify(manifest), 'utf8');
       const manifestCid = await this.blockstore.put(manifestData);
 
-      console.log(`[VNS] Saved ${entryCids.length} entries to blockstore, manifest CID: ${manifestCid}`);
+      // Record the manifest CID durably so initialize() can reload it
+      this.writeHead(manifestCid);
+
+      console.log(`[VNS] Saved ${changed.length} changed entries to blockstore (${manifest.count} total), manifest CID: ${manifestCid}`);
       
       // TODO Phase 3.1: Publish manifest CID to DHT at /vns/manifest
       
       return manifestCid;
     } catch (e) {
+      // Retry the unsaved entries on the next save
+      changed.forEach(name => this.dirtyNames.add(name));
       console.error('[VNS] Failed to save to blockstore:', e);
       return null;
     }
@@ -347,15 +655,50 @@ export class VNSNamespaceStore {
         return { success: false, error: nameValidation.error };
       }
 
-      // Check security (PoW, rate limit, signature)
-      const securityValidation = this.security.validateRegistration(registration, peerId);
+      // Subdomains are authorized by their parent zone instead of PoW
+      let zoneKeys: string[] = [];
+      const parent = getParentVNSName(name);
+      if (parent) {
+        const keys = this.getZoneKeys(parent);
+        if (!keys) {
+          return { success: false, error: `Parent zone ${parent} is not registered or has expired` };
+        }
+        zoneKeys = keys;
+      }
+
+      // Check security (PoW or zone signature, rate limit, signature)
+      const securityValidation = this.security.validateRegistration(
+        registration, peerId, zoneKeys, this.getPowDifficulty(name, registration.timestamp)
+      );
       if (!securityValidation.valid) {
         return { success: false, error: securityValidation.error };
       }
 
-      // Check if name already exists
+      // Stake and hybrid modes lock stake from the registrant
+      const stakeCheck = this.security.validateStake(name, registration.owner);
+      if (!stakeCheck.valid) {
+        return { success: false, error: stakeCheck.error };
+      }
+
+      // A signed timestamp from the future would outrank every later registration
+      const clockCheck = this.clock.validate({ wall: registration.timestamp, counter: 0 });
+      if (!clockCheck.valid) {
+        return { success: false, error: `Registration timestamp rejected: ${clockCheck.error}` };
+      }
+
+      // Check if name already exists (a tombstone leaves it free)
       const existing = this.entries.get(name);
-      if (existing) {
+      if (existing && !existing.tombstone) {
+        // Live names (and lapsed names until the grace period ends) stay with their owner
+        if (registration.owner !== getEntryOwnership(existing).owner) {
+          if (this.security.isInGracePeriod(getEntryExpires(existing))) {
+            return { success: false, error: 'Name is in its renewal grace period (only the previous owner may renew)' };
+          }
+          if (!this.security.isExpired(getEntryExpires(existing))) {
+            return { success: false, error: 'Name is already registered to another owner' };
+          }
+        }
+
         // LWW conflict resolution: newer timestamp wins
         if (registration.timestamp <= existing.registration.timestamp) {
           return { success: false, error: 'Name already registered with newer timestamp' };
@@ -364,24 +707,24 @@ export class VNSNamespaceStore {
         console.log(`[VNS] Updating existing registration for ${name} (LWW)`);
       }
 
-      // Store in blockstore
-      const cid = await this.storeInBlockstore(registration);
+      // Store in blockstore, linked to the previous holder's history
+      const previous = existing ? existing.cid : undefined;
+      const cid = await this.storeInBlockstore(registration, { previous });
 
       // Create namespace entry
       const entry: VNSNamespaceEntry = {
         name,
         registration,
+        previous,
         cid,
         lastModified: Date.now(),
+        hlc: this.clock.now(),
         version: existing ? existing.version + 1 : 1
       };
 
-      // Update in-memory cache
-      this.entries.set(name, entry);
-      this.indexOwner(registration.owner, name);
-
-      // Update merkle root
-      this.updateMerkleRoot();
+      // Update in-memory cache and merkle tree
+      this.putEntry(entry);
+      this.security.recordRegistration(registration, 'local');
 
       // Log the operation
       await this.logOperation({
@@ -389,7 +732,7 @@ export class VNSNamespaceStore {
         name,
         owner: registration.owner,
         cid,
-        merkleRoot: this.merkleRoot,
+        merkleRoot: this.getMerkleRoot(),
         timestamp: Date.now(),
         success: true
       });
@@ -397,7 +740,7 @@ export class VNSNamespaceStore {
       console.log(`[VNS] Registered ${name} -> ${cid} (owner: ${registration.owner.slice(0, 16)}...)`);
 
       // Propagate delta to peers
-      await this.triggerDeltaPropagation(existing ? 'update' : 'register', name);
+      await this.triggerDeltaPropagation(existing && !existing.tombstone ? 'update' : 'register', name);
 
       // Persist to blockstore
       await this.saveToBlockstore();
@@ -423,11 +766,41 @@ export class VNSNamespaceStore {
 
   /**
    * Resolve a VNS name to its records
+   * With `proof`, attaches a merkle proof of inclusion (or non-inclusion)
+   * With `followAliases`, follows CNAME records to the final name (proof is for that name)
+   */
+  async resolve(name: string, options: { proof?: boolean; followAliases?: boolean } = {}): Promise<VNSResolutionResult> {
+    const result = await this.resolveName(name, options.proof);
+    if (!options.followAliases || !result.found) {
+      return result;
+    }
+
+    const chain = [result.name!];
+    let current = result;
+    while (current.found && current.records!.length === 1 && current.records![0].type === 'CNAME') {
+      const target = normalizeVNSName(current.records![0].value);
+      if (chain.includes(target)) {
+        return { found: false, aliasChain: [...chain, target], error: `Alias loop detected: ${[...chain, target].join(' -> ')}` };
+      }
+      if (chain.length > VNS_CONFIG.MAX_ALIAS_DEPTH) {
+        return { found: false, aliasChain: chain, error: `Too many alias hops (max ${VNS_CONFIG.MAX_ALIAS_DEPTH})` };
+      }
+
+      chain.push(target);
+      current = await this.resolveName(target, options.proof);
+    }
+
+    return { ...current, aliasChain: chain.length > 1 ? chain : undefined };
+  }
+
+  /**
+   * Resolve a single name without following aliases
    */
-  async resolve(name: string): Promise<VNSResolutionResult> {
+  private async resolveName(name: string, withProof?: boolean): Promise<VNSResolutionResult> {
     try {
       // Normalize name
       name = normalizeVNSName(name);
+      const proof = withProof ? this.merkleTree.prove(name) : undefined;
 
       // Check local cache first
       const entry = this.entries.get(name);
@@ -441,34 +814,63 @@ export class VNSNamespaceStore {
           error: 'Name not found'
         });
 
+        const delegatedBy = this.findDelegatingZone(name);
+        return {
+          found: false,
+          proof,
+          delegatedBy: delegatedBy || undefined,
+          error: delegatedBy
+            ? `Name not found in local cache (zone delegated by ${delegatedBy})`
+            : 'Name not found in local cache'
+        };
+      }
+
+      if (entry.tombstone) {
         return {
           found: false,
-          error: 'Name not found in local cache'
+          cid: entry.cid,
+          proof,
+          error: `Name was removed (${entry.tombstone.reason} at ${new Date(entry.tombstone.removedAt).toISOString()})`
         };
       }
 
       // Check if expired
-      if (this.security.isExpired(entry.registration.expires)) {
+      if (this.security.isExpired(getEntryExpires(entry))) {
         // Mark as expired (but don't delete yet)
         await this.logOperation({
           operation: 'expire',
           name,
-          owner: entry.registration.owner,
+          owner: getEntryOwnership(entry).owner,
           timestamp: Date.now(),
           success: true
         });
 
         return {
           found: false,
+          cid: entry.cid,
+          proof,
           error: 'Name has expired'
         };
       }
 
+      // Subdomains only resolve while every ancestor zone is active
+      for (let zone = getParentVNSName(name); zone; zone = getParentVNSName(zone)) {
+        const zoneEntry = this.entries.get(zone);
+        if (!zoneEntry || this.security.isExpired(getEntryExpires(zoneEntry))) {
+          return {
+            found: false,
+            cid: entry.cid,
+            proof,
+            error: `Parent zone ${zone} is not active`
+          };
+        }
+      }
+
       // Log successful resolution
       await this.logOperation({
         operation: 'resolve',
         name,
-        owner: entry.registration.owner,
+        owner: getEntryOwnership(entry).owner,
         timestamp: Date.now(),
         success: true
       });
@@ -476,10 +878,12 @@ export class VNSNamespaceStore {
       return {
         found: true,
         name: entry.name,
-        records: entry.registration.records,
-        owner: entry.registration.owner,
-        expires: entry.registration.expires,
-        ttl: VNS_CONFIG.TTL_DEFAULT
+        records: getEntryRecords(entry),
+        owner: getEntryOwnership(entry).owner,
+        expires: getEntryExpires(entry),
+        ttl: VNS_CONFIG.TTL_DEFAULT,
+        cid: entry.cid,
+        proof
       };
     } catch (e) {
       const error = e instanceof Error ? e.message : 'Unknown error';
@@ -493,11 +897,17 @@ export class VNSNamespaceStore {
   }
 
   /**
-   * Transfer ownership of a name (with signature verification)
+   * Transfer a name to a new owner key
+   * The transfer must be signed by the current owner (or `threshold` co-owners)
    */
-  async transfer(name: string, newOwner: string, signature: string, peerId: string): Promise<{ success: boolean; error?: string }> {
+  async transfer(transfer: VNSTransfer, peerId: string): Promise<{ success: boolean; error?: string; cid?: string }> {
+    if (!this.enabled) {
+      return { success: false, error: 'VNS is disabled' };
+    }
+
     try {
-      name = normalizeVNSName(name);
+      const name = normalizeVNSName(transfer.name);
+      transfer.name = name;
 
       const entry = this.entries.get(name);
       if (!entry) {
@@ -505,56 +915,76 @@ export class VNSNamespaceStore {
       }
 
       // Check if expired
-      if (this.security.isExpired(entry.registration.expires)) {
+      if (this.security.isExpired(getEntryExpires(entry))) {
         return { success: false, error: 'Name has expired' };
       }
 
-      // TODO: Implement multisig verification for transfers
-      // For now, just check if the signature matches the current owner
+      const holder = getEntryOwnership(entry);
+      if (transfer.fromOwner !== holder.owner) {
+        return { success: false, error: 'Only the current owner may transfer' };
+      }
+
+      const transfers = entry.transfers || [];
+      if (transfer.timestamp <= this.holderSince(entry)) {
+        return { success: false, error: 'Transfer is older than the current ownership' };
+      }
+      if (transfers.some(t => t.nonce === transfer.nonce)) {
+        return { success: false, error: 'Transfer nonce already used' };
+      }
 
-      // Update registration
-      const updatedReg = {
-        ...entry.registration,
-        owner: newOwner,
-        timestamp: Date.now()
-      };
+      const validation = this.security.validateTransfer(transfer, { ...holder, name });
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      // The new holder takes over the stake lock (the previous holder's is released)
+      const stakeCheck = this.security.validateStake(name, transfer.newOwner);
+      if (!stakeCheck.valid) {
+        return { success: false, error: stakeCheck.error };
+      }
 
-      // Store updated registration
-      const cid = await this.storeInBlockstore(updatedReg);
+      const chain = [...transfers, transfer];
+      const cid = await this.storeInBlockstore(entry.registration, {
+        renewal: entry.renewal,
+        update: entry.update,
+        transfers: chain,
+        rotations: entry.rotations,
+        previous: entry.cid
+      });
 
-      // Update entry
       const updatedEntry: VNSNamespaceEntry = {
         ...entry,
-        registration: updatedReg,
+        transfers: chain,
+        previous: entry.cid,
         cid,
         lastModified: Date.now(),
+        hlc: this.clock.now(),
         version: entry.version + 1
       };
 
-      this.entries.set(name, updatedEntry);
-      this.indexOwner(newOwner, name);
-
-      // Update merkle root
-      this.updateMerkleRoot();
+      this.putEntry(updatedEntry);
 
       // Log transfer
       await this.logOperation({
         operation: 'transfer',
         name,
-        owner: entry.registration.owner,
-        newOwner,
+        owner: holder.owner,
+        newOwner: transfer.newOwner,
         cid,
-        merkleRoot: this.merkleRoot,
+        merkleRoot: this.getMerkleRoot(),
         timestamp: Date.now(),
         success: true
       });
 
-      console.log(`[VNS] Transferred ${name} from ${entry.registration.owner.slice(0, 16)}... to ${newOwner.slice(0, 16)}...`);
+      console.log(`[VNS] Transferred ${name} from ${holder.owner.slice(0, 16)}... to ${transfer.newOwner.slice(0, 16)}... (requested by ${peerId.slice(0, 16)}...)`);
 
       // Propagate transfer delta to peers
       await this.triggerDeltaPropagation('transfer', name);
 
-      return { success: true };
+      // Persist to blockstore
+      await this.saveToBlockstore();
+
+      return { success: true, cid };
     } catch (e) {
       const error = e instanceof Error ? e.message : 'Unknown error';
       console.error('[VNS] Transfer failed:', error);
@@ -563,78 +993,842 @@ export class VNSNamespaceStore {
   }
 
   /**
-   * Get all names owned by a specific owner
+   * Rotate the key that signs for the current holder (signed by that key or the recovery key)
+   * Ownership, records and expiry are unchanged; the rotation joins the entry's history
    */
-  getNamesByOwner(owner: string): string[] {
-    return this.ownerIndex.get(owner) || [];
-  }
+  async rotateKey(rotation: VNSKeyRotation, peerId: string): Promise<{ success: boolean; error?: string; cid?: string }> {
+    if (!this.enabled) {
+      return { success: false, error: 'VNS is disabled' };
+    }
 
-  /**
-   * Get the current merkle root
-   */
-  getMerkleRoot(): string {
-    return this.merkleRoot;
-  }
+    try {
+      const name = normalizeVNSName(rotation.name);
+      rotation.name = name;
 
-  /**
-   * Get total number of registered names
-   */
-  size(): number {
-    return this.entries.size;
-  }
+      const entry = this.entries.get(name);
+      if (!entry) {
+        return { success: false, error: 'Name not found' };
+      }
 
-  /**
-   * Store registration in blockstore and return CID
-   */
-  private async storeInBlockstore(registration: VNSRegistration): Promise<string> {
-    const data = Buffer.from(JSON.stringify(registration), 'utf8');
-    const cid = await this.blockstore.put(data);
-    return cid;
-  }
+      if (this.security.isExpired(getEntryExpires(entry))) {
+        return { success: false, error: 'Name has expired' };
+      }
 
-  /**
-   * Index a name by owner
-   */
-  private indexOwner(owner: string, name: string): void {
-    const names = this.ownerIndex.get(owner) || [];
-    if (!names.includes(name)) {
-      names.push(name);
-      this.ownerIndex.set(owner, names);
-    }
-  }
+      const holder = getEntryOwnership(entry);
+      if (rotation.owner !== holder.owner) {
+        return { success: false, error: 'Only the current owner may rotate keys' };
+      }
 
-  /**
-   * Update merkle root based on current entries
-   */
-  private updateMerkleRoot(): void {
-    // Simple merkle root: hash of all entry CIDs sorted
-    const cids = Array.from(this.entries.values())
-      .map(e => e.cid)
-      .sort();
-    
-    const combined = cids.join(':');
-    this.merkleRoot = crypto.createHash('sha256')
-      .update(combined)
-      .digest('hex');
-  }
+      const rotations = entry.rotations || [];
+      if (rotation.timestamp <= this.holderSince(entry)) {
+        return { success: false, error: 'Key rotation is older than the current key' };
+      }
+      if (rotation.timestamp > Date.now() + VNS_CONFIG.MAX_CLOCK_DRIFT) {
+        return { success: false, error: 'Key rotation timestamp is ahead of the local clock' };
+      }
+      if (rotations.some(r => r.nonce === rotation.nonce)) {
+        return { success: false, error: 'Key rotation nonce already used' };
+      }
 
-  /**
-   * Log a VNS operation to VerimutLog
-   */
-  private async logOperation(entry: VNSLogEntry): Promise<void> {
-    if (this.log) {
-      try {
-        await this.log.add(entry);
-      } catch (e) {
-        console.warn('[VNS] Failed to log operation:', e);
+      const validation = this.security.validateRotation(rotation, { ...holder, name });
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
       }
+
+      const chain = [...rotations, rotation];
+      const cid = await this.storeInBlockstore(entry.registration, {
+        renewal: entry.renewal,
+        update: entry.update,
+        transfers: entry.transfers,
+        rotations: chain,
+        previous: entry.cid
+      });
+
+      const updatedEntry: VNSNamespaceEntry = {
+        ...entry,
+        rotations: chain,
+        previous: entry.cid,
+        cid,
+        lastModified: Date.now(),
+        hlc: this.clock.now(),
+        version: entry.version + 1
+      };
+
+      this.putEntry(updatedEntry);
+
+      await this.logOperation({
+        operation: 'rotate',
+        name,
+        owner: holder.owner,
+        cid,
+        merkleRoot: this.getMerkleRoot(),
+        timestamp: Date.now(),
+        success: true
+      });
+
+      console.log(`[VNS] Rotated ${rotation.signer} key for ${name} -> ${cid} (requested by ${peerId.slice(0, 16)}...)`);
+
+      await this.triggerDeltaPropagation('rotate', name);
+      await this.saveToBlockstore();
+
+      return { success: true, cid };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      console.error('[VNS] Key rotation failed:', error);
+      return { success: false, error };
     }
   }
 
   /**
-   * Enable/disable VNS
+   * Replace the records of a name (owner-signed, no PoW)
+   * Expiry and ownership are unchanged
    */
-  setEnabled(enabled: boolean): void {
+  async update(update: VNSRecordUpdate, peerId: string): Promise<{ success: boolean; error?: string; cid?: string }> {
+    if (!this.enabled) {
+      return { success: false, error: 'VNS is disabled' };
+    }
+
+    try {
+      const name = normalizeVNSName(update.name);
+      update.name = name;
+
+      const entry = this.entries.get(name);
+      if (!entry) {
+        return { success: false, error: 'Name not found' };
+      }
+
+      if (this.security.isExpired(getEntryExpires(entry))) {
+        return { success: false, error: 'Name has expired' };
+      }
+
+      const holder = getEntryOwnership(entry);
+      if (update.owner !== holder.owner) {
+        return { success: false, error: 'Only the current owner may update records' };
+      }
+
+      // Reject replays of older updates (and updates predating the current holder)
+      const lastTimestamp = Math.max(
+        entry.update ? entry.update.timestamp : entry.registration.timestamp,
+        this.holderSince(entry)
+      );
+      if (update.timestamp <= lastTimestamp) {
+        return { success: false, error: 'Update is older than the current records' };
+      }
+
+      const validation = this.security.validateUpdate(update, { ...holder, name });
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const cid = await this.storeInBlockstore(entry.registration, {
+        renewal: entry.renewal,
+        update,
+        transfers: entry.transfers,
+        rotations: entry.rotations,
+        previous: entry.cid
+      });
+      const updatedEntry: VNSNamespaceEntry = {
+        ...entry,
+        update,
+        previous: entry.cid,
+        cid,
+        lastModified: Date.now(),
+        hlc: this.clock.now(),
+        version: entry.version + 1
+      };
+
+      this.putEntry(updatedEntry);
+
+      await this.logOperation({
+        operation: 'update',
+        name,
+        owner: update.owner,
+        cid,
+        merkleRoot: this.getMerkleRoot(),
+        timestamp: Date.now(),
+        success: true
+      });
+
+      console.log(`[VNS] Updated records for ${name} -> ${cid} (requested by ${peerId.slice(0, 16)}...)`);
+
+      await this.triggerDeltaPropagation('update', name);
+      await this.saveToBlockstore();
+
+      return { success: true, cid };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      console.error('[VNS] Update failed:', error);
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Renew a name for another period (owner-signed, fresh PoW)
+   * Allowed before expiry and during the grace period after it
+   */
+  async renew(renewal: VNSRenewal, peerId: string): Promise<{ success: boolean; error?: string; cid?: string; expires?: number }> {
+    if (!this.enabled) {
+      return { success: false, error: 'VNS is disabled' };
+    }
+
+    try {
+      const name = normalizeVNSName(renewal.name);
+      renewal.name = name;
+
+      const entry = this.entries.get(name);
+      if (!entry) {
+        return { success: false, error: 'Name not found' };
+      }
+
+      const holder = getEntryOwnership(entry);
+      if (renewal.owner !== holder.owner) {
+        return { success: false, error: 'Only the current owner may renew' };
+      }
+
+      if (renewal.timestamp < this.holderSince(entry)) {
+        return { success: false, error: 'Renewal predates the current owner' };
+      }
+
+      const currentExpires = getEntryExpires(entry);
+      if (renewal.previousExpires !== currentExpires) {
+        return { success: false, error: 'Renewal does not extend the current expiry' };
+      }
+
+      if (this.security.isExpired(currentExpires) && !this.security.isInGracePeriod(currentExpires)) {
+        return { success: false, error: 'Renewal grace period has ended' };
+      }
+
+      // Cap how far ahead a name can be held
+      if (renewal.expires > Date.now() + 2 * VNS_CONFIG.EXPIRATION_PERIOD) {
+        return { success: false, error: 'Renewal too early (max two periods ahead)' };
+      }
+
+      const validation = this.security.validateRenewal(renewal, {
+        ...holder,
+        name,
+        expires: entry.registration.expires
+      });
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const cid = await this.storeInBlockstore(entry.registration, {
+        renewal,
+        update: entry.update,
+        transfers: entry.transfers,
+        rotations: entry.rotations,
+        previous: entry.cid
+      });
+      const renewedEntry: VNSNamespaceEntry = {
+        ...entry,
+        renewal,
+        previous: entry.cid,
+        cid,
+        lastModified: Date.now(),
+        hlc: this.clock.now(),
+        version: entry.version + 1
+      };
+
+      this.putEntry(renewedEntry);
+
+      await this.logOperation({
+        operation: 'renew',
+        name,
+        owner: renewal.owner,
+        cid,
+        merkleRoot: this.getMerkleRoot(),
+        timestamp: Date.now(),
+        success: true
+      });
+
+      console.log(`[VNS] Renewed ${name} until ${new Date(renewal.expires).toISOString()} (requested by ${peerId.slice(0, 16)}...)`);
+
+      await this.triggerDeltaPropagation('renew', name);
+      await this.saveToBlockstore();
+
+      return { success: true, cid, expires: renewal.expires };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      console.error('[VNS] Renewal failed:', error);
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Get renewal details for a name (used by clients to build a renewal)
+   */
+  getRenewalInfo(name: string): {
+    name: string;
+    owner: string;
+    expires: number;
+    graceEndsAt: number;
+    nextExpires: number;
+    renewable: boolean;
+    powDifficulty: number;
+    powAlgorithm: VNSPoWAlgorithm;
+  } | null {
+    name = normalizeVNSName(name);
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return null;
+    }
+
+    const expires = getEntryExpires(entry);
+    const graceEndsAt = expires + this.security.getRenewalGracePeriod();
+    return {
+      name,
+      owner: getEntryOwnership(entry).owner,
+      expires,
+      graceEndsAt,
+      nextExpires: expires + VNS_CONFIG.EXPIRATION_PERIOD,
+      renewable: Date.now() <= graceEndsAt,
+      powDifficulty: this.security.getRequiredDifficulty(name),
+      powAlgorithm: this.security.getPoWAlgorithm()
+    };
+  }
+
+  /**
+   * PoW difficulty required to register a name at `timestamp`
+   * null gives the difficulty for names with no length surcharge
+   */
+  getPowDifficulty(name: string | null, timestamp: number = Date.now()): number {
+    return this.security.getRequiredDifficulty(name, this.getRegistrationVolume(timestamp));
+  }
+
+  /**
+   * Rate limit usage per owner key (see rateLimitKey)
+   * Lists every key with attempts in the current window, or just `key`
+   */
+  getRateLimits(key?: string): Array<{ key: string; local: VNSRateLimitUsage; relay: VNSRateLimitUsage }> {
+    const keys = key ? [key] : this.security.getRateLimitedKeys();
+    return keys.map(k => ({ key: k, ...this.security.getRateLimitUsage(k) }));
+  }
+
+  /**
+   * Anti-spam mode pinned by network config (pow, stake or hybrid)
+   */
+  getAntiSpamMode(): VNSAntiSpamMode {
+    return this.security.getAntiSpamMode();
+  }
+
+  /**
+   * Anti-spam mode and the stake locked for names (see VNSSecurity.getStakeStatus)
+   */
+  getStakeStatus(): VNSStakeStatus {
+    return this.security.getStakeStatus();
+  }
+
+  /**
+   * PoW algorithm new registrations and renewals must use (pinned by network config)
+   */
+  getPowAlgorithm(): VNSPoWAlgorithm {
+    return this.security.getPoWAlgorithm();
+  }
+
+  /**
+   * Number of PoW registrations in the volume window for `timestamp` (see powVolumeWindow)
+   */
+  getRegistrationVolume(timestamp: number = Date.now()): number {
+    const { start, end } = powVolumeWindow(timestamp);
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      const registered = entry.registration.timestamp;
+      if (registered >= start && registered < end && !getParentVNSName(entry.name)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Get all names owned by a specific owner
+   */
+  getNamesByOwner(owner: string): string[] {
+    const owned = this.ownerIndex.get(owner) || [];
+    const zones = new Set(owned);
+    const names = [...owned];
+
+    // Include subdomains under owned zones, whoever holds them
+    for (const [name, entry] of this.entries) {
+      if (zones.has(name) || entry.tombstone) continue;
+      for (let zone = getParentVNSName(name); zone; zone = getParentVNSName(zone)) {
+        if (zones.has(zone)) {
+          names.push(name);
+          break;
+        }
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * List names in name order, one page at a time
+   *
+   * Walks the sorted name index from the cursor (or the literal part of the
+   * prefix) and stops at the end of the prefix range. Tombstoned names are
+   * skipped; expired names in their grace period are still listed.
+   */
+  listNames(options: VNSListOptions = {}): VNSListResult {
+    const limit = options.limit ?? VNS_CONFIG.LIST_DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > VNS_CONFIG.LIST_MAX_LIMIT) {
+      return { names: [], nextCursor: null, error: `Limit must be between 1 and ${VNS_CONFIG.LIST_MAX_LIMIT}` };
+    }
+    if (options.expiringBefore !== undefined && !Number.isFinite(options.expiringBefore)) {
+      return { names: [], nextCursor: null, error: 'expiringBefore must be a timestamp' };
+    }
+
+    let after: string | null = null;
+    if (options.cursor) {
+      after = decodeListCursor(options.cursor);
+      if (!after) {
+        return { names: [], nextCursor: null, error: 'Invalid cursor' };
+      }
+    }
+
+    // Everything up to the first wildcard is a literal prefix that bounds the scan
+    const prefix = (options.prefix || '').trim().toLowerCase();
+    const literal = prefix.split('*')[0];
+    const pattern = prefix.includes('*') ? wildcardPattern(prefix) : null;
+
+    const names: VNSListedName[] = [];
+    let nextCursor: string | null = null;
+    let i = lowerBound(this.sortedNames, after !== null && after >= literal ? after : literal);
+    if (after !== null && this.sortedNames[i] === after) {
+      i++;
+    }
+
+    for (; i < this.sortedNames.length; i++) {
+      const name = this.sortedNames[i];
+      if (!name.startsWith(literal)) {
+        break;
+      }
+      if (pattern && !pattern.test(name)) {
+        continue;
+      }
+
+      const entry = this.entries.get(name);
+      if (!entry || entry.tombstone) {
+        continue;
+      }
+      const owner = getEntryOwnership(entry).owner;
+      const expires = getEntryExpires(entry);
+      const records = getEntryRecords(entry);
+      if (options.owner && owner !== options.owner) continue;
+      if (options.recordType && !records.some(r => r.type === options.recordType)) continue;
+      if (options.expiringBefore !== undefined && expires >= options.expiringBefore) continue;
+
+      // One match past a full page proves there is a next page
+      if (names.length === limit) {
+        nextCursor = encodeListCursor(names[names.length - 1].name);
+        break;
+      }
+      names.push({ name, owner, expires, recordTypes: Array.from(new Set(records.map(r => r.type))) });
+    }
+
+    return { names, nextCursor };
+  }
+
+  /**
+   * Resolve a peer ID or IP address to its primary name
+   *
+   * A name only claims a subject its own PEER, A or AAAA records point at, but
+   * any owner can point at any address. When several live names claim one
+   * subject, a name held by that peer ID wins, then the earliest registration.
+   * A peer ID claimed only by other owners is still reported, marked unverified.
+   */
+  reverseResolve(subject: string): VNSReverseResolution {
+    const normalized = normalizeReverseSubject(subject);
+    const candidates = (this.primaryIndex.get(normalized) || [])
+      .map(name => this.entries.get(name))
+      .filter(entry => entry && !entry.tombstone && !this.security.isExpired(getEntryExpires(entry)))
+      .map(entry => ({
+        name: entry.name,
+        owner: getEntryOwnership(entry).owner,
+        registered: entry.registration.timestamp
+      }))
+      .sort((a, b) =>
+        Number(b.owner === normalized) - Number(a.owner === normalized) ||
+        a.registered - b.registered ||
+        (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+      );
+
+    if (candidates.length === 0) {
+      return { found: false, subject: normalized };
+    }
+
+    const primary = candidates[0];
+    const selfClaimed = primary.owner === normalized;
+    return {
+      found: true,
+      subject: normalized,
+      name: primary.name,
+      owner: primary.owner,
+      selfClaimed,
+      ...(isIPv4(normalized) || isIPv6(normalized) ? {} : { verified: selfClaimed }),
+      candidates: candidates.map(c => c.name)
+    };
+  }
+
+  /**
+   * Keys allowed to sign subdomains of a zone: the zone's owner keys plus any
+   * DELEGATE record keys (null if the zone is missing or expired)
+   */
+  private getZoneKeys(zone: string): string[] | null {
+    const entry = this.entries.get(zone);
+    if (!entry || this.security.isExpired(getEntryExpires(entry))) {
+      return null;
+    }
+
+    const holder = getEntryOwnership(entry);
+    const keys = holder.owners ? [...holder.owners.keys] : (holder.publicKey ? [holder.publicKey] : []);
+    for (const record of getEntryRecords(entry)) {
+      if (record.type === 'DELEGATE') {
+        keys.push(record.value);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Nearest ancestor zone that delegates its subtree to another key
+   */
+  private findDelegatingZone(name: string): string | null {
+    for (let zone = getParentVNSName(name); zone; zone = getParentVNSName(zone)) {
+      const entry = this.entries.get(zone);
+      if (entry && !entry.tombstone && getEntryRecords(entry).some(r => r.type === 'DELEGATE')) {
+        return zone;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the current merkle root
+   */
+  getMerkleRoot(): string {
+    return this.merkleTree.getRoot();
+  }
+
+  /**
+   * Get an inclusion or non-inclusion proof for a name
+   */
+  getProof(name: string): VNSMerkleProof {
+    return this.merkleTree.prove(normalizeVNSName(name));
+  }
+
+  /**
+   * Get the CID of the last saved (or loaded) manifest
+   */
+  getManifestCid(): string | null {
+    return this.manifestCid;
+  }
+
+  /**
+   * Get total number of registered names
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Store registration (plus latest renewal/update/transfers and the predecessor CID)
+   * in blockstore and return CID
+   */
+  private async storeInBlockstore(
+    registration: VNSRegistration,
+    extras: Omit<VNSEntryState, 'registration'> = {}
+  ): Promise<string> {
+    // Renewed/updated/transferred entries commit to those too, so their CID (and merkle leaf) changes
+    const data = serializeEntryState({ registration, ...extras });
+    const cid = await this.blockstore.put(data);
+    return cid;
+  }
+
+  /**
+   * The state an entry commits to (what its CID hashes)
+   */
+  private entryState(entry: VNSNamespaceEntry): VNSEntryState {
+    return {
+      registration: entry.registration,
+      renewal: entry.renewal,
+      update: entry.update,
+      transfers: entry.transfers,
+      rotations: entry.rotations,
+      previous: entry.previous,
+      tombstone: entry.tombstone
+    };
+  }
+
+  /**
+   * Check that an entry received from a peer rebuilds to its CID
+   * Nothing else about the entry can be trusted until this holds
+   */
+  private async entryMatchesCid(entry: VNSNamespaceEntry): Promise<boolean> {
+    if (!entry || !entry.registration || typeof entry.cid !== 'string') {
+      return false;
+    }
+    return blockMatchesCid(serializeEntryState(this.entryState(entry)), entry.cid);
+  }
+
+  /**
+   * Store the state block of an entry received from a peer, so its history can be walked
+   * Callers check entryMatchesCid first
+   */
+  private async storeRemoteState(entry: VNSNamespaceEntry): Promise<void> {
+    const { registration, ...extras } = this.entryState(entry);
+    await this.storeInBlockstore(registration, extras);
+  }
+
+  /**
+   * Replace an expired entry with its tombstone
+   * The removal time is derived from the signed expiry, so every node buries a
+   * name into the same tombstone (same CID) regardless of when its sweep runs
+   */
+  private async buryEntry(entry: VNSNamespaceEntry): Promise<VNSNamespaceEntry> {
+    const tombstone: VNSTombstone = {
+      reason: 'expired',
+      removedAt: getEntryExpires(entry) + this.security.getRenewalGracePeriod()
+    };
+    const cid = await this.storeInBlockstore(entry.registration, {
+      renewal: entry.renewal,
+      update: entry.update,
+      transfers: entry.transfers,
+      rotations: entry.rotations,
+      previous: entry.cid,
+      tombstone
+    });
+
+    const buried: VNSNamespaceEntry = {
+      ...entry,
+      previous: entry.cid,
+      tombstone,
+      cid,
+      lastModified: tombstone.removedAt,
+      hlc: this.clock.now(),
+      version: entry.version + 1
+    };
+    this.putEntry(buried);
+
+    await this.logOperation({
+      operation: 'expire',
+      name: entry.name,
+      owner: getEntryOwnership(entry).owner,
+      cid,
+      merkleRoot: this.getMerkleRoot(),
+      timestamp: Date.now(),
+      success: true
+    });
+
+    return buried;
+  }
+
+  /**
+   * Get the history of a name by walking its entry CID chain (newest first)
+   * Predecessors created on other nodes are only listed if their blocks are held locally
+   */
+  async getHistory(name: string, options: { blocks?: boolean } = {}): Promise<VNSHistory> {
+    name = normalizeVNSName(name);
+    const current = this.entries.get(name);
+    const head = current ? current.cid : null;
+    const history: VNSHistory = { name, head, events: [], complete: true };
+    if (!head || RESERVED_VNS_NAMES.includes(name as any)) {
+      // Genesis and reserved names have no signed history
+      return history;
+    }
+
+    const steps: Array<{ cid: string; raw: Uint8Array; state: VNSEntryState; check: { valid: boolean; error?: string } }> = [];
+    let cid: string | undefined = head;
+    while (cid && steps.length < VNS_CONFIG.MAX_HISTORY_LENGTH) {
+      const raw = await this.blockstore.get(cid);
+      if (!raw) break;
+
+      let state: VNSEntryState;
+      try {
+        state = parseEntryState(raw);
+      } catch (e) {
+        break;
+      }
+
+      const check = await blockMatchesCid(raw, cid)
+        ? this.validateRemoteEntry({ ...state, name, cid, lastModified: 0, version: 0 }, null)
+        : { valid: false, error: 'Block does not match its CID' };
+      steps.push({ cid, raw, state, check });
+      cid = state.previous;
+    }
+    history.complete = !cid;
+
+    const expiryEvent = (step: typeof steps[number]): VNSHistoryEvent => ({
+      operation: 'expire',
+      cid: step.cid,
+      timestamp: stateExpires(step.state),
+      owner: stateHolder(step.state),
+      signatures: [],
+      verified: step.check.valid,
+      error: step.check.error
+    });
+
+    // Lapsed but not yet swept into a tombstone
+    if (steps.length > 0 && !steps[0].state.tombstone && this.security.isExpired(stateExpires(steps[0].state))) {
+      history.events.push(expiryEvent(steps[0]));
+    }
+
+    steps.forEach((step, i) => {
+      const older = steps[i + 1];
+      const event: VNSHistoryEvent = {
+        ...describeHistoryStep(step.state, older ? older.state : null),
+        cid: step.cid,
+        previous: step.state.previous,
+        verified: step.check.valid,
+        error: step.check.error,
+        block: options.blocks ? Buffer.from(step.raw).toString('utf8') : undefined
+      };
+      history.events.push(event);
+
+      // A new registration after the previous holder's expiry (without a tombstone between)
+      if (older && !older.state.tombstone && event.operation === 'register' && stateExpires(older.state) < event.timestamp) {
+        history.events.push(expiryEvent(older));
+      }
+    });
+
+    return history;
+  }
+
+  /**
+   * Remove a name from an owner's index
+   */
+  private unindexOwner(owner: string, name: string): void {
+    const names = this.ownerIndex.get(owner);
+    if (!names) return;
+
+    const filtered = names.filter(n => n !== name);
+    if (filtered.length > 0) {
+      this.ownerIndex.set(owner, filtered);
+    } else {
+      this.ownerIndex.delete(owner);
+    }
+  }
+
+  /**
+   * Index a name by owner
+   */
+  private indexOwner(owner: string, name: string): void {
+    const names = this.ownerIndex.get(owner) || [];
+    if (!names.includes(name)) {
+      names.push(name);
+      this.ownerIndex.set(owner, names);
+    }
+  }
+
+  /**
+   * Index a name by the subjects its PRIMARY records claim
+   */
+  private indexPrimary(entry: VNSNamespaceEntry): void {
+    for (const subject of getPrimarySubjects(getEntryRecords(entry))) {
+      const names = this.primaryIndex.get(subject) || [];
+      if (!names.includes(entry.name)) {
+        names.push(entry.name);
+        this.primaryIndex.set(subject, names);
+      }
+    }
+  }
+
+  /**
+   * Remove a name from the subjects its PRIMARY records claim
+   */
+  private unindexPrimary(entry: VNSNamespaceEntry): void {
+    for (const subject of getPrimarySubjects(getEntryRecords(entry))) {
+      const filtered = (this.primaryIndex.get(subject) || []).filter(n => n !== entry.name);
+      if (filtered.length > 0) {
+        this.primaryIndex.set(subject, filtered);
+      } else {
+        this.primaryIndex.delete(subject);
+      }
+    }
+  }
+
+  /**
+   * Receive change events matching a filter until the returned function is called
+   */
+  subscribe(filter: VNSChangeFilter, listener: VNSChangeListener): () => void {
+    return this.changeFeed.subscribe(filter, listener);
+  }
+
+  /**
+   * Number of open change subscriptions
+   */
+  getSubscriptionCount(): number {
+    return this.changeFeed.size();
+  }
+
+  /**
+   * Store an entry in the cache and the merkle tree
+   * Moves the name's stake lock to its holder (released once it is tombstoned)
+   * and tells subscribers what changed
+   */
+  private putEntry(entry: VNSNamespaceEntry): void {
+    const previous = this.entries.get(entry.name);
+    if (previous) {
+      this.unindexOwner(getEntryOwnership(previous).owner, entry.name);
+      this.unindexPrimary(previous);
+    } else {
+      this.sortedNames.splice(lowerBound(this.sortedNames, entry.name), 0, entry.name);
+    }
+    this.entries.set(entry.name, entry);
+    this.merkleTree.set(entry.name, entry.cid);
+    this.dirtyNames.add(entry.name);
+    if (entry.tombstone) {
+      this.security.releaseStake(entry.name);
+    } else {
+      const owner = getEntryOwnership(entry).owner;
+      this.indexOwner(owner, entry.name);
+      this.indexPrimary(entry);
+      if (!RESERVED_VNS_NAMES.includes(entry.name as any)) {
+        this.security.lockStake(entry.name, owner, getEntryExpires(entry));
+      }
+    }
+
+    if (this.changeFeed.size() > 0) {
+      const change = describeChange(previous, entry);
+      if (change) {
+        this.changeFeed.publish(change);
+      }
+    }
+  }
+
+  /**
+   * Remove an entry from the cache and the merkle tree
+   */
+  private removeEntry(name: string): void {
+    const entry = this.entries.get(name);
+    if (entry) {
+      this.unindexOwner(getEntryOwnership(entry).owner, name);
+      this.unindexPrimary(entry);
+      this.sortedNames.splice(lowerBound(this.sortedNames, name), 1);
+    }
+    this.entries.delete(name);
+    this.merkleTree.delete(name);
+    this.dirtyNames.add(name);
+    this.security.releaseStake(name);
+  }
+
+  /**
+   * Log a VNS operation to VerimutLog
+   */
+  private async logOperation(entry: VNSLogEntry): Promise<void> {
+    if (this.log) {
+      try {
+        await this.log.add(entry);
+      } catch (e) {
+        console.warn('[VNS] Failed to log operation:', e);
+      }
+    }
+  }
+
+  /**
+   * Enable/disable VNS
+   */
+  setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     console.log(`[VNS] ${enabled ? 'Enabled' : 'Disabled'}`);
   }
@@ -658,19 +1852,55 @@ export class VNSNamespaceStore {
    */
   async importEntry(entry: VNSNamespaceEntry): Promise<boolean> {
     try {
+      // Entries arrive from untrusted peers: the CID must match before anything else is checked
+      if (!(await this.entryMatchesCid(entry))) {
+        console.warn(`[VNS] Rejected imported entry ${entry?.name}: entry does not match its CID`);
+        return false;
+      }
+
+      // Then verify the entry itself before LWW
+      const nameValidation = validateVNSName(entry.name);
+      if (!nameValidation.valid || entry.registration?.name !== entry.name) {
+        console.warn(`[VNS] Rejected imported entry ${entry.name}: invalid name`);
+        return false;
+      }
+
+      const validation = this.validateRemoteEntry(entry, null);
+      if (!validation.valid) {
+        console.warn(`[VNS] Rejected imported entry ${entry.name}: ${validation.error}`);
+        return false;
+      }
+
+      if (!entry.tombstone && this.security.isExpired(getEntryExpires(entry))) {
+        return false;
+      }
+
+      const clockCheck = this.clock.validate(entryHLC(entry));
+      if (!clockCheck.valid) {
+        console.warn(`[VNS] Rejected imported entry ${entry.name}: ${clockCheck.error}`);
+        return false;
+      }
+
       const existing = this.entries.get(entry.name);
 
-      // LWW: Only import if newer
-      if (existing && entry.lastModified <= existing.lastModified) {
+      // LWW: Only import if newer (HLC, then CID)
+      if (existing && compareEntryVersions(entry, existing) <= 0) {
         return false; // Older or equal, ignore
       }
 
-      // Update cache
-      this.entries.set(entry.name, entry);
-      this.indexOwner(entry.registration.owner, entry.name);
+      const conflict = existing ? this.checkSuccession(existing, entry) : null;
+      if (conflict) {
+        console.warn(`[VNS] Rejected imported entry ${entry.name}: ${conflict}`);
+        return false;
+      }
 
-      // Update merkle root
-      this.updateMerkleRoot();
+      // Keep the state block for history, then update cache, merkle tree and owner index
+      await this.storeRemoteState(entry);
+      this.putEntry(entry);
+      this.clock.observe(entryHLC(entry));
+
+      // Persist to blockstore
+      await this.saveToBlockstore();
 
       console.log(`[VNS] Imported entry for ${entry.name} (version ${entry.version})`);
       return true;
@@ -680,6 +1910,48 @@ export class VNSNamespaceStore {
     }
   }
 
+  /**
+   * Get a hash per name-prefix bucket for anti-entropy comparison
+   */
+  getBucketHashes(): Record<string, string> {
+    const buckets = new Map<string, string[]>();
+    for (const entry of this.entries.values()) {
+      const key = bucketOf(entry.name);
+      const items = buckets.get(key) || [];
+      items.push(`${entry.name}=${entry.cid}`);
+      buckets.set(key, items);
+    }
+
+    const hashes: Record<string, string> = {};
+    for (const [key, items] of buckets) {
+      hashes[key] = crypto.createHash('sha256')
+        .update(items.sort().join(':'))
+        .digest('hex');
+    }
+    return hashes;
+  }
+
+  /**
+   * Get entry digests for the given buckets
+   */
+  getDigests(buckets: string[]): VNSEntryDigest[] {
+    const wanted = new Set(buckets);
+    return Array.from(this.entries.values())
+      .filter(e => wanted.has(bucketOf(e.name)))
+      .map(e => ({ name: e.name, cid: e.cid, lastModified: e.lastModified, hlc: entryHLC(e) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get full entries by name (unknown names are skipped)
+   */
+  getEntries(names: string[]): VNSNamespaceEntry[] {
+    return names
+      .slice(0, VNS_CONFIG.RECONCILE_MAX_ENTRIES)
+      .map(n => this.entries.get(normalizeVNSName(n)))
+      .filter((e): e is VNSNamespaceEntry => !!e);
+  }
+
   /**
    * Propagate a delta to peers via VerimutSync
    */
@@ -687,9 +1959,10 @@ export class VNSNamespaceStore {
     const delta: VNSDelta = {
       type,
       entry,
-      merkleRoot: this.merkleRoot,
+      merkleRoot: this.getMerkleRoot(),
       peerId: this.localPeerId,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      hlc: this.clock.now()
     };
 
     if (!this.syncCallback) {
@@ -700,7 +1973,7 @@ export class VNSNamespaceStore {
     }
 
     try {
-      await this.syncCallback(delta);
+      await this.sendDelta(delta);
       console.log(`[VNS] Propagated ${type} delta for ${entry.name}`);
     } catch (e) {
       // Queue on failure
@@ -709,6 +1982,17 @@ export class VNSNamespaceStore {
     }
   }
 
+  /**
+   * Sign a delta with a fresh envelope and hand it to sync
+   * Queued deltas are re-signed when they are finally sent, so they are never stale
+   */
+  private async sendDelta(delta: VNSDelta): Promise<void> {
+    if (this.nodeIdentity) {
+      this.deltaGuard.seal(delta, this.nodeIdentity);
+    }
+    await this.syncCallback!(delta);
+  }
+
   /**
    * Queue a delta for later transmission
    */
@@ -740,7 +2024,7 @@ export class VNSNamespaceStore {
     let replayed = 0;
     for (const delta of queue) {
       try {
-        await this.syncCallback(delta);
+        await this.sendDelta(delta);
         replayed++;
       } catch (e) {
         // Re-queue on failure
@@ -765,7 +2049,8 @@ export class VNSNamespaceStore {
 
   /**
    * Apply an incoming delta from a peer
-   * Validates signature, PoW, and uses LWW for conflict resolution
+   * Checks the origin's envelope (signature, sequence, freshness) and drops entry
+   * CIDs already processed, then validates the entry and uses LWW for conflict resolution
    */
   async applyDelta(delta: VNSDelta, sourcePeerId: string): Promise<{ applied: boolean; error?: string }> {
     try {
@@ -779,73 +2064,109 @@ export class VNSNamespaceStore {
 
       console.log(`[VNS] Received ${delta.type} delta for ${name} from ${sourcePeerId.slice(0, 16)}...`);
 
+      // The entry must rebuild to its CID before the CID is used for dedup, LWW or storage
+      if (!(await this.entryMatchesCid(entry))) {
+        return { applied: false, error: 'Entry does not match its CID' };
+      }
+
+      // Propagation checks: who sent this and whether it was seen before
+      const envelopeCheck = this.deltaGuard.verify(delta);
+      if (!envelopeCheck.valid) {
+        return { applied: false, error: envelopeCheck.error };
+      }
+      if (this.deltaGuard.isDuplicate(entry.cid)) {
+        // The entry was valid when it was first processed
+        this.deltaGuard.accept(delta);
+        return { applied: false, error: 'Duplicate delta (entry already processed)' };
+      }
+
       // Validate name format
       const nameValidation = validateVNSName(name);
       if (!nameValidation.valid) {
         return { applied: false, error: `Invalid name: ${nameValidation.error}` };
       }
 
-      // Validate registration signature and PoW
-      const securityValidation = this.security.validateRegistration(
-        entry.registration,
-        sourcePeerId
-      );
+      // Validate registration (and renewal) signature and PoW
+      const securityValidation = this.validateRemoteEntry(entry, sourcePeerId);
       if (!securityValidation.valid) {
         return { applied: false, error: `Security validation failed: ${securityValidation.error}` };
       }
+      const relayed = this.isRelayedRegistration(entry, sourcePeerId);
+
+      // Clocks too far ahead of ours are rejected instead of merged
+      for (const stamp of [entryHLC(entry), delta.hlc].filter((t): t is VNSHybridTimestamp => !!t)) {
+        const clockCheck = this.clock.validate(stamp);
+        if (!clockCheck.valid) {
+          return { applied: false, error: clockCheck.error };
+        }
+      }
+
+      // Only an envelope carrying a valid entry uses up its origin's sequence number
+      this.deltaGuard.accept(delta);
+      if (delta.hlc) {
+        this.clock.observe(delta.hlc);
+      }
 
       // Check if expired
-      if (this.security.isExpired(entry.registration.expires)) {
-        // Handle expiry
-        if (delta.type === 'expire') {
-          const existing = this.entries.get(name);
-          if (existing) {
-            this.entries.delete(name);
-            this.updateMerkleRoot();
-            
-            await this.logOperation({
-              operation: 'expire',
-              name,
-              owner: existing.registration.owner,
-              timestamp: Date.now(),
-              success: true
-            });
-
-            console.log(`[VNS] Expired ${name} via delta`);
-            return { applied: true };
-          }
+      if (!entry.tombstone && this.security.isExpired(getEntryExpires(entry))) {
+        // Peers without tombstones announce expiry with the expired entry itself
+        const existing = this.entries.get(name);
+        if (delta.type === 'expire' && existing && !existing.tombstone &&
+            getEntryExpires(existing) <= getEntryExpires(entry) &&
+            getEntryExpires(existing) + this.security.getRenewalGracePeriod() < Date.now()) {
+          await this.buryEntry(existing);
+          await this.saveToBlockstore();
+
+          console.log(`[VNS] Expired ${name} via delta`);
+          return { applied: true };
         }
         return { applied: false, error: 'Entry has expired' };
       }
 
-      // LWW conflict resolution
+      // LWW conflict resolution (HLC, then CID)
       const existing = this.entries.get(name);
       if (existing) {
         // Only apply if newer
-        if (entry.lastModified <= existing.lastModified) {
-          console.log(`[VNS] Delta for ${name} is older (${entry.lastModified} <= ${existing.lastModified}), ignoring`);
+        if (compareEntryVersions(entry, existing) <= 0) {
+          console.log(`[VNS] Delta for ${name} is older (${formatHLC(entryHLC(entry))} <= ${formatHLC(entryHLC(existing))}), ignoring`);
+          this.deltaGuard.remember(entry.cid);
           return { applied: false, error: 'Older or equal timestamp (LWW)' };
         }
 
+        // A different owner may only take a live name through a signed transfer
+        const conflict = this.checkSuccession(existing, entry);
+        if (conflict) {
+          return { applied: false, error: conflict };
+        }
+
         // Check if it's a transfer
-        if (delta.type === 'transfer' && entry.registration.owner !== existing.registration.owner) {
-          console.log(`[VNS] Transfer detected: ${name} from ${existing.registration.owner.slice(0, 16)}... to ${entry.registration.owner.slice(0, 16)}...`);
+        const previousOwner = getEntryOwnership(existing).owner;
+        if (delta.type === 'transfer' && getEntryOwnership(entry).owner !== previousOwner) {
+          console.log(`[VNS] Transfer detected: ${name} from ${previousOwner.slice(0, 16)}... to ${getEntryOwnership(entry).owner.slice(0, 16)}...`);
         }
       }
 
-      // Apply the entry
-      this.entries.set(name, entry);
-      this.indexOwner(entry.registration.owner, name);
-      this.updateMerkleRoot();
+      // Apply the entry (the state it replaces can no longer come back through a delta)
+      await this.storeRemoteState(entry);
+      this.putEntry(entry);
+      if (relayed) {
+        this.security.recordRegistration(entry.registration, 'relay');
+      }
+      this.deltaGuard.remember(entry.cid);
+      if (existing) {
+        this.deltaGuard.remember(existing.cid);
+      }
+      this.clock.observe(entryHLC(entry));
+      await this.saveToBlockstore();
 
       // Log the operation
       await this.logOperation({
-        operation: delta.type === 'expire' ? 'expire' : (existing ? 'update' : 'register'),
+        operation: entry.tombstone ? 'expire' : (existing && !existing.tombstone ? 'update' : 'register'),
         name,
-        owner: entry.registration.owner,
-        newOwner: delta.type === 'transfer' ? entry.registration.owner : undefined,
+        owner: getEntryOwnership(entry).owner,
+        newOwner: delta.type === 'transfer' ? getEntryOwnership(entry).owner : undefined,
         cid: entry.cid,
-        merkleRoot: this.merkleRoot,
+        merkleRoot: this.getMerkleRoot(),
         timestamp: Date.now(),
         success: true
       });
@@ -853,7 +2174,7 @@ export class VNSNamespaceStore {
       console.log(`[VNS] Applied ${delta.type} delta for ${name} (version ${entry.version})`);
 
       // Re-propagate if we're the new owner (helps with mesh convergence)
-      if (entry.registration.owner === this.localPeerId) {
+      if (getEntryOwnership(entry).owner === this.localPeerId) {
         await this.propagateDelta(delta.type, entry);
       }
 
@@ -865,6 +2186,190 @@ export class VNSNamespaceStore {
     }
   }
 
+  /**
+   * Validate an entry received from a peer (sourcePeerId null = pulled, no rate limit)
+   * A renewed entry may outlive its original registration, so only the
+   * registration's authenticity is checked and the renewal carries the expiry
+   */
+  private validateRemoteEntry(entry: VNSNamespaceEntry, sourcePeerId: string | null): { valid: boolean; error?: string } {
+    // Subdomains need their parent zone locally (it syncs first or on a later round)
+    let zoneKeys: string[] = [];
+    const parent = getParentVNSName(entry.name);
+    if (parent) {
+      const keys = this.getZoneKeys(parent);
+      if (!keys) {
+        return { valid: false, error: `Parent zone ${parent} is unknown or expired` };
+      }
+      zoneKeys = keys;
+    }
+
+    // A tombstone must bury a name whose expiry and grace period have passed
+    if (entry.tombstone) {
+      const removable = getEntryExpires(entry) + this.security.getRenewalGracePeriod();
+      if (entry.tombstone.reason !== 'expired' || entry.tombstone.removedAt < removable || entry.tombstone.removedAt > Date.now()) {
+        return { valid: false, error: 'Tombstone does not follow the expiry of the entry it removes' };
+      }
+    }
+
+    // Fresh registrations pay the volume surcharge; replicas only re-check the name-length part,
+    // so later namespace growth never invalidates an entry that already synced
+    const registrationCheck = !this.isRelayedRegistration(entry, sourcePeerId)
+      ? this.security.validateAuthenticity(entry.registration, zoneKeys)
+      : this.security.validateRelayedRegistration(
+          entry.registration, sourcePeerId, zoneKeys, this.getPowDifficulty(entry.name, entry.registration.timestamp)
+        );
+    if (!registrationCheck.valid) {
+      return registrationCheck;
+    }
+
+    // The registration period is fixed whatever amends the entry (callers check that the entry
+    // itself has not expired, since a renewal may carry it past the registration's expiry)
+    const expiryCheck = this.security.validateExpiryPeriod(entry.registration);
+    if (!expiryCheck.valid) {
+      return expiryCheck;
+    }
+
+    // The holder of a live name must be able to hold its stake, same as for local registrations
+    // (balances come from the network's pinned allocation, see stake-ledger.ts)
+    if (!entry.tombstone) {
+      const stakeCheck = this.security.validateStake(entry.name, getEntryOwnership(entry).owner);
+      if (!stakeCheck.valid) {
+        return stakeCheck;
+      }
+    }
+
+    // Each transfer must be signed by the holder it moves the name from, and each key
+    // rotation by the key (or recovery key) it replaces, in one time-ordered chain
+    const chain: Array<{ timestamp: number; nonce: string; check: (holder: VNSOwnership) => { valid: boolean; error?: string } }> = [
+      ...(entry.transfers || []).map(t => ({
+        timestamp: t.timestamp,
+        nonce: t.nonce,
+        check: (holder: VNSOwnership) => this.security.validateTransfer(t, { ...holder, name: entry.name })
+      })),
+      ...(entry.rotations || []).map(r => ({
+        timestamp: r.timestamp,
+        nonce: r.nonce,
+        check: (holder: VNSOwnership) => this.security.validateRotation(r, { ...holder, name: entry.name })
+      }))
+    ].sort((a, b) => a.timestamp - b.timestamp);
+    let lastTimestamp = entry.registration.timestamp;
+    const nonces = new Set<string>();
+    for (const step of chain) {
+      if (step.timestamp <= lastTimestamp || nonces.has(step.nonce)) {
+        return { valid: false, error: 'Ownership chain is out of order or replays a nonce' };
+      }
+      const stepCheck = step.check(this.holderAt(entry, lastTimestamp));
+      if (!stepCheck.valid) {
+        return stepCheck;
+      }
+      lastTimestamp = step.timestamp;
+      nonces.add(step.nonce);
+    }
+
+    // Renewals and updates are checked against whoever held the name when they were signed
+    if (entry.renewal) {
+      const renewalCheck = this.security.validateRenewal(entry.renewal, {
+        ...this.holderAt(entry, entry.renewal.timestamp),
+        name: entry.name,
+        expires: entry.registration.expires
+      });
+      if (!renewalCheck.valid) {
+        return renewalCheck;
+      }
+    }
+
+    if (entry.update) {
+      return this.security.validateUpdate(entry.update, {
+        ...this.holderAt(entry, entry.update.timestamp),
+        name: entry.name
+      });
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Whether a remote entry relays a registration this node does not hold yet, checked against
+   * and charged to the relay budget once stored whatever transfers, rotations or renewal it
+   * carries (pulled entries and later states of a known registration are not)
+   */
+  private isRelayedRegistration(entry: VNSNamespaceEntry, sourcePeerId: string | null): boolean {
+    const known = this.entries.get(entry.name);
+    return !!sourcePeerId && known?.registration.signature !== entry.registration.signature;
+  }
+
+  /**
+   * Check whether a remote entry may replace the local one
+   * The same registration must extend our transfer and rotation chains and carry an update
+   * and renewal no older than ours (no rollbacks, whatever its unsigned HLC says); a different
+   * registration may only take a held name if it came first (first-come-first-served)
+   */
+  private checkSuccession(existing: VNSNamespaceEntry, incoming: VNSNamespaceEntry): string | null {
+    // Only a state that outlives the buried one (a later renewal or registration) replaces a tombstone
+    if (existing.tombstone && !incoming.tombstone && getEntryExpires(incoming) <= getEntryExpires(existing)) {
+      return 'Name was removed (tombstone is newer than this entry)';
+    }
+    // A tombstone only buries a state we hold no newer version of
+    if (incoming.tombstone && !existing.tombstone && getEntryExpires(existing) > getEntryExpires(incoming)) {
+      return 'Tombstone is older than the live entry';
+    }
+
+    if (incoming.registration.signature === existing.registration.signature) {
+      const ours = existing.transfers || [];
+      const theirs = incoming.transfers || [];
+      if (theirs.length < ours.length || ours.some((t, i) => t.nonce !== theirs[i].nonce)) {
+        return 'Entry would roll back a transfer';
+      }
+      const ourKeys = existing.rotations || [];
+      const theirKeys = incoming.rotations || [];
+      if (theirKeys.length < ourKeys.length || ourKeys.some((r, i) => r.nonce !== theirKeys[i].nonce)) {
+        return 'Entry would roll back a key rotation';
+      }
+      if ((incoming.update?.timestamp || 0) < (existing.update?.timestamp || 0)) {
+        return 'Entry would roll back a record update';
+      }
+      if ((incoming.renewal?.timestamp || 0) < (existing.renewal?.timestamp || 0)) {
+        return 'Entry would roll back a renewal';
+      }
+      return null;
+    }
+
+    if (incoming.registration.owner === getEntryOwnership(existing).owner) {
+      // The owner's own earlier registration does not come back either
+      if (!existing.tombstone && incoming.registration.timestamp < existing.registration.timestamp) {
+        return 'Entry would roll back to an earlier registration';
+      }
+      return null;
+    }
+
+    const existingExpires = getEntryExpires(existing);
+    const held = !this.security.isExpired(existingExpires) || this.security.isInGracePeriod(existingExpires);
+    if (held && incoming.registration.timestamp >= existing.registration.timestamp) {
+      return 'Name is owned by another key';
+    }
+    return null;
+  }
+
+  /**
+   * Time the current holder and key took over (registration, latest transfer or key rotation)
+   */
+  private holderSince(entry: VNSNamespaceEntry): number {
+    const transfers = entry.transfers || [];
+    const rotations = entry.rotations || [];
+    return Math.max(
+      entry.registration.timestamp,
+      transfers.length > 0 ? transfers[transfers.length - 1].timestamp : 0,
+      rotations.length > 0 ? rotations[rotations.length - 1].timestamp : 0
+    );
+  }
+
+  /**
+   * Holder of an entry at a point in time (walks the transfer and rotation chains)
+   */
+  private holderAt(entry: VNSNamespaceEntry, timestamp: number): VNSOwnership {
+    return getEntryOwnershipAt(entry, timestamp);
+  }
+
   /**
    * Trigger delta propagation after successful local operations
    */
@@ -0,0 +1,183 @@
+/**
+ * VNS Proof-of-Work Solver
+ *
+ * Searches for a PoW nonce on several worker threads. Worker i of n tries the
+ * nonces i, i + n, i + 2n, ... so the threads never overlap, and the first one
+ * to find a hash with the required leading zeros wins; the others are stopped.
+ *
+ * The solver reports progress (attempts and hash rate) while it runs, and can
+ * be stopped with an AbortSignal or a timeout. Nonces are plain integers, the
+ * same as the single-threaded search produced, and validate with
+ * VNSProofOfWork.validate.
+ */
+
+import os from 'os';
+import { Worker } from 'worker_threads';
+import { VNS_CONFIG, VNSPoWAlgorithm } from '../types/vns-schema.js';
+
+/**
+ * scrypt parameters for the memory-hard PoW (shared with VNSProofOfWork)
+ */
+export const POW_SCRYPT_SALT = 'vns-pow';
+
+export function powScryptOptions(): { N: number; r: number; p: number; maxmem: number } {
+  return {
+    N: VNS_CONFIG.POW_SCRYPT_COST,
+    r: 8,
+    p: 1,
+    maxmem: 2 * 128 * 8 * VNS_CONFIG.POW_SCRYPT_COST // twice the 128 * N * r bytes scrypt uses
+  };
+}
+
+/**
+ * Search loop run by each worker (plain JS, so it runs from source and from dist)
+ * Posts { type: 'progress' | 'found' | 'done', attempts, nonce? }
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const crypto = require('crypto');
+
+function search({ name, owner, algorithm, zeros, scrypt, start, stride, maxAttempts, batch }) {
+  const prefix = '0'.repeat(zeros);
+  const hash = algorithm === 'scrypt'
+    ? input => crypto.scryptSync(input, scrypt.salt, 32, scrypt.options).toString('hex')
+    : input => crypto.createHash('sha256').update(input).digest('hex');
+
+  let pending = 0;
+  for (let i = 0, nonce = start; i < maxAttempts; i++, nonce += stride) {
+    pending++;
+    if (hash(name + ':' + owner + ':' + nonce).startsWith(prefix)) {
+      parentPort.postMessage({ type: 'found', nonce, attempts: pending });
+      return;
+    }
+    if (pending === batch) {
+      parentPort.postMessage({ type: 'progress', attempts: pending });
+      pending = 0;
+    }
+  }
+  parentPort.postMessage({ type: 'done', attempts: pending });
+}
+
+search(workerData);
+`;
+
+/**
+ * What to solve: find a nonce whose `algorithm` hash of `name:owner:nonce`
+ * starts with `zeros` hex zeros
+ */
+export interface VNSPoWPuzzle {
+  name: string;
+  owner: string;
+  zeros: number;
+  algorithm?: VNSPoWAlgorithm; // default: sha256
+}
+
+/**
+ * Search progress, reported every `progressInterval` ms
+ */
+export interface VNSPoWProgress {
+  attempts: number; // Hashes tried so far (all threads)
+  elapsed: number; // ms since the search started
+  hashRate: number; // Hashes per second
+}
+
+export interface VNSPoWSolveOptions {
+  threads?: number; // Worker threads (default: available CPU cores)
+  maxAttempts?: number; // Give up after this many hashes in total (default: 4x the expected number)
+  timeout?: number; // Give up after this many ms (default: none)
+  signal?: AbortSignal; // Cancels the search
+  onProgress?: (progress: VNSPoWProgress) => void;
+  progressInterval?: number; // ms between progress reports (default: 500)
+}
+
+/**
+ * Search outcome (nonce is null unless status is 'found')
+ */
+export interface VNSPoWSolution extends VNSPoWProgress {
+  nonce: number | null;
+  status: 'found' | 'exhausted' | 'timeout' | 'cancelled';
+}
+
+/**
+ * Find a PoW nonce using worker threads
+ * Rejects only if a worker fails; running out of attempts, timing out and
+ * cancellation resolve with a null nonce and the matching status
+ */
+export function solvePoW(puzzle: VNSPoWPuzzle, options: VNSPoWSolveOptions = {}): Promise<VNSPoWSolution> {
+  const algorithm = puzzle.algorithm || 'sha256';
+  const maxAttempts = options.maxAttempts ?? Math.max(1000, 4 * Math.pow(16, puzzle.zeros));
+  const threads = Math.max(1, Math.min(options.threads ?? os.availableParallelism(), maxAttempts));
+  const perThread = Math.ceil(maxAttempts / threads);
+  // Keep progress messages to a few per second per thread
+  const batch = algorithm === 'sha256' ? 5000 : 1;
+
+  const started = Date.now();
+  let attempts = 0;
+  const progress = (): VNSPoWProgress => {
+    const elapsed = Date.now() - started;
+    return { attempts, elapsed, hashRate: elapsed > 0 ? Math.round(attempts / (elapsed / 1000)) : 0 };
+  };
+
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    const timers: NodeJS.Timeout[] = [];
+    let running = threads;
+    let settled = false;
+
+    const finish = (error: Error | null, nonce: number | null, status: VNSPoWSolution['status']) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      timers.forEach(timer => clearTimeout(timer));
+      options.signal?.removeEventListener('abort', onAbort);
+      Promise.all(workers.map(worker => worker.terminate())).finally(() => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ ...progress(), nonce, status });
+        }
+      });
+    };
+    const onAbort = () => finish(null, null, 'cancelled');
+
+    if (options.signal?.aborted) {
+      resolve({ ...progress(), nonce: null, status: 'cancelled' });
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.timeout !== undefined) {
+      timers.push(setTimeout(() => finish(null, null, 'timeout'), options.timeout));
+    }
+    if (options.onProgress) {
+      timers.push(setInterval(() => options.onProgress!(progress()), options.progressInterval ?? 500));
+    }
+
+    for (let i = 0; i < threads; i++) {
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          name: puzzle.name,
+          owner: puzzle.owner,
+          algorithm,
+          zeros: puzzle.zeros,
+          scrypt: { salt: POW_SCRYPT_SALT, options: powScryptOptions() },
+          start: i,
+          stride: threads,
+          maxAttempts: perThread,
+          batch
+        }
+      });
+      worker.on('message', (message: { type: string; attempts: number; nonce?: number }) => {
+        attempts += message.attempts;
+        if (message.type === 'found') {
+          finish(null, message.nonce!, 'found');
+        } else if (message.type === 'done' && --running === 0) {
+          finish(null, null, 'exhausted');
+        }
+      });
+      worker.on('error', error => finish(error, null, 'exhausted'));
+      workers.push(worker);
+    }
+  });
+}
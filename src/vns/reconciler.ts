@@ -0,0 +1,263 @@
+/**
+ * VNS Anti-Entropy Reconciler
+ *
+ * Periodically compares merkle roots with a random peer and pulls the entries
+ * that differ, so nodes that missed deltas (offline, dropped messages) converge.
+ *
+ * Rounds:
+ * 1. Compare merkle roots - stop if equal
+ * 2. Compare per-bucket hashes (name-prefix ranges)
+ * 3. Compare entry digests in differing buckets
+ * 4. Pull only newer/missing entries (by HLC, then CID) and apply them through importEntry()
+ *
+ * Transports: libp2p (/verimut/vns/1.0.0) or HTTP (/api/vns/sync/*) for
+ * nodes running on the pubsub shim.
+ */
+
+import type { VNSNamespaceStore } from './namespace-store.js';
+import type { VNSProtocolHandler } from '../protocols/vns-protocol.js';
+import type { VNSEntryDigest, VNSNamespaceEntry } from '../types/vns-schema.js';
+import { VNS_CONFIG } from '../types/vns-schema.js';
+import { compareEntryVersions } from './hlc.js';
+
+/**
+ * Remote side of a reconciliation round
+ */
+export interface VNSReconcileTransport {
+  label: string;
+  getMerkleRoot(): Promise<string>;
+  getBucketHashes(): Promise<Record<string, string>>;
+  getDigests(buckets: string[]): Promise<VNSEntryDigest[]>;
+  getEntries(names: string[]): Promise<VNSNamespaceEntry[]>;
+}
+
+/**
+ * Result of a single reconciliation round
+ */
+export interface VNSReconcileResult {
+  peer: string;
+  inSync: boolean;
+  differingBuckets: number;
+  requested: number;
+  imported: number;
+  error?: string;
+}
+
+export interface VNSReconcilerOptions {
+  // libp2p handle + protocol handler (omit when running on the pubsub shim)
+  libp2p?: any;
+  protocol?: VNSProtocolHandler | null;
+  // HTTP peer base URLs (evaluated per round so discovery updates are picked up)
+  httpPeers?: () => string[];
+  intervalMs?: number;
+}
+
+/**
+ * Transport over the libp2p VNS protocol
+ */
+export function createLibp2pTransport(protocol: VNSProtocolHandler, peerId: string): VNSReconcileTransport {
+  const request = async (body: any) => {
+    const response = await protocol.makeRequest(peerId, body);
+    if (!response.success) {
+      throw new Error(response.error || `${body.type} request failed`);
+    }
+    return response.data;
+  };
+
+  return {
+    label: peerId,
+    getMerkleRoot: async () => (await request({ type: 'ping' })).merkleRoot,
+    getBucketHashes: async () => (await request({ type: 'sync-buckets' })).buckets,
+    getDigests: async (buckets) => (await request({ type: 'sync-digests', buckets })).digests,
+    getEntries: async (names) => (await request({ type: 'sync-entries', names })).entries
+  };
+}
+
+/**
+ * Transport over the HTTP API (for nodes using the pubsub shim)
+ */
+export function createHTTPTransport(baseUrl: string): VNSReconcileTransport {
+  const request = async (urlPath: string, body?: any) => {
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(`${baseUrl}${urlPath}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(VNS_CONFIG.RECONCILE_REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${urlPath}`);
+    }
+    return response.json() as Promise<any>;
+  };
+
+  return {
+    label: baseUrl,
+    getMerkleRoot: async () => (await request('/api/vns/status')).merkleRoot,
+    getBucketHashes: async () => (await request('/api/vns/sync/buckets')).buckets,
+    getDigests: async (buckets) => (await request('/api/vns/sync/digests', { buckets })).digests,
+    getEntries: async (names) => (await request('/api/vns/sync/entries', { names })).entries
+  };
+}
+
+/**
+ * VNS Reconciler
+ */
+export class VNSReconciler {
+  private store: VNSNamespaceStore;
+  private libp2p: any;
+  private protocol: VNSProtocolHandler | null;
+  private httpPeers: () => string[];
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private reconciling = false;
+  private lastResult: VNSReconcileResult | null = null;
+
+  constructor(store: VNSNamespaceStore, options: VNSReconcilerOptions = {}) {
+    this.store = store;
+    this.libp2p = options.libp2p ?? null;
+    this.protocol = options.protocol ?? null;
+    this.httpPeers = options.httpPeers ?? (() => []);
+    this.intervalMs = options.intervalMs ?? VNS_CONFIG.RECONCILE_INTERVAL_MS;
+  }
+
+  /**
+   * Start periodic reconciliation rounds
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(async () => {
+      await this.runRound();
+    }, this.intervalMs);
+
+    console.log(`[VNS Reconciler] Started (${Math.round(this.intervalMs / 1000)}s interval)`);
+  }
+
+  /**
+   * Stop periodic reconciliation rounds
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[VNS Reconciler] Stopped');
+    }
+  }
+
+  /**
+   * Reconcile with one randomly chosen peer
+   */
+  async runRound(): Promise<VNSReconcileResult | null> {
+    if (this.reconciling) return null;
+
+    const transports = this.getTransports();
+    if (transports.length === 0) {
+      return null;
+    }
+
+    const transport = transports[Math.floor(Math.random() * transports.length)];
+    this.reconciling = true;
+    try {
+      this.lastResult = await this.reconcileWith(transport);
+      return this.lastResult;
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * Reconcile with a specific peer
+   */
+  async reconcileWith(transport: VNSReconcileTransport): Promise<VNSReconcileResult> {
+    const result: VNSReconcileResult = {
+      peer: transport.label,
+      inSync: false,
+      differingBuckets: 0,
+      requested: 0,
+      imported: 0
+    };
+
+    try {
+      // Stage 1: roots
+      const remoteRoot = await transport.getMerkleRoot();
+      if (remoteRoot === this.store.getMerkleRoot()) {
+        result.inSync = true;
+        return result;
+      }
+
+      // Stage 2: bucket hashes
+      const remoteBuckets = await transport.getBucketHashes();
+      const localBuckets = this.store.getBucketHashes();
+      const differing = Object.keys(remoteBuckets)
+        .filter(key => remoteBuckets[key] !== localBuckets[key]);
+      result.differingBuckets = differing.length;
+      if (differing.length === 0) {
+        return result;
+      }
+
+      // Stage 3: digests in differing buckets
+      const remoteDigests = await transport.getDigests(differing);
+      const localDigests = new Map(this.store.getDigests(differing).map(d => [d.name, d]));
+      const wanted = remoteDigests
+        .filter(remote => {
+          const local = localDigests.get(remote.name);
+          return !local || (remote.cid !== local.cid && compareEntryVersions(remote, local) > 0);
+        })
+        .map(d => d.name)
+        // Parent zones before their subdomains, so children validate in the same round
+        .sort((a, b) => a.split('.').length - b.split('.').length);
+
+      // Stage 4: pull and import in batches
+      for (let i = 0; i < wanted.length; i += VNS_CONFIG.RECONCILE_MAX_ENTRIES) {
+        const batch = wanted.slice(i, i + VNS_CONFIG.RECONCILE_MAX_ENTRIES);
+        result.requested += batch.length;
+        const entries = await transport.getEntries(batch);
+        for (const entry of entries) {
+          if (await this.store.importEntry(entry)) {
+            result.imported++;
+          }
+        }
+      }
+
+      if (result.imported > 0) {
+        console.log(`[VNS Reconciler] Imported ${result.imported}/${result.requested} entries from ${transport.label.slice(0, 32)}`);
+      }
+      return result;
+    } catch (e) {
+      result.error = e instanceof Error ? e.message : 'Unknown error';
+      console.warn(`[VNS Reconciler] Round with ${transport.label.slice(0, 32)} failed: ${result.error}`);
+      return result;
+    }
+  }
+
+  /**
+   * Get the result of the last round
+   */
+  getLastResult(): VNSReconcileResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Build transports for all currently reachable peers
+   */
+  private getTransports(): VNSReconcileTransport[] {
+    const transports: VNSReconcileTransport[] = [];
+
+    if (this.protocol && this.libp2p && typeof this.libp2p.getPeers === 'function') {
+      try {
+        for (const peer of this.libp2p.getPeers()) {
+          transports.push(createLibp2pTransport(this.protocol, peer.toString()));
+        }
+      } catch (e) {
+        // ignore peer listing errors
+      }
+    }
+
+    for (const url of this.httpPeers()) {
+      transports.push(createHTTPTransport(url));
+    }
+
+    return transports;
+  }
+}
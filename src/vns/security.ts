@@ -5,64 +5,268 @@
  */
 
 import crypto from 'crypto';
-import { VNS_CONFIG } from '../types/vns-schema.js';
+import fs from 'fs';
+import {
+  VNS_CONFIG,
+  VNSRegistration,
+  VNSRenewal,
+  VNSRecordUpdate,
+  VNSTransfer,
+  VNSKeyRotation,
+  VNSOwnerSet,
+  VNSOwnership,
+  VNSZoneSignature,
+  VNSPoWAlgorithm,
+  VNSPoWPolicy,
+  VNSAntiSpamMode,
+  VNSStakeLock,
+  VNSStakeStatus,
+  VNSRateLimitBudget,
+  VNSRateLimitUsage,
+  isVNSSubdomain,
+  validateVNSRecords
+} from '../types/vns-schema.js';
 import { verifySignature } from '../identity.js';
+import {
+  POW_SCRYPT_SALT,
+  VNSPoWSolution,
+  VNSPoWSolveOptions,
+  powScryptOptions,
+  solvePoW
+} from './pow-solver.js';
+import { VNSLocalStakeLedger, VNSStakeProvider } from './stake-ledger.js';
 
 /**
- * Rate limiter for VNS operations per peer
+ * PoW subject for a renewal
+ * Binding the expiry being extended makes every renewal need fresh work
+ */
+export function renewalPoWSubject(name: string, previousExpires: number): string {
+  return `renew:${name}:${previousExpires}`;
+}
+
+/**
+ * Window whose registration count sets the volume surcharge for a registration
+ * made at `timestamp`: the last full window before it, so every node holding
+ * the same namespace derives the same difficulty
+ */
+export function powVolumeWindow(timestamp: number): { start: number; end: number } {
+  const end = Math.floor(timestamp / VNS_CONFIG.POW_VOLUME_WINDOW) * VNS_CONFIG.POW_VOLUME_WINDOW;
+  return { start: end - VNS_CONFIG.POW_VOLUME_WINDOW, end };
+}
+
+/**
+ * PoW hash functions
+ * `zeros` maps a difficulty to the leading hex zeros the hash needs; scrypt
+ * needs fewer since each of its hashes costs far more than a SHA-256
+ */
+const POW_ALGORITHMS: Record<VNSPoWAlgorithm, {
+  hash: (input: string) => string;
+  zeros: (difficulty: number) => number;
+}> = {
+  sha256: {
+    hash: input => crypto.createHash('sha256').update(input).digest('hex'),
+    zeros: difficulty => difficulty
+  },
+  scrypt: {
+    hash: input => crypto.scryptSync(input, POW_SCRYPT_SALT, 32, powScryptOptions()).toString('hex'),
+    zeros: difficulty => Math.max(1, difficulty - VNS_CONFIG.POW_SCRYPT_ZERO_DISCOUNT)
+  }
+};
+
+/**
+ * Check whether a string names a supported PoW algorithm
+ */
+export function isPoWAlgorithm(algorithm: string): algorithm is VNSPoWAlgorithm {
+  return Object.prototype.hasOwnProperty.call(POW_ALGORITHMS, algorithm);
+}
+
+/**
+ * Check whether a string names a supported anti-spam mode
+ */
+export function isAntiSpamMode(mode: string): mode is VNSAntiSpamMode {
+  return mode === 'pow' || mode === 'stake' || mode === 'hybrid';
+}
+
+/**
+ * PoW hash (hex) of `name:owner:nonce`
+ */
+export function powHash(name: string, owner: string, nonce: number, algorithm: VNSPoWAlgorithm = 'sha256'): string {
+  return POW_ALGORITHMS[algorithm].hash(`${name}:${owner}:${nonce}`);
+}
+
+/**
+ * Leading hex zeros a PoW hash needs at a difficulty
+ */
+export function powZeros(difficulty: number, algorithm: VNSPoWAlgorithm = 'sha256'): number {
+  return POW_ALGORITHMS[algorithm].zeros(difficulty);
+}
+
+/**
+ * Rate limit key for a registration: the owner's public key (hashed), or the
+ * owner ID if the registration carries no key
+ */
+export function rateLimitKey(registration: { owner: string; publicKey?: string }): string {
+  const key = registration.publicKey ? registration.publicKey.trim() : registration.owner;
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 32);
+}
+
+const RATE_LIMITS: Record<VNSRateLimitBudget, number> = {
+  local: VNS_CONFIG.RATE_LIMIT_PER_HOUR,
+  relay: VNS_CONFIG.RATE_LIMIT_RELAY_PER_HOUR
+};
+
+/**
+ * Rate limiter for VNS registrations per owner key (see rateLimitKey)
+ * Local submissions and relayed deltas have separate budgets. With a file
+ * path the counters are saved, batched into one write per
+ * VNS_CONFIG.STATE_SAVE_DELAY_MS (see flush), so limits survive restarts.
  */
 export class VNSRateLimiter {
-  private attempts: Map<string, number[]>; // peerId -> array of timestamps
+  private attempts: Map<VNSRateLimitBudget, Map<string, number[]>>; // budget -> key -> attempt timestamps
+  private filePath: string | null;
+  private saveTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
-    this.attempts = new Map();
+  constructor(filePath: string | null = null) {
+    this.attempts = new Map([['local', new Map()], ['relay', new Map()]]);
+    this.filePath = filePath;
+    this.load();
   }
 
   /**
-   * Check if a peer has exceeded rate limits
+   * Check if a key has exceeded its rate limit
    */
-  checkLimit(peerId: string): boolean {
-    const now = Date.now();
-    const windowStart = now - VNS_CONFIG.RATE_LIMIT_WINDOW_MS;
-
-    // Get or create attempts array for this peer
-    let attempts = this.attempts.get(peerId) || [];
-
-    // Filter out attempts outside the window
-    attempts = attempts.filter(ts => ts > windowStart);
+  checkLimit(key: string, budget: VNSRateLimitBudget = 'local'): boolean {
+    return this.windowed(key, budget).length < RATE_LIMITS[budget];
+  }
 
-    // Update the map
-    this.attempts.set(peerId, attempts);
+  /**
+   * Record an attempt for a key
+   */
+  recordAttempt(key: string, budget: VNSRateLimitBudget = 'local'): void {
+    const attempts = this.windowed(key, budget);
+    attempts.push(Date.now());
+    this.attempts.get(budget)!.set(key, attempts);
+    this.scheduleSave();
+  }
 
-    // Check if limit exceeded
-    return attempts.length < VNS_CONFIG.RATE_LIMIT_PER_HOUR;
+  /**
+   * Usage of a key's budget in the current window
+   */
+  getUsage(key: string, budget: VNSRateLimitBudget = 'local'): VNSRateLimitUsage {
+    const attempts = this.windowed(key, budget);
+    const limit = RATE_LIMITS[budget];
+    return {
+      limit,
+      used: attempts.length,
+      remaining: Math.max(0, limit - attempts.length),
+      resetsAt: attempts.length > 0 ? attempts[0] + VNS_CONFIG.RATE_LIMIT_WINDOW_MS : null
+    };
   }
 
   /**
-   * Record an attempt for a peer
+   * Keys with attempts in the current window (sorted)
    */
-  recordAttempt(peerId: string): void {
-    const now = Date.now();
-    const attempts = this.attempts.get(peerId) || [];
-    attempts.push(now);
-    this.attempts.set(peerId, attempts);
+  getKeys(): string[] {
+    const keys = new Set<string>();
+    for (const [budget, byKey] of this.attempts) {
+      for (const key of byKey.keys()) {
+        if (this.windowed(key, budget).length > 0) {
+          keys.add(key);
+        }
+      }
+    }
+    return Array.from(keys).sort();
   }
 
   /**
    * Clear old attempts (cleanup task)
    */
   cleanup(): void {
-    const now = Date.now();
-    const windowStart = now - VNS_CONFIG.RATE_LIMIT_WINDOW_MS;
-
-    for (const [peerId, attempts] of this.attempts.entries()) {
-      const filtered = attempts.filter(ts => ts > windowStart);
-      if (filtered.length === 0) {
-        this.attempts.delete(peerId);
-      } else {
-        this.attempts.set(peerId, filtered);
+    const windowStart = Date.now() - VNS_CONFIG.RATE_LIMIT_WINDOW_MS;
+    let changed = false;
+    for (const byKey of this.attempts.values()) {
+      for (const [key, attempts] of byKey.entries()) {
+        const filtered = attempts.filter(ts => ts > windowStart);
+        if (filtered.length === attempts.length) {
+          continue;
+        }
+        changed = true;
+        if (filtered.length === 0) {
+          byKey.delete(key);
+        } else {
+          byKey.set(key, filtered);
+        }
       }
     }
+    if (changed) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Write changes still waiting for their batched save (call before shutdown)
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      this.save();
+    }
+  }
+
+  /**
+   * Attempts of a key inside the window
+   */
+  private windowed(key: string, budget: VNSRateLimitBudget): number[] {
+    const windowStart = Date.now() - VNS_CONFIG.RATE_LIMIT_WINDOW_MS;
+    return (this.attempts.get(budget)!.get(key) || []).filter(ts => ts > windowStart);
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const budget of ['local', 'relay'] as VNSRateLimitBudget[]) {
+        for (const [key, attempts] of Object.entries(data?.[budget] || {})) {
+          if (Array.isArray(attempts)) {
+            this.attempts.get(budget)!.set(key, attempts.filter(ts => typeof ts === 'number'));
+          }
+        }
+      }
+    } catch (e) {
+      // Counters only throttle; starting from zero is safe
+      console.warn('[VNS] Rate limit file is unreadable, ignoring:', e instanceof Error ? e.message : e);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.flush(), VNS_CONFIG.STATE_SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Written to a temp file and renamed so a crash never leaves a partial file
+   */
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.filePath) {
+      return;
+    }
+
+    const data: Record<string, Record<string, number[]>> = {};
+    for (const [budget, byKey] of this.attempts) {
+      data[budget] = Object.fromEntries(byKey);
+    }
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
   }
 }
 
@@ -78,38 +282,63 @@ export class VNSProofOfWork {
 
   /**
    * Validate that a nonce produces a valid PoW hash
-   * Hash must have N leading zeros where N = difficulty
+   * Hash must have the leading zeros `algorithm` needs at `difficulty` (default: the base difficulty)
    */
-  validate(name: string, owner: string, nonce: number): boolean {
-    const input = `${name}:${owner}:${nonce}`;
-    const hash = crypto.createHash('sha256').update(input).digest('hex');
-    
-    // Debug logging
-    console.log(`[VNS PoW] Validating: name="${name}", owner="${owner}", nonce=${nonce} (type: ${typeof nonce})`);
-    console.log(`[VNS PoW] Input: "${input}"`);
-    console.log(`[VNS PoW] Hash: ${hash.substring(0, 10)}...`);
-    console.log(`[VNS PoW] Required difficulty: ${this.difficulty} zeros`);
-    
-    // Check for required leading zeros
-    const prefix = '0'.repeat(this.difficulty);
-    const isValid = hash.startsWith(prefix);
-    console.log(`[VNS PoW] Valid: ${isValid}`);
+  validate(
+    name: string,
+    owner: string,
+    nonce: number,
+    difficulty: number = this.difficulty,
+    algorithm: VNSPoWAlgorithm = 'sha256'
+  ): boolean {
+    if (!isPoWAlgorithm(algorithm)) {
+      return false;
+    }
+    const isValid = this.matches(name, owner, nonce, difficulty, algorithm);
+    console.log(`[VNS PoW] ${algorithm} nonce ${nonce} for "${name}" (${powZeros(difficulty, algorithm)} zeros): ${isValid ? 'valid' : 'invalid'}`);
     return isValid;
   }
 
   /**
-   * Compute a valid nonce for testing/demo purposes
+   * Search for a nonce on worker threads (see solvePoW)
+   * Use this for real work; compute() blocks the calling thread
+   */
+  solve(
+    name: string,
+    owner: string,
+    difficulty: number = this.difficulty,
+    algorithm: VNSPoWAlgorithm = 'sha256',
+    options: VNSPoWSolveOptions = {}
+  ): Promise<VNSPoWSolution> {
+    return solvePoW({ name, owner, zeros: powZeros(difficulty, algorithm), algorithm }, options);
+  }
+
+  /**
+   * Compute a valid nonce on the calling thread (for tests and low difficulties)
    * WARNING: This can be CPU-intensive for high difficulty
    */
-  compute(name: string, owner: string, maxAttempts: number = 1000000): number | null {
+  compute(
+    name: string,
+    owner: string,
+    maxAttempts: number = 1000000,
+    difficulty: number = this.difficulty,
+    algorithm: VNSPoWAlgorithm = 'sha256'
+  ): number | null {
     for (let nonce = 0; nonce < maxAttempts; nonce++) {
-      if (this.validate(name, owner, nonce)) {
+      if (this.matches(name, owner, nonce, difficulty, algorithm)) {
         return nonce;
       }
     }
     return null; // Failed to find valid nonce
   }
 
+  /**
+   * Check a nonce without logging (the hot path of compute)
+   */
+  private matches(name: string, owner: string, nonce: number, difficulty: number, algorithm: VNSPoWAlgorithm): boolean {
+    return powHash(name, owner, nonce, algorithm).startsWith('0'.repeat(powZeros(difficulty, algorithm)));
+  }
+
   /**
    * Get the difficulty level
    */
@@ -120,8 +349,8 @@ export class VNSProofOfWork {
   /**
    * Estimate average attempts needed for current difficulty
    */
-  estimateAttempts(): number {
-    return Math.pow(16, this.difficulty);
+  estimateAttempts(algorithm: VNSPoWAlgorithm = 'sha256'): number {
+    return Math.pow(16, powZeros(this.difficulty, algorithm));
   }
 }
 
@@ -152,9 +381,12 @@ export class VNSSignatureValidator {
     timestamp: number;
     expires: number;
     nonce: number;
+    powAlgorithm?: VNSPoWAlgorithm;
+    owners?: VNSOwnerSet;
+    recoveryKey?: string;
   }): string {
     // Create deterministic JSON (sorted keys)
-    const canonical = {
+    const canonical: Record<string, any> = {
       name: registration.name,
       owner: registration.owner,
       records: registration.records.map(r => ({
@@ -166,55 +398,189 @@ export class VNSSignatureValidator {
       expires: registration.expires,
       nonce: registration.nonce
     };
+    // Only present for non-default PoW, so SHA-256 signatures are unchanged
+    if (registration.powAlgorithm) {
+      canonical.powAlgorithm = registration.powAlgorithm;
+    }
+    // Only present for co-owned names, so single-owner signatures are unchanged
+    if (registration.owners) {
+      canonical.owners = { keys: registration.owners.keys, threshold: registration.owners.threshold };
+    }
+    // Only present when a recovery key is declared
+    if (registration.recoveryKey) {
+      canonical.recoveryKey = registration.recoveryKey;
+    }
+
+    return JSON.stringify(canonical);
+  }
+
+  /**
+   * Create a canonical string representation of a renewal for signing
+   */
+  serializeRenewalForSigning(renewal: Omit<VNSRenewal, 'signature'>): string {
+    const canonical: Record<string, any> = {
+      name: renewal.name,
+      owner: renewal.owner,
+      previousExpires: renewal.previousExpires,
+      expires: renewal.expires,
+      timestamp: renewal.timestamp,
+      nonce: renewal.nonce
+    };
+    if (renewal.powAlgorithm) {
+      canonical.powAlgorithm = renewal.powAlgorithm;
+    }
+
+    return JSON.stringify(canonical);
+  }
+
+  /**
+   * Create a canonical string representation of a record update for signing
+   */
+  serializeUpdateForSigning(update: Omit<VNSRecordUpdate, 'signature'>): string {
+    const canonical = {
+      name: update.name,
+      owner: update.owner,
+      records: update.records.map(r => ({
+        type: r.type,
+        value: r.value,
+        ttl: r.ttl || VNS_CONFIG.TTL_DEFAULT
+      })),
+      timestamp: update.timestamp
+    };
+
+    return JSON.stringify(canonical);
+  }
+
+  /**
+   * Create a canonical string representation of a transfer for signing
+   * All co-owners sign the same string (signatures are excluded)
+   */
+  serializeTransferForSigning(transfer: Omit<VNSTransfer, 'signatures'>): string {
+    const canonical = {
+      name: transfer.name,
+      fromOwner: transfer.fromOwner,
+      newOwner: transfer.newOwner,
+      newPublicKey: transfer.newPublicKey,
+      newOwners: transfer.newOwners
+        ? { keys: transfer.newOwners.keys, threshold: transfer.newOwners.threshold }
+        : null,
+      nonce: transfer.nonce,
+      timestamp: transfer.timestamp
+    };
+
+    return JSON.stringify(canonical);
+  }
+
+  /**
+   * Create a canonical string representation of a key rotation for signing
+   */
+  serializeRotationForSigning(rotation: Omit<VNSKeyRotation, 'signature'>): string {
+    const canonical = {
+      name: rotation.name,
+      owner: rotation.owner,
+      newPublicKey: rotation.newPublicKey,
+      newRecoveryKey: rotation.newRecoveryKey || null,
+      signer: rotation.signer,
+      nonce: rotation.nonce,
+      timestamp: rotation.timestamp
+    };
 
     return JSON.stringify(canonical);
   }
 }
 
 /**
- * ERC20 Stake Validator (Placeholder for MVP)
- * TODO: Post-launch integration with blockchain
+ * Stake validator for VNS registrations
+ * Checks and moves stake locks in a VNSStakeProvider (default: an in-memory ledger)
  */
 export class VNSStakeValidator {
   private minStakeAmount: number;
-  private simulatedBalances: Map<string, number>; // Local balance sim for MVP
+  private provider: VNSStakeProvider;
 
-  constructor(minStakeAmount: number = 100) {
+  constructor(minStakeAmount: number = VNS_CONFIG.STAKE_AMOUNT, provider?: VNSStakeProvider) {
     this.minStakeAmount = minStakeAmount;
-    this.simulatedBalances = new Map();
-    
-    // Pre-populate some test accounts for MVP
-    this.simulatedBalances.set('genesis', 1000000);
-    this.simulatedBalances.set('reserved', 1000000);
+    if (provider) {
+      this.provider = provider;
+    } else {
+      // Pre-populate some test accounts for MVP
+      const ledger = new VNSLocalStakeLedger();
+      ledger.setBalance('genesis', 1000000);
+      ledger.setBalance('reserved', 1000000);
+      this.provider = ledger;
+    }
   }
 
   /**
-   * Check if owner has sufficient ERC20 stake
-   * MVP: Returns true (simulated local balance)
-   * POST-LAUNCH: Query blockchain contract via Web3/Ethers
+   * Check if owner has sufficient unlocked stake
    */
   checkERC20Stake(owner: string, amount: number = this.minStakeAmount): boolean {
-    // MVP: Simulate stake check
-    const balance = this.simulatedBalances.get(owner) || 0;
-    const hasStake = balance >= amount;
-    
-    console.log(`[VNS Stake] Simulated check for ${owner.slice(0, 16)}...: ${balance} tokens (min: ${amount}) -> ${hasStake ? 'PASS' : 'FAIL'}`);
+    const available = this.getAvailable(owner);
+    const hasStake = available >= amount;
     
-    // TODO Post-Launch: Replace with actual blockchain query
-    // const web3 = new Web3(RPC_ENDPOINT);
-    // const contract = new web3.eth.Contract(ERC20_ABI, TOKEN_ADDRESS);
-    // const balance = await contract.methods.balanceOf(owner).call();
-    // return balance >= amount;
+    console.log(`[VNS Stake] Check for ${owner.slice(0, 16)}...: ${available} tokens available (min: ${amount}) -> ${hasStake ? 'PASS' : 'FAIL'}`);
     
     return hasStake;
   }
 
   /**
-   * Set simulated balance for testing (MVP only)
+   * Check that `owner` can hold the stake lock for `name`
+   * A lock the owner already holds for the name counts as covered
+   */
+  validateLock(name: string, owner: string): { valid: boolean; error?: string } {
+    const lock = this.provider.getLock(name);
+    if (lock && lock.owner === owner && lock.amount >= this.minStakeAmount) {
+      return { valid: true };
+    }
+
+    const available = this.getAvailable(owner);
+    if (available < this.minStakeAmount) {
+      return { valid: false, error: `Insufficient stake (requires ${this.minStakeAmount}, ${available} available)` };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Lock stake for a name held by `owner` (moves any lock held by a previous owner)
+   */
+  lock(name: string, owner: string, expires: number): void {
+    const current = this.provider.getLock(name);
+    if (current && current.owner === owner) {
+      this.provider.lock({ ...current, expires });
+      return;
+    }
+    this.provider.lock({ name, owner, amount: this.minStakeAmount, lockedAt: Date.now(), expires });
+  }
+
+  /**
+   * Release the stake locked for a name
+   */
+  release(name: string): VNSStakeLock | undefined {
+    return this.provider.release(name);
+  }
+
+  /**
+   * Balance an owner has not locked
+   */
+  getAvailable(owner: string): number {
+    return this.provider.getBalance(owner) - this.provider.getLocked(owner);
+  }
+
+  /**
+   * All stake locks
+   */
+  getLocks(): VNSStakeLock[] {
+    return this.provider.getLocks();
+  }
+
+  /**
+   * Set balance for testing (local ledgers only)
    */
   setSimulatedBalance(owner: string, amount: number): void {
-    this.simulatedBalances.set(owner, amount);
-    console.log(`[VNS Stake] Simulated balance set for ${owner.slice(0, 16)}...: ${amount} tokens`);
+    if (!(this.provider instanceof VNSLocalStakeLedger)) {
+      throw new Error('Balances can only be set on a local stake ledger');
+    }
+    this.provider.setBalance(owner, amount);
+    console.log(`[VNS Stake] Balance set for ${owner.slice(0, 16)}...: ${amount} tokens`);
   }
 
   /**
@@ -233,60 +599,166 @@ export class VNSSecurity {
   private pow: VNSProofOfWork;
   private signatureValidator: VNSSignatureValidator;
   private stakeValidator: VNSStakeValidator;
+  private renewalGracePeriod: number;
+  private powPolicy: VNSPoWPolicy;
+  private antiSpamMode: VNSAntiSpamMode;
 
-  constructor(powDifficulty: number = VNS_CONFIG.POW_DIFFICULTY, minStake: number = 100) {
-    this.rateLimiter = new VNSRateLimiter();
+  constructor(
+    powDifficulty: number = VNS_CONFIG.POW_DIFFICULTY,
+    minStake: number = VNS_CONFIG.STAKE_AMOUNT,
+    renewalGracePeriod: number = VNS_CONFIG.RENEWAL_GRACE_PERIOD,
+    powPolicy: VNSPoWPolicy = { algorithm: 'sha256' },
+    antiSpamMode: VNSAntiSpamMode = 'pow',
+    stakeProvider?: VNSStakeProvider,
+    rateLimiter: VNSRateLimiter = new VNSRateLimiter()
+  ) {
+    this.rateLimiter = rateLimiter;
     this.pow = new VNSProofOfWork(powDifficulty);
     this.signatureValidator = new VNSSignatureValidator();
-    this.stakeValidator = new VNSStakeValidator(minStake);
+    this.stakeValidator = new VNSStakeValidator(minStake, stakeProvider);
+    this.renewalGracePeriod = renewalGracePeriod;
+    this.powPolicy = powPolicy;
+    this.antiSpamMode = antiSpamMode;
   }
 
   /**
    * Validate anti-spam measures (modular for PoW or stake)
-   * Currently: PoW required, stake optional (MVP)
-   * Post-launch: Can switch to stake-only or hybrid
+   * PoW is required in the pow and hybrid modes; stake is checked against the
+   * current holder of the name with validateStake (stake and hybrid modes)
    */
   validateAntiSpam(registration: {
     name: string;
     owner: string;
+    timestamp: number;
     nonce: number;
-  }): { valid: boolean; error?: string } {
-    // Primary: PoW validation
-    if (!this.pow.validate(registration.name, registration.owner, registration.nonce)) {
-      return { valid: false, error: `Proof-of-work failed (requires ${this.pow.getDifficulty()} leading zeros)` };
+    powAlgorithm?: VNSPoWAlgorithm;
+  }, difficulty: number = this.getRequiredDifficulty(registration.name)): { valid: boolean; error?: string } {
+    if (!this.requiresPoW()) {
+      return { valid: true };
     }
 
-    // Optional: Stake validation (MVP simulated, can enable for premium names)
-    // Uncomment post-launch for stake requirement:
-    // if (!this.stakeValidator.checkERC20Stake(registration.owner)) {
-    //   return { valid: false, error: 'Insufficient ERC20 stake' };
-    // }
+    // PoW validation (with the algorithm pinned by the network)
+    const algorithmCheck = this.validatePoWAlgorithm(registration.powAlgorithm, registration.timestamp);
+    if (!algorithmCheck.valid) {
+      return algorithmCheck;
+    }
+    const algorithm = registration.powAlgorithm || 'sha256';
+    if (!this.pow.validate(registration.name, registration.owner, registration.nonce, difficulty, algorithm)) {
+      return { valid: false, error: this.powFailure(difficulty, algorithm) };
+    }
 
     return { valid: true };
   }
 
   /**
-   * Validate a complete VNS registration
+   * Validate that `owner` can hold the stake for `name` (stake and hybrid modes)
+   * Subdomains need no stake (the parent zone already holds one)
+   */
+  validateStake(name: string, owner: string): { valid: boolean; error?: string } {
+    if (!this.requiresStake(name)) {
+      return { valid: true };
+    }
+    return this.stakeValidator.validateLock(name, owner);
+  }
+
+  /**
+   * Lock the stake for a name held by `owner` (no-op where no stake is required)
+   */
+  lockStake(name: string, owner: string, expires: number): void {
+    if (this.requiresStake(name)) {
+      this.stakeValidator.lock(name, owner, expires);
+    }
+  }
+
+  /**
+   * Release the stake locked for a name (when it expires or is removed)
+   */
+  releaseStake(name: string): void {
+    if (this.antiSpamMode !== 'pow') {
+      this.stakeValidator.release(name);
+    }
+  }
+
+  /**
+   * Anti-spam mode and stake locks (for status reporting)
+   */
+  getStakeStatus(): VNSStakeStatus {
+    const locks = this.antiSpamMode === 'pow' ? [] : this.stakeValidator.getLocks();
+    return {
+      mode: this.antiSpamMode,
+      amount: this.stakeValidator.getMinStake(),
+      totalLocked: locks.reduce((sum, lock) => sum + lock.amount, 0),
+      locks
+    };
+  }
+
+  /**
+   * Anti-spam mode pinned by network config
    */
-  validateRegistration(registration: {
+  getAntiSpamMode(): VNSAntiSpamMode {
+    return this.antiSpamMode;
+  }
+
+  private requiresPoW(): boolean {
+    return this.antiSpamMode !== 'stake';
+  }
+
+  private requiresStake(name: string): boolean {
+    return this.antiSpamMode !== 'pow' && !isVNSSubdomain(name);
+  }
+
+  /**
+   * Validate that a registration is authentic (PoW + signature)
+   * Subdomains need a parent zone signature by one of `zoneKeys` instead of PoW
+   * Used on its own for entries pulled from peers, which must not consume rate limits
+   * `difficulty` defaults to the name-length requirement (no volume surcharge)
+   */
+  validateAuthenticity(registration: {
     name: string;
     owner: string;
     records: any[];
     timestamp: number;
     expires: number;
     nonce: number;
+    powAlgorithm?: VNSPoWAlgorithm;
     signature: string;
     publicKey?: string;
-  }, peerId: string): { valid: boolean; error?: string } {
-    // Check rate limit
-    if (!this.rateLimiter.checkLimit(peerId)) {
-      return { valid: false, error: 'Rate limit exceeded (5 registrations per hour)' };
+    owners?: VNSOwnerSet;
+    recoveryKey?: string;
+    zoneSignature?: VNSZoneSignature;
+  }, zoneKeys: string[] = [], difficulty?: number): { valid: boolean; error?: string } {
+    if (isVNSSubdomain(registration.name)) {
+      // Subdomains are authorized by the parent zone rather than PoW
+      const zoneCheck = this.validateZoneSignature(registration, zoneKeys);
+      if (!zoneCheck.valid) {
+        return zoneCheck;
+      }
+    } else {
+      // Validate anti-spam (PoW + optional stake)
+      const antiSpamCheck = this.validateAntiSpam(registration, difficulty);
+      if (!antiSpamCheck.valid) {
+        return antiSpamCheck;
+      }
+    }
+
+    // Validate record count and per-type values
+    const recordsCheck = validateVNSRecords(registration.records);
+    if (!recordsCheck.valid) {
+      return recordsCheck;
+    }
+
+    if (registration.owners) {
+      const ownersCheck = this.validateOwnerSet(registration.owners, registration.publicKey);
+      if (!ownersCheck.valid) {
+        return ownersCheck;
+      }
     }
 
-    // Validate anti-spam (PoW + optional stake)
-    const antiSpamCheck = this.validateAntiSpam(registration);
-    if (!antiSpamCheck.valid) {
-      return antiSpamCheck;
+    if (registration.recoveryKey !== undefined) {
+      const recoveryCheck = this.validateRecoveryKey(registration.recoveryKey, registration.publicKey, registration.owners);
+      if (!recoveryCheck.valid) {
+        return recoveryCheck;
+      }
     }
 
     // Validate signature
@@ -298,28 +770,371 @@ export class VNSSecurity {
       return { valid: false, error: 'Invalid signature' };
     }
 
-    // Validate expiration (should be ~1 year from timestamp)
+    return { valid: true };
+  }
+
+  /**
+   * Validate a complete VNS registration submitted to this node
+   * `peerId` is the submitting peer (for logs): the rate limit is checked for the
+   * owner's key, from the local budget, and charged once the name is stored (see recordRegistration)
+   * `difficulty` is the required PoW difficulty (see getRequiredDifficulty)
+   */
+  validateRegistration(registration: VNSRegistration, peerId: string, zoneKeys: string[] = [], difficulty?: number): {
+    valid: boolean;
+    error?: string;
+  } {
+    const registrationCheck = this.checkRegistration(registration, peerId, zoneKeys, difficulty, 'local');
+    if (!registrationCheck.valid) {
+      return registrationCheck;
+    }
+
+    // Check if expired
+    if (Date.now() > registration.expires) {
+      return { valid: false, error: 'Registration has expired' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a fresh registration relayed by a peer
+   * Same checks as validateRegistration, against the relay budget; a renewal in the relayed
+   * entry may carry it past the registration's own expiry, so the caller checks the entry's
+   * expiry instead. Whether the delta carrying it is genuine and new is checked separately
+   * (see VNSDeltaGuard)
+   */
+  validateRelayedRegistration(registration: VNSRegistration, peerId: string, zoneKeys: string[] = [], difficulty?: number): {
+    valid: boolean;
+    error?: string;
+  } {
+    return this.checkRegistration(registration, peerId, zoneKeys, difficulty, 'relay');
+  }
+
+  private checkRegistration(registration: {
+    name: string;
+    owner: string;
+    records: any[];
+    timestamp: number;
+    expires: number;
+    nonce: number;
+    powAlgorithm?: VNSPoWAlgorithm;
+    signature: string;
+    publicKey?: string;
+    owners?: VNSOwnerSet;
+    recoveryKey?: string;
+    zoneSignature?: VNSZoneSignature;
+  }, peerId: string, zoneKeys: string[], difficulty: number | undefined, budget: VNSRateLimitBudget): {
+    valid: boolean;
+    error?: string;
+  } {
+    // Check rate limit
+    const key = rateLimitKey(registration);
+    if (!this.rateLimiter.checkLimit(key, budget)) {
+      const { limit } = this.rateLimiter.getUsage(key, budget);
+      console.warn(`[VNS] ${budget} rate limit hit for owner key ${key.slice(0, 16)}... (via ${peerId.slice(0, 16)}...)`);
+      return { valid: false, error: `Rate limit exceeded (${limit} ${budget} registrations per hour for this owner key)` };
+    }
+
+    // Validate anti-spam and signature
+    const authenticityCheck = this.validateAuthenticity(registration, zoneKeys, difficulty);
+    if (!authenticityCheck.valid) {
+      return authenticityCheck;
+    }
+
+    return this.validateExpiryPeriod(registration);
+  }
+
+  /**
+   * Charge a stored registration to its owner key's rate limit
+   * Called after the store accepts the entry, so rejected attempts cost nothing
+   */
+  recordRegistration(registration: { owner: string; publicKey?: string }, budget: VNSRateLimitBudget = 'local'): void {
+    this.rateLimiter.recordAttempt(rateLimitKey(registration), budget);
+  }
+
+  /**
+   * Validate that a registration expires one registration period after it was signed
+   * Also applies to entries from peers, whose registration may since have been renewed
+   */
+  validateExpiryPeriod(registration: { timestamp: number; expires: number }): { valid: boolean; error?: string } {
     const expectedExpires = registration.timestamp + VNS_CONFIG.EXPIRATION_PERIOD;
     const tolerance = 60 * 1000; // 1 minute tolerance
     if (Math.abs(registration.expires - expectedExpires) > tolerance) {
       return { valid: false, error: 'Invalid expiration period' };
     }
+    return { valid: true };
+  }
 
-    // Check if expired
-    if (Date.now() > registration.expires) {
-      return { valid: false, error: 'Registration has expired' };
+  /**
+   * Validate a renewal against the registration it extends
+   * Checks owner, fresh PoW, signature by an owner key and the new expiry
+   */
+  validateRenewal(renewal: VNSRenewal, registration: VNSOwnership & {
+    name: string;
+    expires: number;
+  }): { valid: boolean; error?: string } {
+    if (renewal.name !== registration.name || renewal.owner !== registration.owner) {
+      return { valid: false, error: 'Renewal does not match the registered owner' };
+    }
+
+    if (renewal.previousExpires < registration.expires) {
+      return { valid: false, error: 'Renewal predates the registration expiry' };
     }
 
-    // Validate record count
-    if (registration.records.length > VNS_CONFIG.MAX_RECORDS_PER_NAME) {
-      return { valid: false, error: `Too many records (max ${VNS_CONFIG.MAX_RECORDS_PER_NAME})` };
+    if (renewal.expires !== renewal.previousExpires + VNS_CONFIG.EXPIRATION_PERIOD) {
+      return { valid: false, error: 'Invalid renewal period' };
+    }
+
+    // Subdomains renew without PoW (the parent zone already paid for the name), as do
+    // names in stake-only mode (their stake stays locked)
+    const subject = renewalPoWSubject(renewal.name, renewal.previousExpires);
+    if (!isVNSSubdomain(renewal.name) && this.requiresPoW()) {
+      const algorithmCheck = this.validatePoWAlgorithm(renewal.powAlgorithm, renewal.timestamp);
+      if (!algorithmCheck.valid) {
+        return algorithmCheck;
+      }
+      const algorithm = renewal.powAlgorithm || 'sha256';
+      const difficulty = this.getRequiredDifficulty(renewal.name);
+      if (!this.pow.validate(subject, renewal.owner, renewal.nonce, difficulty, algorithm)) {
+        return { valid: false, error: this.powFailure(difficulty, algorithm) };
+      }
+    }
+
+    const dataToSign = this.signatureValidator.serializeRenewalForSigning(renewal);
+    if (!this.isSignedByOwner(dataToSign, renewal.signature, registration)) {
+      return { valid: false, error: 'Invalid renewal signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a record update against the holder of the name
+   * Checks owner, record count and signature by an owner key (no PoW)
+   */
+  validateUpdate(update: VNSRecordUpdate, registration: VNSOwnership & {
+    name: string;
+  }): { valid: boolean; error?: string } {
+    if (update.name !== registration.name || update.owner !== registration.owner) {
+      return { valid: false, error: 'Update does not match the registered owner' };
+    }
+
+    if (!Array.isArray(update.records) || update.records.length === 0) {
+      return { valid: false, error: 'Update must contain at least one record' };
+    }
+    const recordsCheck = validateVNSRecords(update.records);
+    if (!recordsCheck.valid) {
+      return recordsCheck;
+    }
+
+    const dataToSign = this.signatureValidator.serializeUpdateForSigning(update);
+    if (!this.isSignedByOwner(dataToSign, update.signature, registration)) {
+      return { valid: false, error: 'Invalid update signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a transfer against the holder of the name at signing time
+   * A single owner signs with its key; an owner set needs `threshold` distinct co-owner signatures
+   */
+  validateTransfer(transfer: VNSTransfer, holder: VNSOwnership & {
+    name: string;
+  }): { valid: boolean; error?: string } {
+    if (transfer.name !== holder.name || transfer.fromOwner !== holder.owner) {
+      return { valid: false, error: 'Transfer does not match the current owner' };
+    }
+
+    if (!transfer.newOwner || !transfer.newPublicKey) {
+      return { valid: false, error: 'Transfer must name a new owner and public key' };
+    }
+
+    if (typeof transfer.nonce !== 'string' || transfer.nonce.length === 0) {
+      return { valid: false, error: 'Transfer nonce is required' };
+    }
+
+    if (transfer.newOwners) {
+      const ownersCheck = this.validateOwnerSet(transfer.newOwners, transfer.newPublicKey);
+      if (!ownersCheck.valid) {
+        return ownersCheck;
+      }
+    }
+
+    const authorized = this.getOwnerKeys(holder);
+    if (authorized.length === 0) {
+      return { valid: false, error: 'Missing public key for signature verification' };
+    }
+
+    const required = holder.owners ? holder.owners.threshold : 1;
+    const dataToSign = this.signatureValidator.serializeTransferForSigning(transfer);
+    const signers = new Set<string>();
+    for (const { publicKey, signature } of transfer.signatures || []) {
+      if (authorized.includes(publicKey) && this.signatureValidator.validate(dataToSign, signature, publicKey)) {
+        signers.add(publicKey);
+      }
+    }
+
+    if (signers.size < required) {
+      return { valid: false, error: `Transfer needs ${required} owner signature(s), got ${signers.size}` };
     }
 
-    // All validations passed
-    this.rateLimiter.recordAttempt(peerId);
     return { valid: true };
   }
 
+  /**
+   * Validate a key rotation against the holder it rotates
+   * Signed by the holder's key, or by its recovery key; only the recovery key
+   * may name a new recovery key. Co-owned names change keys with a transfer.
+   */
+  validateRotation(rotation: VNSKeyRotation, holder: VNSOwnership & {
+    name: string;
+  }): { valid: boolean; error?: string } {
+    if (rotation.name !== holder.name || rotation.owner !== holder.owner) {
+      return { valid: false, error: 'Key rotation does not match the current owner' };
+    }
+
+    if (holder.owners) {
+      return { valid: false, error: 'Co-owned names change keys with a transfer' };
+    }
+
+    if (!rotation.newPublicKey || rotation.newPublicKey === holder.publicKey) {
+      return { valid: false, error: 'Key rotation must name a new public key' };
+    }
+
+    if (typeof rotation.nonce !== 'string' || rotation.nonce.length === 0) {
+      return { valid: false, error: 'Key rotation nonce is required' };
+    }
+
+    const signingKey = rotation.signer === 'recovery' ? holder.recoveryKey : rotation.signer === 'owner' ? holder.publicKey : undefined;
+    if (!signingKey) {
+      return { valid: false, error: rotation.signer === 'recovery' ? 'Name has no recovery key' : 'Missing public key for signature verification' };
+    }
+
+    if (rotation.newRecoveryKey !== undefined) {
+      if (rotation.signer !== 'recovery') {
+        return { valid: false, error: 'Only the recovery key may replace the recovery key' };
+      }
+      const recoveryCheck = this.validateRecoveryKey(rotation.newRecoveryKey, rotation.newPublicKey);
+      if (!recoveryCheck.valid) {
+        return recoveryCheck;
+      }
+    }
+
+    const dataToSign = this.signatureValidator.serializeRotationForSigning(rotation);
+    if (!this.signatureValidator.validate(dataToSign, rotation.signature, signingKey)) {
+      return { valid: false, error: 'Invalid key rotation signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a recovery key declaration (single-key owners, distinct from the owner key)
+   */
+  private validateRecoveryKey(recoveryKey: string, publicKey?: string, owners?: VNSOwnerSet): { valid: boolean; error?: string } {
+    if (owners) {
+      return { valid: false, error: 'Co-owned names cannot declare a recovery key' };
+    }
+    if (typeof recoveryKey !== 'string' || recoveryKey.length === 0 || recoveryKey === publicKey) {
+      return { valid: false, error: 'Recovery key must be a public key other than the owner key' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Validate the parent zone signature on a subdomain registration
+   */
+  validateZoneSignature(registration: {
+    name: string;
+    owner: string;
+    records: any[];
+    timestamp: number;
+    expires: number;
+    nonce: number;
+    powAlgorithm?: VNSPoWAlgorithm;
+    owners?: VNSOwnerSet;
+    zoneSignature?: VNSZoneSignature;
+  }, zoneKeys: string[]): { valid: boolean; error?: string } {
+    const zoneSignature = registration.zoneSignature;
+    if (!zoneSignature) {
+      return { valid: false, error: 'Subdomain registration requires a parent zone signature' };
+    }
+    if (!zoneKeys.includes(zoneSignature.publicKey)) {
+      return { valid: false, error: 'Zone signature key is not authorized for the parent zone' };
+    }
+
+    const dataToSign = this.signatureValidator.serializeForSigning(registration);
+    if (!this.signatureValidator.validate(dataToSign, zoneSignature.signature, zoneSignature.publicKey)) {
+      return { valid: false, error: 'Invalid parent zone signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate an M-of-N owner set (the primary key must be a member)
+   */
+  validateOwnerSet(owners: VNSOwnerSet, publicKey?: string): { valid: boolean; error?: string } {
+    if (!Array.isArray(owners.keys) || owners.keys.length === 0) {
+      return { valid: false, error: 'Owner set must contain at least one key' };
+    }
+    if (owners.keys.length > VNS_CONFIG.MAX_OWNER_KEYS) {
+      return { valid: false, error: `Too many owner keys (max ${VNS_CONFIG.MAX_OWNER_KEYS})` };
+    }
+    if (new Set(owners.keys).size !== owners.keys.length) {
+      return { valid: false, error: 'Owner set contains duplicate keys' };
+    }
+    if (!Number.isInteger(owners.threshold) || owners.threshold < 1 || owners.threshold > owners.keys.length) {
+      return { valid: false, error: 'Owner set threshold must be between 1 and the number of keys' };
+    }
+    if (!publicKey || !owners.keys.includes(publicKey)) {
+      return { valid: false, error: 'Owner public key must be part of the owner set' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Keys allowed to act for a holder (owner set members, or the single owner key)
+   */
+  private getOwnerKeys(holder: VNSOwnership): string[] {
+    if (holder.owners) {
+      return holder.owners.keys;
+    }
+    return holder.publicKey ? [holder.publicKey] : [];
+  }
+
+  /**
+   * Check a signature against any of the holder's keys
+   * Updates and renewals need one co-owner; only transfers need the threshold
+   */
+  private isSignedByOwner(data: string, signature: string, holder: VNSOwnership): boolean {
+    return this.getOwnerKeys(holder).some(key => this.signatureValidator.validate(data, signature, key));
+  }
+
+  /**
+   * Check a PoW algorithm against the network policy
+   * The pinned algorithm is always accepted; SHA-256 (the default when absent)
+   * is also accepted for anything timestamped before the policy's `since`
+   */
+  validatePoWAlgorithm(algorithm: string | undefined, timestamp: number): { valid: boolean; error?: string } {
+    const used = algorithm || 'sha256';
+    if (!isPoWAlgorithm(used)) {
+      return { valid: false, error: `Unknown proof-of-work algorithm: ${used}` };
+    }
+    if (used === this.powPolicy.algorithm) {
+      return { valid: true };
+    }
+    if (used === 'sha256' && timestamp < (this.powPolicy.since ?? 0)) {
+      return { valid: true };
+    }
+    return { valid: false, error: `Proof-of-work must use ${this.powPolicy.algorithm} (got ${used})` };
+  }
+
+  private powFailure(difficulty: number, algorithm: VNSPoWAlgorithm): string {
+    return `Proof-of-work failed (requires ${powZeros(difficulty, algorithm)} leading zeros, ${algorithm})`;
+  }
+
   /**
    * Check if a registration has expired
    */
@@ -329,25 +1144,78 @@ export class VNSSecurity {
 
   /**
    * Compute a valid PoW nonce (for testing/CLI)
+   * Uses the pinned algorithm unless `algorithm` is given
+   */
+  computePoW(
+    name: string,
+    owner: string,
+    difficulty: number = this.getRequiredDifficulty(name),
+    algorithm: VNSPoWAlgorithm = this.powPolicy.algorithm
+  ): number | null {
+    return this.pow.compute(name, owner, undefined, difficulty, algorithm);
+  }
+
+  /**
+   * Compute a valid renewal PoW nonce (for testing/CLI)
+   */
+  computeRenewalPoW(
+    name: string,
+    owner: string,
+    previousExpires: number,
+    algorithm: VNSPoWAlgorithm = this.powPolicy.algorithm
+  ): number | null {
+    return this.pow.compute(
+      renewalPoWSubject(name, previousExpires),
+      owner,
+      undefined,
+      this.getRequiredDifficulty(name),
+      algorithm
+    );
+  }
+
+  /**
+   * Check whether an expired name is still inside the owner-only renewal window
+   */
+  isInGracePeriod(expires: number): boolean {
+    const now = Date.now();
+    return now > expires && now <= expires + this.renewalGracePeriod;
+  }
+
+  /**
+   * Get the renewal grace period in ms
    */
-  computePoW(name: string, owner: string): number | null {
-    return this.pow.compute(name, owner);
+  getRenewalGracePeriod(): number {
+    return this.renewalGracePeriod;
   }
 
   /**
-   * Check ERC20 stake (MVP simulated)
+   * Check that an owner has enough unlocked stake
    */
   checkStake(owner: string, amount?: number): boolean {
     return this.stakeValidator.checkERC20Stake(owner, amount);
   }
 
   /**
-   * Set simulated stake balance (MVP testing only)
+   * Set a stake balance (local ledgers only)
    */
   setSimulatedStake(owner: string, amount: number): void {
     this.stakeValidator.setSimulatedBalance(owner, amount);
   }
 
+  /**
+   * Rate limit usage of an owner key (see rateLimitKey) in both budgets
+   */
+  getRateLimitUsage(key: string): Record<VNSRateLimitBudget, VNSRateLimitUsage> {
+    return { local: this.rateLimiter.getUsage(key, 'local'), relay: this.rateLimiter.getUsage(key, 'relay') };
+  }
+
+  /**
+   * Owner keys with rate-limited attempts in the current window
+   */
+  getRateLimitedKeys(): string[] {
+    return this.rateLimiter.getKeys();
+  }
+
   /**
    * Clean up old rate limit data
    */
@@ -356,12 +1224,43 @@ export class VNSSecurity {
   }
 
   /**
-   * Get current PoW difficulty
+   * Write pending rate limit counters (call before shutdown)
+   */
+  flush(): void {
+    this.rateLimiter.flush();
+  }
+
+  /**
+   * Get the base PoW difficulty (before name-length and volume surcharges)
    */
   getPoWDifficulty(): number {
     return this.pow.getDifficulty();
   }
 
+  /**
+   * PoW algorithm new registrations and renewals must use
+   */
+  getPoWAlgorithm(): VNSPoWAlgorithm {
+    return this.powPolicy.algorithm;
+  }
+
+  /**
+   * PoW difficulty required for a name
+   * Labels shorter than POW_SHORT_NAME_LENGTH cost one extra zero per missing
+   * character (null = a name with no length surcharge), and every 4x growth of
+   * `recentRegistrations` past POW_VOLUME_STEP adds another (see powVolumeWindow)
+   */
+  getRequiredDifficulty(name: string | null, recentRegistrations: number = 0): number {
+    const label = name && name.endsWith(VNS_CONFIG.TLD) ? name.slice(0, -VNS_CONFIG.TLD.length) : name;
+    const lengthSurcharge = label ? Math.max(0, VNS_CONFIG.POW_SHORT_NAME_LENGTH - label.length) : 0;
+    const volumeSurcharge = recentRegistrations < VNS_CONFIG.POW_VOLUME_STEP
+      ? 0
+      : Math.floor(Math.log(recentRegistrations / VNS_CONFIG.POW_VOLUME_STEP) / Math.log(4)) + 1;
+
+    const base = this.pow.getDifficulty();
+    return Math.max(base, Math.min(base + lengthSurcharge + volumeSurcharge, VNS_CONFIG.POW_MAX_DIFFICULTY));
+  }
+
   /**
    * Get stake validator for advanced usage
    */
@@ -0,0 +1,312 @@
+/**
+ * VNS Shard Tree
+ *
+ * Persistent hash-array-mapped trie (HAMT) mapping names to entry block CIDs.
+ * The path of a name is the hex SHA-256 of the name, one nibble per level, so
+ * every node has up to 16 children and the tree stays balanced.
+ *
+ * Blocks:
+ * - leaf:    { kind: 'leaf', entries: [{ name, cid }, ...] }   (sorted by name)
+ * - branch:  { kind: 'branch', count, children: { '0'..'f': cid } }
+ *
+ * The root stays a single leaf until the namespace passes SHARDING_THRESHOLD;
+ * below the root a node splits once it holds more than SHARD_BUCKET_SIZE names
+ * and collapses back into a leaf when it drops to the limit. The shape depends
+ * only on the set of names, so equal namespaces produce equal root CIDs.
+ *
+ * Shards are read from the blockstore the first time a path visits them, and
+ * flush() writes only the nodes changed since the last flush (one leaf-to-root
+ * path per changed name).
+ */
+
+import crypto from 'crypto';
+import type { Blockstore } from '../types.js';
+import { VNS_CONFIG } from '../types/vns-schema.js';
+
+interface ShardLeaf {
+  kind: 'leaf';
+  cid: string | null; // null until written (or after a change)
+  entries: Map<string, string>;
+}
+
+interface ShardBranch {
+  kind: 'branch';
+  cid: string | null;
+  count: number;
+  children: Map<string, ShardNode | string>; // loaded node or CID of an unread shard
+}
+
+type ShardNode = ShardLeaf | ShardBranch;
+
+/**
+ * Shard tree limits (overridable for tests)
+ */
+export interface VNSShardTreeOptions {
+  rootLimit?: number; // Names the root leaf holds before the tree shards
+  bucketSize?: number; // Names a leaf below the root holds before splitting
+}
+
+/**
+ * Path key for a name (hex SHA-256 of the normalized name)
+ */
+function pathOf(name: string): string {
+  return crypto.createHash('sha256').update(name, 'utf8').digest('hex');
+}
+
+function emptyLeaf(): ShardLeaf {
+  return { kind: 'leaf', cid: null, entries: new Map() };
+}
+
+function countOf(node: ShardNode): number {
+  return node.kind === 'leaf' ? node.entries.size : node.count;
+}
+
+/**
+ * HAMT of name -> entry block CID, backed by a blockstore
+ */
+export class VNSShardTree {
+  private blockstore: Blockstore;
+  private root: ShardNode = emptyLeaf();
+  private rootLimit: number;
+  private bucketSize: number;
+
+  constructor(blockstore: Blockstore, options: VNSShardTreeOptions = {}) {
+    this.blockstore = blockstore;
+    this.rootLimit = options.rootLimit ?? VNS_CONFIG.SHARDING_THRESHOLD;
+    this.bucketSize = options.bucketSize ?? VNS_CONFIG.SHARD_BUCKET_SIZE;
+  }
+
+  /**
+   * Open a tree from its root CID (only the root shard is read)
+   */
+  static async load(blockstore: Blockstore, rootCid: string, options: VNSShardTreeOptions = {}): Promise<VNSShardTree> {
+    const tree = new VNSShardTree(blockstore, options);
+    tree.root = await tree.readNode(rootCid);
+    return tree;
+  }
+
+  /**
+   * Number of names in the tree
+   */
+  get size(): number {
+    return countOf(this.root);
+  }
+
+  /**
+   * Entry block CID for a name
+   */
+  async get(name: string): Promise<string | undefined> {
+    const key = pathOf(name);
+    let node = this.root;
+    for (let depth = 0; node.kind === 'branch'; depth++) {
+      if (!node.children.has(key[depth])) {
+        return undefined;
+      }
+      node = await this.child(node, key[depth]);
+    }
+    return node.entries.get(name);
+  }
+
+  /**
+   * Set the entry block CID for a name
+   */
+  async set(name: string, cid: string): Promise<void> {
+    this.root = (await this.insert(this.root, pathOf(name), 0, name, cid)).node;
+  }
+
+  /**
+   * Remove a name (no-op if absent)
+   */
+  async delete(name: string): Promise<void> {
+    this.root = (await this.remove(this.root, pathOf(name), 0, name)).node;
+  }
+
+  /**
+   * All names and entry block CIDs, in path order
+   */
+  async *entries(): AsyncGenerator<{ name: string; cid: string }> {
+    yield* this.walk(this.root);
+  }
+
+  /**
+   * Write the shards changed since the last flush
+   * Returns the root CID
+   */
+  async flush(): Promise<string> {
+    return this.write(this.root);
+  }
+
+  private limit(depth: number): number {
+    return depth === 0 ? this.rootLimit : this.bucketSize;
+  }
+
+  /**
+   * Insert into a subtree
+   * Returns the subtree's new node and whether the name is new to it (null = nothing changed)
+   */
+  private async insert(
+    node: ShardNode,
+    key: string,
+    depth: number,
+    name: string,
+    cid: string
+  ): Promise<{ node: ShardNode; added: boolean | null }> {
+    if (node.kind === 'leaf') {
+      if (node.entries.get(name) === cid) {
+        return { node, added: null };
+      }
+      const added = !node.entries.has(name);
+      node.entries.set(name, cid);
+      node.cid = null;
+      return { node: node.entries.size > this.limit(depth) ? this.split(node, depth) : node, added };
+    }
+
+    const slot = key[depth];
+    const child = node.children.has(slot) ? await this.child(node, slot) : emptyLeaf();
+    const result = await this.insert(child, key, depth + 1, name, cid);
+    node.children.set(slot, result.node);
+    if (result.added !== null) {
+      node.cid = null;
+      node.count += result.added ? 1 : 0;
+    }
+    return { node, added: result.added };
+  }
+
+  /**
+   * Remove from a subtree
+   * Returns the subtree's new node and whether the name was found
+   */
+  private async remove(
+    node: ShardNode,
+    key: string,
+    depth: number,
+    name: string
+  ): Promise<{ node: ShardNode; found: boolean }> {
+    if (node.kind === 'leaf') {
+      const found = node.entries.delete(name);
+      if (found) {
+        node.cid = null;
+      }
+      return { node, found };
+    }
+
+    const slot = key[depth];
+    if (!node.children.has(slot)) {
+      return { node, found: false };
+    }
+    const result = await this.remove(await this.child(node, slot), key, depth + 1, name);
+    if (!result.found) {
+      return { node, found: false };
+    }
+
+    if (countOf(result.node) === 0) {
+      node.children.delete(slot);
+    } else {
+      node.children.set(slot, result.node);
+    }
+    node.count--;
+    node.cid = null;
+    return { node: node.count <= this.limit(depth) ? await this.collapse(node) : node, found: true };
+  }
+
+  /**
+   * Split an overfull leaf into a branch of leaves (splitting further where needed)
+   */
+  private split(leaf: ShardLeaf, depth: number): ShardBranch {
+    const leaves = new Map<string, ShardLeaf>();
+    for (const [name, cid] of leaf.entries) {
+      const slot = pathOf(name)[depth];
+      const child = leaves.get(slot) || emptyLeaf();
+      child.entries.set(name, cid);
+      leaves.set(slot, child);
+    }
+
+    const children = new Map<string, ShardNode | string>();
+    for (const [slot, child] of leaves) {
+      children.set(slot, child.entries.size > this.limit(depth + 1) ? this.split(child, depth + 1) : child);
+    }
+    return { kind: 'branch', cid: null, count: leaf.entries.size, children };
+  }
+
+  /**
+   * Merge a branch back into a single leaf holding its whole subtree
+   */
+  private async collapse(branch: ShardBranch): Promise<ShardLeaf> {
+    const leaf = emptyLeaf();
+    for await (const { name, cid } of this.walk(branch)) {
+      leaf.entries.set(name, cid);
+    }
+    return leaf;
+  }
+
+  private async *walk(node: ShardNode): AsyncGenerator<{ name: string; cid: string }> {
+    if (node.kind === 'leaf') {
+      for (const name of Array.from(node.entries.keys()).sort()) {
+        yield { name, cid: node.entries.get(name)! };
+      }
+      return;
+    }
+    for (const slot of Array.from(node.children.keys()).sort()) {
+      yield* this.walk(await this.child(node, slot));
+    }
+  }
+
+  /**
+   * Child of a branch, reading its shard on first access
+   */
+  private async child(branch: ShardBranch, slot: string): Promise<ShardNode> {
+    const child = branch.children.get(slot)!;
+    if (typeof child !== 'string') {
+      return child;
+    }
+    const node = await this.readNode(child);
+    branch.children.set(slot, node);
+    return node;
+  }
+
+  private async write(node: ShardNode): Promise<string> {
+    if (node.cid) {
+      return node.cid;
+    }
+
+    let block: object;
+    if (node.kind === 'leaf') {
+      block = {
+        kind: 'leaf',
+        entries: Array.from(node.entries.keys()).sort().map(name => ({ name, cid: node.entries.get(name)! }))
+      };
+    } else {
+      const children: Record<string, string> = {};
+      for (const slot of Array.from(node.children.keys()).sort()) {
+        const child = node.children.get(slot)!;
+        children[slot] = typeof child === 'string' ? child : await this.write(child);
+      }
+      block = { kind: 'branch', count: node.count, children };
+    }
+
+    node.cid = await this.blockstore.put(Buffer.from(JSON.stringify(block), 'utf8'));
+    return node.cid;
+  }
+
+  private async readNode(cid: string): Promise<ShardNode> {
+    const raw = await this.blockstore.get(cid);
+    if (!raw) {
+      throw new Error(`Shard block ${cid} is missing`);
+    }
+
+    let block: any;
+    try {
+      block = JSON.parse(Buffer.from(raw).toString('utf8'));
+    } catch (e) {
+      throw new Error(`Shard block ${cid} is truncated or corrupt`);
+    }
+
+    if (block?.kind === 'leaf' && Array.isArray(block.entries)) {
+      return { kind: 'leaf', cid, entries: new Map(block.entries.map((e: any) => [e.name, e.cid])) };
+    }
+    if (block?.kind === 'branch' && block.children && typeof block.count === 'number') {
+      return { kind: 'branch', cid, count: block.count, children: new Map(Object.entries(block.children)) };
+    }
+    throw new Error(`Shard block ${cid} has an invalid structure`);
+  }
+}
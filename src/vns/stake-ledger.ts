@@ -0,0 +1,168 @@
+/**
+ * VNS Stake Ledger
+ *
+ * Stake providers hold owner balances and the stake locked for each name.
+ * The namespace store locks stake when a name is registered (or moves to a new
+ * holder) and releases it when the name expires or is transferred away; an
+ * owner can only lock what is left of their balance after existing locks.
+ *
+ * VNSLocalStakeLedger keeps balances and locks in a JSON file:
+ *
+ *   { "version": 1, "balances": { "<owner>": 500 }, "locks": [{ name, owner, amount, lockedAt, expires }] }
+ *
+ * Every node checks the holder's balance, for names submitted to it and for
+ * entries from peers alike, so all nodes of a network must agree on balances.
+ * Networks pin them with a genesis allocation in the node config
+ * (vnsStakeAllocation): given one, the ledger takes its balances from it and
+ * ignores the balances in the file. Locks follow the replicated namespace.
+ * Without an allocation, balances come from the file (or setBalance), which
+ * only suits single nodes and tests.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { VNSStakeLock } from '../types/vns-schema.js';
+
+/**
+ * Source of owner balances and name locks
+ */
+export interface VNSStakeProvider {
+  /** Total balance of an owner (locked or not) */
+  getBalance(owner: string): number;
+  /** Sum of the stake an owner has locked */
+  getLocked(owner: string): number;
+  /** Lock held for a name */
+  getLock(name: string): VNSStakeLock | undefined;
+  /** All locks, sorted by name */
+  getLocks(): VNSStakeLock[];
+  /** Lock stake for a name (replaces any lock already held for it) */
+  lock(lock: VNSStakeLock): void;
+  /** Release the lock held for a name (returns it, if any) */
+  release(name: string): VNSStakeLock | undefined;
+}
+
+/**
+ * File-backed stake ledger (in memory only when no path is given)
+ */
+export class VNSLocalStakeLedger implements VNSStakeProvider {
+  private filePath: string | null;
+  private balances: Map<string, number> = new Map();
+  private locks: Map<string, VNSStakeLock> = new Map();
+  private pinned: boolean;
+
+  constructor(filePath: string | null = null, allocation?: Record<string, number>) {
+    this.filePath = filePath;
+    this.pinned = !!allocation;
+    this.load();
+    if (allocation) {
+      this.balances = new Map();
+      for (const [owner, amount] of Object.entries(allocation)) {
+        if (!Number.isFinite(amount) || amount < 0) {
+          throw new Error(`Invalid stake allocation for ${owner}: ${amount}`);
+        }
+        this.balances.set(owner, amount);
+      }
+    }
+  }
+
+  getBalance(owner: string): number {
+    return this.balances.get(owner) || 0;
+  }
+
+  getLocked(owner: string): number {
+    let locked = 0;
+    for (const lock of this.locks.values()) {
+      if (lock.owner === owner) {
+        locked += lock.amount;
+      }
+    }
+    return locked;
+  }
+
+  getLock(name: string): VNSStakeLock | undefined {
+    const lock = this.locks.get(name);
+    return lock ? { ...lock } : undefined;
+  }
+
+  getLocks(): VNSStakeLock[] {
+    return Array.from(this.locks.keys()).sort().map(name => ({ ...this.locks.get(name)! }));
+  }
+
+  lock(lock: VNSStakeLock): void {
+    const current = this.locks.get(lock.name);
+    if (current && current.owner === lock.owner && current.amount === lock.amount && current.expires === lock.expires) {
+      return;
+    }
+    this.locks.set(lock.name, { ...lock });
+    this.save();
+  }
+
+  release(name: string): VNSStakeLock | undefined {
+    const lock = this.locks.get(name);
+    if (lock) {
+      this.locks.delete(name);
+      this.save();
+    }
+    return lock;
+  }
+
+  /**
+   * Set an owner's balance (allocation, or tests)
+   */
+  setBalance(owner: string, amount: number): void {
+    if (this.pinned) {
+      throw new Error('Stake balances are pinned by the network allocation');
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`Invalid stake balance: ${amount}`);
+    }
+    this.balances.set(owner, amount);
+    this.save();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (e) {
+      throw new Error(`Stake ledger ${this.filePath} is unreadable: ${e instanceof Error ? e.message : e}`);
+    }
+    if (data?.version !== 1 || typeof data.balances !== 'object' || !Array.isArray(data.locks)) {
+      throw new Error(`Stake ledger ${this.filePath} has an invalid structure`);
+    }
+
+    for (const [owner, amount] of Object.entries(data.balances)) {
+      if (typeof amount === 'number' && amount >= 0) {
+        this.balances.set(owner, amount);
+      }
+    }
+    for (const lock of data.locks as VNSStakeLock[]) {
+      if (lock && typeof lock.name === 'string' && typeof lock.owner === 'string' && typeof lock.amount === 'number') {
+        this.locks.set(lock.name, lock);
+      }
+    }
+  }
+
+  /**
+   * Write the ledger to a temp file and rename it, so a crash never leaves a partial ledger
+   */
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const data = {
+      version: 1,
+      balances: Object.fromEntries(Array.from(this.balances.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))),
+      locks: this.getLocks()
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * VNS Zone Files
+ *
+ * Names and their records can be kept in a file and applied declaratively
+ * (`verimutfs vns export` / `verimutfs vns import`). Two formats are read and
+ * written:
+ *
+ * BIND-like text, one record per line:
+ *
+ *   $ORIGIN myteam.vfs.
+ *   $TTL 3600
+ *   ; myteam.vfs owner=12D3KooW... expires=2027-01-01T00:00:00.000Z
+ *   @        3600 IN A       10.0.0.1
+ *   api           IN SRV     10 5 443 backend.myteam.vfs.
+ *   @             IN PEER    "/ip4/10.0.0.1/tcp/4001/p2p/12D3KooW..."
+ *
+ * - names ending in "." or ".vfs" are absolute, others are relative to $ORIGIN
+ *   ("@" is $ORIGIN itself); a line starting with whitespace reuses the previous name
+ * - the TTL and the IN class are optional ($TTL, else VNS_CONFIG.TTL_DEFAULT)
+ * - A, AAAA, CNAME, SRV and MX data are written as in DNS; every other type
+ *   (TXT, FS, SYNC, DELEGATE, PEER, CONTENT, PRIMARY) is one quoted string
+ *   with \" \\ and \n escapes
+ * - "; <name> owner=<id> expires=<iso>" comments carry metadata (informational
+ *   on import: the signing key decides the owner)
+ *
+ * JSON ({ "version": 1, "exported": <ms>, "names": [{ name, owner?, expires?, records }] })
+ * is the same data as VNSZone.
+ */
+
+import {
+  VNSRecord,
+  VNSRecordType,
+  VNS_CONFIG,
+  normalizeVNSName,
+  validateVNSName,
+  validateVNSRecords
+} from '../types/vns-schema.js';
+
+/**
+ * A name and its records as kept in a zone file
+ */
+export interface VNSZoneName {
+  name: string;
+  owner?: string; // Holder when exported
+  expires?: number; // Expiry when exported
+  records: VNSRecord[];
+}
+
+/**
+ * Contents of a zone file, names in file order
+ */
+export interface VNSZone {
+  version: 1;
+  exported?: number;
+  names: VNSZoneName[];
+}
+
+/**
+ * Live state of a name, as far as an import needs it (null = not registered or expired)
+ */
+export interface VNSLiveName {
+  owner: string;
+  records: VNSRecord[];
+}
+
+/**
+ * What an import does for one name
+ * - register: the name is free
+ * - update: the importer holds it and the records differ
+ * - unchanged: the importer holds it with the same records
+ * - conflict: someone else holds it
+ */
+export interface VNSZoneChange {
+  name: string;
+  action: 'register' | 'update' | 'unchanged' | 'conflict';
+  records: VNSRecord[];
+  owner?: string; // Current holder (update, unchanged and conflict)
+}
+
+const DNS_STYLE_TYPES: VNSRecordType[] = ['A', 'AAAA', 'CNAME', 'SRV', 'MX'];
+const RECORD_TYPES: VNSRecordType[] = [
+  'FS', 'A', 'AAAA', 'TXT', 'SYNC', 'DELEGATE', 'CNAME', 'SRV', 'MX', 'PEER', 'CONTENT', 'PRIMARY'
+];
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Record data as written in a zone file (VNS names get the trailing dot of absolute DNS names)
+ */
+function formatRecordData(record: VNSRecord): string {
+  switch (record.type) {
+    case 'CNAME':
+    case 'SRV':
+    case 'MX':
+      return `${record.value}.`;
+    case 'A':
+    case 'AAAA':
+      return record.value;
+    default:
+      return quote(record.value);
+  }
+}
+
+/**
+ * Write a zone as BIND-like text (absolute names, one metadata comment per name)
+ */
+export function formatZoneFile(zone: VNSZone): string {
+  const lines = [
+    '; VNS zone file',
+    ...(zone.exported !== undefined ? [`; exported ${new Date(zone.exported).toISOString()}`] : []),
+    `$TTL ${VNS_CONFIG.TTL_DEFAULT}`
+  ];
+
+  for (const entry of zone.names) {
+    const meta = [
+      entry.owner ? `owner=${entry.owner}` : null,
+      entry.expires !== undefined && entry.expires < Number.MAX_SAFE_INTEGER ? `expires=${new Date(entry.expires).toISOString()}` : null
+    ].filter(Boolean);
+    lines.push('', `; ${entry.name}${meta.length > 0 ? ` ${meta.join(' ')}` : ''}`);
+    for (const record of entry.records) {
+      lines.push(`${`${entry.name}.`.padEnd(32)} ${String(record.ttl ?? VNS_CONFIG.TTL_DEFAULT).padEnd(6)} IN ${record.type.padEnd(8)} ${formatRecordData(record)}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Split a zone file line into fields (quoted strings are one field, unescaped)
+ * Comments start at an unquoted ";"
+ */
+function tokenize(line: string): { tokens: string[]; quoted: boolean[] } {
+  const tokens: string[] = [];
+  const quoted: boolean[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const c = line[i];
+    if (c === ';') break;
+    if (c === ' ' || c === '\t') {
+      i++;
+      continue;
+    }
+    if (c === '"') {
+      let value = '';
+      i++;
+      while (i < line.length && line[i] !== '"') {
+        if (line[i] === '\\' && i + 1 < line.length) {
+          const next = line[i + 1];
+          value += next === 'n' ? '\n' : next;
+          i += 2;
+        } else {
+          value += line[i++];
+        }
+      }
+      if (i >= line.length) {
+        throw new Error('Unterminated quoted string');
+      }
+      i++;
+      tokens.push(value);
+      quoted.push(true);
+      continue;
+    }
+    let value = '';
+    while (i < line.length && !' \t;"'.includes(line[i])) {
+      value += line[i++];
+    }
+    tokens.push(value);
+    quoted.push(false);
+  }
+  return { tokens, quoted };
+}
+
+/**
+ * Absolute name of an owner or target field
+ */
+function absoluteName(field: string, origin: string | null): string {
+  if (field === '@') {
+    if (!origin) throw new Error('"@" used without $ORIGIN');
+    return origin;
+  }
+  if (field.endsWith('.')) {
+    return normalizeVNSName(field.slice(0, -1));
+  }
+  if (origin && !field.endsWith(VNS_CONFIG.TLD)) {
+    return normalizeVNSName(`${field}.${origin}`);
+  }
+  return normalizeVNSName(field);
+}
+
+/**
+ * Parse BIND-like zone text
+ * Throws with the line number on the first malformed line, name or record set
+ */
+export function parseZoneFile(text: string): VNSZone {
+  const names = new Map<string, VNSZoneName>();
+  let origin: string | null = null;
+  let defaultTTL: number = VNS_CONFIG.TTL_DEFAULT;
+  let current: string | null = null;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const at = `Line ${index + 1}`;
+    try {
+      // "; <name> owner=... expires=..." metadata comments
+      const meta = /^\s*;\s*(\S+\.vfs)\s+(.*)$/i.exec(line);
+      if (meta) {
+        const entry = getOrAdd(names, normalizeVNSName(meta[1]));
+        const owner = /owner=(\S+)/.exec(meta[2]);
+        const expires = /expires=(\S+)/.exec(meta[2]);
+        if (owner) entry.owner = owner[1];
+        if (expires && !isNaN(Date.parse(expires[1]))) entry.expires = Date.parse(expires[1]);
+        return;
+      }
+
+      const { tokens, quoted } = tokenize(line);
+      if (tokens.length === 0) return;
+
+      if (tokens[0] === '$ORIGIN') {
+        origin = absoluteName(tokens[1] || '', null);
+        return;
+      }
+      if (tokens[0] === '$TTL') {
+        defaultTTL = parseTTL(tokens[1]);
+        return;
+      }
+      if (tokens[0].startsWith('$')) {
+        throw new Error(`Unsupported directive ${tokens[0]}`);
+      }
+
+      // A line starting with whitespace continues the previous name
+      let field = 0;
+      if (!/^\s/.test(line)) {
+        current = absoluteName(tokens[field++], origin);
+      }
+      if (!current) {
+        throw new Error('Record without a name');
+      }
+
+      let ttl = defaultTTL;
+      if (/^\d+$/.test(tokens[field] || '') && !quoted[field]) {
+        ttl = parseTTL(tokens[field++]);
+      }
+      if ((tokens[field] || '').toUpperCase() === 'IN' && !quoted[field]) {
+        field++;
+      }
+
+      const type = (tokens[field++] || '').toUpperCase() as VNSRecordType;
+      if (!RECORD_TYPES.includes(type)) {
+        throw new Error(`Unknown record type: ${type || '(missing)'}`);
+      }
+      const data = tokens.slice(field);
+      if (data.length === 0) {
+        throw new Error(`Missing ${type} record data`);
+      }
+
+      let value: string;
+      if (type === 'CNAME') {
+        value = absoluteName(data[0], origin);
+      } else if (type === 'SRV' || type === 'MX') {
+        value = [...data.slice(0, -1), absoluteName(data[data.length - 1], origin)].join(' ');
+      } else if (DNS_STYLE_TYPES.includes(type)) {
+        value = data[0];
+      } else {
+        value = data.join(' ');
+      }
+
+      getOrAdd(names, current).records.push({ type, value, ttl });
+    } catch (e) {
+      throw new Error(`${at}: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+
+  const zone: VNSZone = { version: 1, names: Array.from(names.values()) };
+  validateZone(zone);
+  return zone;
+}
+
+function getOrAdd(names: Map<string, VNSZoneName>, name: string): VNSZoneName {
+  let entry = names.get(name);
+  if (!entry) {
+    entry = { name, records: [] };
+    names.set(name, entry);
+  }
+  return entry;
+}
+
+function parseTTL(value: string | undefined): number {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error(`Invalid TTL: ${value ?? '(missing)'}`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Check every name and record set of a zone (throws on the first invalid one)
+ */
+export function validateZone(zone: VNSZone): void {
+  const seen = new Set<string>();
+  for (const entry of zone.names) {
+    const nameCheck = validateVNSName(entry.name);
+    if (!nameCheck.valid) {
+      throw new Error(`${entry.name}: ${nameCheck.error}`);
+    }
+    if (seen.has(entry.name)) {
+      throw new Error(`${entry.name}: listed more than once`);
+    }
+    seen.add(entry.name);
+    if (entry.records.length === 0) {
+      throw new Error(`${entry.name}: no records`);
+    }
+    const recordCheck = validateVNSRecords(entry.records);
+    if (!recordCheck.valid) {
+      throw new Error(`${entry.name}: ${recordCheck.error}`);
+    }
+  }
+}
+
+/**
+ * Parse a zone in either format (JSON if it starts with "{")
+ */
+export function parseZone(text: string): VNSZone {
+  if (!text.trimStart().startsWith('{')) {
+    return parseZoneFile(text);
+  }
+
+  const data = JSON.parse(text);
+  if (data?.version !== 1 || !Array.isArray(data.names)) {
+    throw new Error('Zone JSON must be { "version": 1, "names": [...] }');
+  }
+  const zone: VNSZone = {
+    version: 1,
+    exported: data.exported,
+    names: data.names.map((entry: any) => ({
+      name: normalizeVNSName(String(entry?.name ?? '')),
+      owner: entry?.owner,
+      expires: entry?.expires,
+      records: Array.isArray(entry?.records)
+        ? entry.records.map((r: any) => ({ type: r.type, value: r.value, ttl: r.ttl ?? VNS_CONFIG.TTL_DEFAULT }))
+        : []
+    }))
+  };
+  validateZone(zone);
+  return zone;
+}
+
+/**
+ * Whether two record sets hold the same records (order-insensitive, missing TTL = default)
+ */
+export function sameRecords(a: VNSRecord[], b: VNSRecord[]): boolean {
+  const key = (r: VNSRecord) => JSON.stringify([r.type, r.value, r.ttl ?? VNS_CONFIG.TTL_DEFAULT]);
+  const left = a.map(key).sort();
+  const right = b.map(key).sort();
+  return left.length === right.length && left.every((k, i) => k === right[i]);
+}
+
+/**
+ * Diff a zone against the live namespace: what `owner` has to register or update
+ * Names the zone leaves out are not touched (VNS names are never deleted, only left to expire)
+ */
+export function planZoneChanges(zone: VNSZone, live: Map<string, VNSLiveName | null>, owner: string): VNSZoneChange[] {
+  return zone.names.map(entry => {
+    const current = live.get(entry.name) || null;
+    if (!current) {
+      return { name: entry.name, action: 'register' as const, records: entry.records };
+    }
+    if (current.owner !== owner) {
+      return { name: entry.name, action: 'conflict' as const, records: entry.records, owner: current.owner };
+    }
+    return {
+      name: entry.name,
+      action: sameRecords(entry.records, current.records) ? 'unchanged' as const : 'update' as const,
+      records: entry.records,
+      owner: current.owner
+    };
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * VNS Delta Guard Tests
+ *
+ * Unit tests for delta envelopes: signatures, per-origin sequences, freshness and dedup
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VNSDeltaGuard, VNSDeltaEnvelope } from '../../src/vns/delta-guard.js';
+import { VNS_CONFIG } from '../../src/types/vns-schema.js';
+import { createOrLoadIdentity, peerIdKeyPems, VerimutIdentity } from '../../src/identity.js';
+
+describe('VNSDeltaGuard', () => {
+  let dir: string;
+  let origin: VerimutIdentity;
+  let node: { signingKeyPem: string; publicKeyPem: string };
+  let other: { signingKeyPem: string; publicKeyPem: string };
+
+  const delta = (cid = 'bafy-one'): VNSDeltaEnvelope => ({
+    type: 'register',
+    entry: { name: 'relay.vfs', cid },
+    merkleRoot: 'root',
+    peerId: origin.peerId.toString(),
+    timestamp: Date.now()
+  });
+
+  // Verify and, if valid, accept (what applyDelta does once the entry validates)
+  const receive = (guard: VNSDeltaGuard, envelope: VNSDeltaEnvelope) => {
+    const result = guard.verify(envelope);
+    if (result.valid) {
+      guard.accept(envelope);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-delta-'));
+    origin = await createOrLoadIdentity(path.join(dir, 'node'));
+    node = peerIdKeyPems(origin.peerId);
+    other = peerIdKeyPems((await createOrLoadIdentity(path.join(dir, 'other'))).peerId);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should accept each sealed delta once', () => {
+    const sender = new VNSDeltaGuard();
+    const receiver = new VNSDeltaGuard();
+
+    const first = sender.seal(delta(), node);
+    const second = sender.seal(delta('bafy-two'), node);
+    expect([first.sequence, second.sequence]).toEqual([1, 2]);
+
+    expect(receive(receiver, first).valid).toBe(true);
+    expect(receive(receiver, second).valid).toBe(true);
+    expect(receive(receiver, first).error).toContain('replays sequence 1');
+    expect(receive(receiver, delta()).error).toBe('Delta is not signed by its origin');
+  });
+
+  it('should reject tampered, stale and re-keyed envelopes', () => {
+    const sender = new VNSDeltaGuard();
+    const receiver = new VNSDeltaGuard();
+
+    const tampered = sender.seal(delta(), node);
+    tampered.entry = { name: 'relay.vfs', cid: 'bafy-older' };
+    expect(receive(receiver, tampered).error).toBe('Invalid delta signature');
+
+    const stale = sender.seal(delta(), node);
+    jest.spyOn(Date, 'now').mockReturnValue(stale.timestamp + VNS_CONFIG.DELTA_MAX_AGE_MS + 1);
+    expect(receive(receiver, stale).error).toBe('Delta is stale');
+    jest.restoreAllMocks();
+
+    expect(receive(receiver, sender.seal(delta(), node)).valid).toBe(true);
+    expect(receive(receiver, sender.seal(delta(), other)).error).toContain('does not belong to');
+  });
+
+  it('should keep sequences and pinned origins across restarts', () => {
+    const originFile = path.join(dir, 'origin-delta-state.json');
+    const receiverFile = path.join(dir, 'receiver-delta-state.json');
+    const first = new VNSDeltaGuard(originFile).seal(delta(), node);
+    const receiver = new VNSDeltaGuard(receiverFile);
+    expect(receive(receiver, first).valid).toBe(true);
+    receiver.flush();
+
+    const sender = new VNSDeltaGuard(originFile);
+    expect(sender.getSequence()).toBe(1);
+    expect(sender.seal(delta(), node).sequence).toBe(2);
+    expect(new VNSDeltaGuard(receiverFile).verify(first).error).toContain('replays sequence 1');
+  });
+
+  it('should keep processed entry CIDs across restarts', () => {
+    const file = path.join(dir, 'receiver-delta-state.json');
+    const guard = new VNSDeltaGuard(file);
+    guard.remember('bafy-one');
+    guard.remember('bafy-two');
+
+    // Both CIDs wait for one batched write
+    expect(fs.existsSync(file)).toBe(false);
+    guard.flush();
+    const reopened = new VNSDeltaGuard(file);
+    expect(reopened.isDuplicate('bafy-one')).toBe(true);
+    expect(reopened.isDuplicate('bafy-two')).toBe(true);
+  });
+
+  it('should only use up a sequence number once the delta is accepted', () => {
+    const sender = new VNSDeltaGuard();
+    const receiver = new VNSDeltaGuard();
+    const first = sender.seal(delta(), node);
+
+    // Verified but never accepted (its entry was rejected): the origin's next delta still counts
+    expect(receiver.verify(first).valid).toBe(true);
+    expect(receiver.verify(first).valid).toBe(true);
+    receiver.accept(first);
+    expect(receiver.verify(first).error).toContain('replays sequence 1');
+  });
+
+  it('should remember a bounded set of entry CIDs', () => {
+    const guard = new VNSDeltaGuard();
+    for (let i = 0; i <= VNS_CONFIG.DELTA_DEDUP_CACHE_SIZE; i++) {
+      guard.remember(`cid-${i}`);
+    }
+    expect(guard.isDuplicate('cid-0')).toBe(false);
+    expect(guard.isDuplicate('cid-1')).toBe(true);
+    expect(guard.isDuplicate(`cid-${VNS_CONFIG.DELTA_DEDUP_CACHE_SIZE}`)).toBe(true);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * VNS DNS Server Tests
+ *
+ * Wire-level tests: queries are sent over UDP/TCP to a server on 127.0.0.1
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import dgram from 'dgram';
+import net from 'net';
+import type { VNSNamespaceStore } from '../../src/vns/namespace-store.js';
+import {
+  VNSDNSServer,
+  VNSDNSResolver,
+  DNS_TYPE,
+  DNS_RCODE,
+  encodeDNSQuery,
+  decodeDNSMessage,
+  parseDNSType,
+  toDNSJSON,
+  DNSMessage
+} from '../../src/vns/dns-server.js';
+import { VNSRecord, VNSResolutionResult } from '../../src/types/vns-schema.js';
+
+const RECORDS: Record<string, VNSRecord[]> = {
+  'web.vfs': [
+    { type: 'A', value: '10.0.0.7', ttl: 120 },
+    { type: 'AAAA', value: '2001:db8::7' },
+    { type: 'TXT', value: 'x'.repeat(300) }
+  ],
+  'alias.vfs': [{ type: 'CNAME', value: 'web.vfs' }],
+  'loop-a.vfs': [{ type: 'CNAME', value: 'loop-b.vfs' }],
+  'loop-b.vfs': [{ type: 'CNAME', value: 'loop-a.vfs' }],
+  'svc.vfs': [{ type: 'SRV', value: '10 5 8080 web.vfs' }],
+  'site.vfs': [
+    { type: 'CONTENT', value: 'ipns://example.eth' },
+    { type: 'MX', value: '10 mail.vfs', ttl: 300 }
+  ]
+};
+
+/**
+ * Minimal store stand-in: only resolve() is used by the DNS server
+ */
+const store = {
+  resolve: async (name: string): Promise<VNSResolutionResult> => RECORDS[name]
+    ? { name, found: true, records: RECORDS[name] }
+    : { name, found: false, error: 'Name not found' }
+} as unknown as VNSNamespaceStore;
+
+function queryUDP(port: number, name: string, type: number): Promise<DNSMessage> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error('DNS query timed out'));
+    }, 2000);
+    socket.once('message', (msg) => {
+      clearTimeout(timer);
+      socket.close();
+      resolve(decodeDNSMessage(msg));
+    });
+    socket.send(encodeDNSQuery(name, type), port, '127.0.0.1');
+  });
+}
+
+function queryTCP(port: number, name: string, type: number): Promise<DNSMessage> {
+  return new Promise((resolve, reject) => {
+    const query = encodeDNSQuery(name, type);
+    const prefix = Buffer.alloc(2);
+    prefix.writeUInt16BE(query.length, 0);
+
+    let received = Buffer.alloc(0);
+    const socket = net.connect(port, '127.0.0.1', () => socket.write(Buffer.concat([prefix, query])));
+    socket.setTimeout(2000, () => {
+      socket.destroy();
+      reject(new Error('DNS query timed out'));
+    });
+    socket.on('error', reject);
+    socket.on('data', (chunk) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length >= 2 && received.length >= received.readUInt16BE(0) + 2) {
+        socket.end();
+        resolve(decodeDNSMessage(received.subarray(2)));
+      }
+    });
+  });
+}
+
+describe('VNSDNSServer', () => {
+  let server: VNSDNSServer;
+  let port: number;
+
+  beforeAll(async () => {
+    server = new VNSDNSServer(store, { port: 0, host: '127.0.0.1' });
+    await server.start();
+    port = server.getPort();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should answer A queries with the record TTL', async () => {
+    const response = await queryUDP(port, 'web.vfs', DNS_TYPE.A);
+    expect(response.rcode).toBe(DNS_RCODE.NOERROR);
+    expect(response.answers).toHaveLength(1);
+    expect([...response.answers[0].data]).toEqual([10, 0, 0, 7]);
+    expect(response.answers[0].ttl).toBe(120);
+  });
+
+  it('should answer AAAA queries with the default TTL', async () => {
+    const response = await queryUDP(port, 'web.vfs', DNS_TYPE.AAAA);
+    expect(response.answers).toHaveLength(1);
+    expect(response.answers[0].data.toString('hex')).toBe('20010db8000000000000000000000007');
+    expect(response.answers[0].ttl).toBe(3600);
+  });
+
+  it('should split long TXT values into character strings', async () => {
+    const response = await queryTCP(port, 'web.vfs', DNS_TYPE.TXT);
+    const data = response.answers[0].data;
+    expect(data[0]).toBe(255);
+    expect(data[256]).toBe(45);
+    expect(data.length).toBe(302);
+  });
+
+  it('should answer NXDOMAIN for unknown names', async () => {
+    const response = await queryUDP(port, 'missing.vfs', DNS_TYPE.A);
+    expect(response.rcode).toBe(DNS_RCODE.NXDOMAIN);
+    expect(response.answers).toHaveLength(0);
+  });
+
+  it('should answer NOERROR with no records when the type is absent', async () => {
+    const response = await queryUDP(port, 'svc.vfs', DNS_TYPE.A);
+    expect(response.rcode).toBe(DNS_RCODE.NOERROR);
+    expect(response.answers).toHaveLength(0);
+  });
+
+  it('should follow CNAME records', async () => {
+    const response = await queryUDP(port, 'alias.vfs', DNS_TYPE.A);
+    expect(response.answers.map(a => [a.name, a.type])).toEqual([
+      ['alias.vfs', DNS_TYPE.CNAME],
+      ['web.vfs', DNS_TYPE.A]
+    ]);
+  });
+
+  it('should answer SERVFAIL for CNAME loops', async () => {
+    const response = await queryUDP(port, 'loop-a.vfs', DNS_TYPE.A);
+    expect(response.rcode).toBe(DNS_RCODE.SERVFAIL);
+  });
+
+  it('should encode SRV records', async () => {
+    const response = await queryUDP(port, 'svc.vfs', DNS_TYPE.SRV);
+    const data = response.answers[0].data;
+    expect(data.readUInt16BE(0)).toBe(10);
+    expect(data.readUInt16BE(2)).toBe(5);
+    expect(data.readUInt16BE(4)).toBe(8080);
+  });
+
+  it('should refuse non-.vfs names without an upstream', async () => {
+    const response = await queryUDP(port, 'example.com', DNS_TYPE.A);
+    expect(response.rcode).toBe(DNS_RCODE.REFUSED);
+  });
+
+  it('should forward non-.vfs names to the upstream resolver', async () => {
+    const fake = dgram.createSocket('udp4');
+    await new Promise<void>(resolve => fake.bind(0, '127.0.0.1', () => resolve()));
+    fake.on('message', (msg, rinfo) => {
+      // Echo back the query with the QR bit set
+      const reply = Buffer.from(msg);
+      reply.writeUInt16BE(reply.readUInt16BE(2) | 0x8000, 2);
+      fake.send(reply, rinfo.port, rinfo.address);
+    });
+
+    const forwarding = new VNSDNSServer(store, { port: 0, upstream: `127.0.0.1:${fake.address().port}` });
+    await forwarding.start();
+    try {
+      const response = await queryUDP(forwarding.getPort(), 'example.com', DNS_TYPE.A);
+      expect(response.rcode).toBe(DNS_RCODE.NOERROR);
+      expect(response.questions[0].name).toBe('example.com');
+    } finally {
+      await forwarding.stop();
+      fake.close();
+    }
+  });
+});
+
+describe('VNSDNSResolver', () => {
+  const resolver = new VNSDNSResolver(store);
+
+  const query = async (name: string, type: number): Promise<DNSMessage> =>
+    decodeDNSMessage((await resolver.handleQuery(encodeDNSQuery(name, type, 7)))!);
+
+  it('should serve VNS-only records as TXT', async () => {
+    const response = await query('site.vfs', DNS_TYPE.TXT);
+    expect(response.answers.map(a => a.text)).toEqual(['"dnslink=/ipns/example.eth"']);
+  });
+
+  it('should convert responses to the DNS JSON format', async () => {
+    const json = toDNSJSON(await query('site.vfs', DNS_TYPE.MX));
+    expect(json.Status).toBe(DNS_RCODE.NOERROR);
+    expect(json.Question).toEqual([{ name: 'site.vfs.', type: DNS_TYPE.MX }]);
+    expect(json.Answer).toEqual([{ name: 'site.vfs.', type: DNS_TYPE.MX, TTL: 300, data: '10 mail.vfs.' }]);
+  });
+
+  it('should present AAAA and SRV data in canonical form', async () => {
+    expect((await query('web.vfs', DNS_TYPE.AAAA)).answers[0].text).toBe('2001:db8::7');
+    expect((await query('svc.vfs', DNS_TYPE.SRV)).answers[0].text).toBe('10 5 8080 web.vfs.');
+  });
+
+  it('should report NXDOMAIN in the JSON status', async () => {
+    const json = toDNSJSON(await query('gone.vfs', DNS_TYPE.A));
+    expect(json.Status).toBe(DNS_RCODE.NXDOMAIN);
+    expect(json.Answer).toEqual([]);
+  });
+
+  it('should answer FORMERR for malformed queries', async () => {
+    const response = await resolver.handleQuery(Buffer.from([0, 7, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 3, 0x61]));
+    expect(decodeDNSMessage(response!).rcode).toBe(DNS_RCODE.FORMERR);
+  });
+
+  it('should parse query types by name or number', () => {
+    expect(parseDNSType('aaaa')).toBe(DNS_TYPE.AAAA);
+    expect(parseDNSType('33')).toBe(DNS_TYPE.SRV);
+    expect(parseDNSType(null)).toBe(DNS_TYPE.A);
+    expect(parseDNSType('BOGUS')).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * VNS Hybrid Logical Clock Tests
+ *
+ * Unit tests for clock advancement, merging and version ordering
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { HybridLogicalClock, compareHLC, compareEntryVersions } from '../../src/vns/hlc.js';
+
+describe('HybridLogicalClock', () => {
+  let physical: number;
+  let clock: HybridLogicalClock;
+
+  beforeEach(() => {
+    physical = 1000;
+    clock = new HybridLogicalClock(() => physical, 500);
+  });
+
+  it('should follow the physical clock when it advances', () => {
+    expect(clock.now()).toEqual({ wall: 1000, counter: 0 });
+    physical = 1200;
+    expect(clock.now()).toEqual({ wall: 1200, counter: 0 });
+  });
+
+  it('should count events within the same millisecond or a clock step back', () => {
+    clock.now();
+    expect(clock.now()).toEqual({ wall: 1000, counter: 1 });
+    physical = 900;
+    expect(clock.now()).toEqual({ wall: 1000, counter: 2 });
+  });
+
+  it('should issue stamps after merged remote stamps', () => {
+    clock.now();
+    clock.observe({ wall: 1300, counter: 4 });
+    expect(clock.now()).toEqual({ wall: 1300, counter: 6 });
+
+    clock.observe({ wall: 1300, counter: 9 });
+    expect(clock.now()).toEqual({ wall: 1300, counter: 11 });
+  });
+
+  it('should reject stamps beyond the allowed drift', () => {
+    expect(clock.validate({ wall: 1500, counter: 0 }).valid).toBe(true);
+    expect(clock.validate({ wall: 1501, counter: 0 }).valid).toBe(false);
+    expect(clock.validate({ wall: -1, counter: 0 }).valid).toBe(false);
+    expect(clock.validate({ wall: 1000, counter: 0.5 }).valid).toBe(false);
+  });
+
+  it('should order versions by clock, then by CID', () => {
+    expect(compareHLC({ wall: 1, counter: 9 }, { wall: 2, counter: 0 })).toBeLessThan(0);
+    expect(compareHLC({ wall: 2, counter: 1 }, { wall: 2, counter: 0 })).toBeGreaterThan(0);
+
+    const hlc = { wall: 5, counter: 0 };
+    expect(compareEntryVersions({ cid: 'bafya', hlc, lastModified: 0 }, { cid: 'bafyb', hlc, lastModified: 0 })).toBeLessThan(0);
+    expect(compareEntryVersions({ cid: 'bafyb', hlc, lastModified: 0 }, { cid: 'bafyb', hlc, lastModified: 0 })).toBe(0);
+
+    // Entries without a clock fall back to lastModified
+    expect(compareEntryVersions({ cid: 'bafya', lastModified: 6 }, { cid: 'bafyb', hlc, lastModified: 0 })).toBeGreaterThan(0);
+  });
+});
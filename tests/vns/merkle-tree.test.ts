@@ -0,0 +1,77 @@
+/**
+ * VNS Merkle Tree Tests
+ *
+ * Unit tests for incremental updates and inclusion/non-inclusion proofs
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { VNSMerkleTree, verifyMerkleProof } from '../../src/vns/merkle-tree.js';
+
+describe('VNSMerkleTree', () => {
+  let tree: VNSMerkleTree;
+  const entries = Array.from({ length: 50 }, (_, i) => ({ name: `name${i}.vfs`, cid: `cid-${i}` }));
+
+  beforeEach(() => {
+    tree = VNSMerkleTree.fromEntries(entries);
+  });
+
+  it('should produce the same root regardless of insertion order', () => {
+    const reversed = VNSMerkleTree.fromEntries([...entries].reverse());
+    expect(reversed.getRoot()).toBe(tree.getRoot());
+  });
+
+  it('should return to the previous root after insert then delete', () => {
+    const before = tree.getRoot();
+    tree.set('extra.vfs', 'cid-extra');
+    expect(tree.getRoot()).not.toBe(before);
+
+    tree.delete('extra.vfs');
+    expect(tree.getRoot()).toBe(before);
+  });
+
+  it('should match a tree rebuilt from scratch after deletions', () => {
+    entries.slice(0, 20).forEach(e => tree.delete(e.name));
+    const rebuilt = VNSMerkleTree.fromEntries(entries.slice(20));
+    expect(tree.getRoot()).toBe(rebuilt.getRoot());
+  });
+
+  it('should verify inclusion proofs', () => {
+    const root = tree.getRoot();
+    for (const entry of entries) {
+      const proof = tree.prove(entry.name);
+      expect(proof.included).toBe(true);
+      expect(verifyMerkleProof(proof, root, entry.cid)).toBe(true);
+    }
+  });
+
+  it('should reject an inclusion proof for the wrong CID', () => {
+    const proof = tree.prove('name7.vfs');
+    expect(verifyMerkleProof(proof, tree.getRoot(), 'cid-8')).toBe(false);
+  });
+
+  it('should verify non-inclusion proofs', () => {
+    const proof = tree.prove('missing.vfs');
+    expect(proof.included).toBe(false);
+    expect(verifyMerkleProof(proof, tree.getRoot())).toBe(true);
+  });
+
+  it('should reject proofs against a different root', () => {
+    const proof = tree.prove('name3.vfs');
+    tree.set('name3.vfs', 'cid-changed');
+    expect(verifyMerkleProof(proof, tree.getRoot(), 'cid-3')).toBe(false);
+  });
+
+  it('should reject a forged non-inclusion proof for a present name', () => {
+    const proof = { ...tree.prove('name5.vfs'), included: false };
+    expect(verifyMerkleProof(proof, tree.getRoot())).toBe(false);
+  });
+
+  it('should handle empty and single-entry trees', () => {
+    const empty = new VNSMerkleTree();
+    expect(verifyMerkleProof(empty.prove('any.vfs'), empty.getRoot())).toBe(true);
+
+    empty.set('only.vfs', 'cid-only');
+    expect(verifyMerkleProof(empty.prove('only.vfs'), empty.getRoot(), 'cid-only')).toBe(true);
+    expect(verifyMerkleProof(empty.prove('other.vfs'), empty.getRoot())).toBe(true);
+  });
+});
@@ -0,0 +1,1791 @@
+/**
+ * VNS Namespace Store Tests
+ *
+ * Unit tests for namespace persistence, reload and anti-entropy reconciliation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VNSNamespaceStore, VNSDelta } from '../../src/vns/namespace-store.js';
+import { VNSReconciler, VNSReconcileTransport } from '../../src/vns/reconciler.js';
+import { VNSSecurity, VNSSignatureValidator, VNSProofOfWork, renewalPoWSubject, rateLimitKey } from '../../src/vns/security.js';
+import { FileBlockstore } from '../../src/blockstore.js';
+import { VNSLocalStakeLedger } from '../../src/vns/stake-ledger.js';
+import { VNSDeltaGuard } from '../../src/vns/delta-guard.js';
+import type { VNSChangeEvent } from '../../src/vns/change-feed.js';
+import { lookupFriendlyName, setFriendlyNameSource } from '../../src/vns/friendly-names.js';
+import {
+  VNS_CONFIG,
+  VNSRegistration,
+  VNSRenewal,
+  VNSRecordUpdate,
+  VNSRecordType,
+  VNSTransfer,
+  VNSKeyRotation,
+  VNSOwnerSet
+} from '../../src/types/vns-schema.js';
+import { createOrLoadIdentity, peerIdKeyPems, signData, VerimutIdentity } from '../../src/identity.js';
+
+/**
+ * Build a signed registration with a valid PoW nonce
+ */
+function buildRegistration(identity: VerimutIdentity, name: string, security: VNSSecurity, owners?: VNSOwnerSet): VNSRegistration {
+  const owner = identity.peerId.toString();
+  const nonce = security.computePoW(name, owner);
+  if (nonce === null) {
+    throw new Error('Failed to compute PoW for test registration');
+  }
+
+  const now = Date.now();
+  const registration: VNSRegistration = {
+    name,
+    owner,
+    records: [{ type: 'TXT', value: `record for ${name}`, ttl: 3600 }],
+    timestamp: now,
+    expires: now + VNS_CONFIG.EXPIRATION_PERIOD,
+    nonce,
+    signature: '',
+    publicKey: identity.publicKeyPem,
+    owners
+  };
+  registration.signature = signData(
+    identity.signingKeyPem,
+    new VNSSignatureValidator().serializeForSigning(registration)
+  );
+  return registration;
+}
+
+/**
+ * Wrap a delta in an envelope signed by the node relaying it (with its peer ID key)
+ */
+function relayDelta<T extends VNSDelta>(delta: T, node: VerimutIdentity, guard: VNSDeltaGuard = new VNSDeltaGuard()): T {
+  return guard.seal({ ...delta, peerId: node.peerId.toString() }, peerIdKeyPems(node.peerId));
+}
+
+describe('VNSNamespaceStore persistence', () => {
+  let repoPath: string;
+  let identity: VerimutIdentity;
+  let stores: VNSNamespaceStore[];
+
+  const openStore = async (): Promise<VNSNamespaceStore> => {
+    const store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-store-'));
+    identity = await createOrLoadIdentity(path.join(repoPath, 'identity'));
+    stores = [];
+  });
+
+  afterEach(() => {
+    stores.forEach(s => s.stopExpirySweep());
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should reload registrations after a restart', async () => {
+    const first = await openStore();
+    const reg = buildRegistration(identity, 'persisted.vfs', new VNSSecurity(3));
+    const result = await first.register(reg, 'peer1');
+    expect(result.success).toBe(true);
+
+    const second = await openStore();
+    const resolved = await second.resolve('persisted.vfs');
+    expect(resolved.found).toBe(true);
+    expect(second.getNamesByOwner(reg.owner)).toContain('persisted.vfs');
+    expect(second.getMerkleRoot()).toBe(first.getMerkleRoot());
+    expect(second.getManifestCid()).toBe(first.getManifestCid());
+  });
+
+  it('should fall back to the previous manifest when the latest is truncated', async () => {
+    const first = await openStore();
+    const security = new VNSSecurity(3);
+    await first.register(buildRegistration(identity, 'alpha.vfs', security), 'peer1');
+    await first.register(buildRegistration(identity, 'bravo.vfs', security), 'peer1');
+
+    // Truncate the latest manifest block
+    const manifestFile = path.join(repoPath, 'blocks', first.getManifestCid()!);
+    const raw = fs.readFileSync(manifestFile, 'utf8');
+    fs.writeFileSync(manifestFile, raw.slice(0, raw.length / 2));
+
+    const second = await openStore();
+    expect((await second.resolve('alpha.vfs')).found).toBe(true);
+    expect((await second.resolve('bravo.vfs')).found).toBe(false);
+  });
+
+  it('should start empty when the head file is missing', async () => {
+    const first = await openStore();
+    await first.register(buildRegistration(identity, 'gone.vfs', new VNSSecurity(3)), 'peer1');
+
+    fs.rmSync(path.join(repoPath, 'vns-head.json'));
+
+    const second = await openStore();
+    expect((await second.resolve('gone.vfs')).found).toBe(false);
+    expect((await second.resolve('root.vfs')).found).toBe(true);
+  });
+
+  it('should write only the changed entry and its shard path on save', async () => {
+    const blockstore = new FileBlockstore(repoPath);
+    const store = new VNSNamespaceStore(blockstore, null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    stores.push(store);
+    const security = new VNSSecurity(3);
+    for (const name of ['first.vfs', 'second.vfs', 'third.vfs']) {
+      await store.register(buildRegistration(identity, name, security), 'peer1');
+    }
+
+    const put = jest.spyOn(blockstore, 'put');
+    await store.register(buildRegistration(identity, 'fourth.vfs', security), 'peer1');
+    // State block, entry block, root shard and manifest
+    expect(put).toHaveBeenCalledTimes(4);
+    put.mockRestore();
+
+    const reopened = await openStore();
+    expect(reopened.getMerkleRoot()).toBe(store.getMerkleRoot());
+    expect((await reopened.resolve('first.vfs')).found).toBe(true);
+  });
+
+  it('should load version 2 manifests and migrate them on the next save', async () => {
+    const first = await openStore();
+    const security = new VNSSecurity(3);
+    await first.register(buildRegistration(identity, 'legacy.vfs', security), 'peer1');
+
+    // Rewrite the head to point at an inline (version 2) manifest
+    const blockstore = new FileBlockstore(repoPath);
+    const entries = [{ name: 'legacy.vfs', cid: await blockstore.put(Buffer.from(JSON.stringify(first.getEntries(['legacy.vfs'])[0]), 'utf8')) }];
+    const manifestCid = await blockstore.put(Buffer.from(JSON.stringify({
+      version: 2, merkleRoot: first.getMerkleRoot(), entries, savedAt: Date.now()
+    }), 'utf8'));
+    fs.writeFileSync(path.join(repoPath, 'vns-head.json'), JSON.stringify({ manifestCid, savedAt: Date.now() }));
+
+    const second = await openStore();
+    expect(second.getManifestCid()).toBe(manifestCid);
+    expect((await second.resolve('legacy.vfs')).found).toBe(true);
+
+    await second.register(buildRegistration(identity, 'modern.vfs', security), 'peer1');
+    const third = await openStore();
+    expect((await third.resolve('legacy.vfs')).found).toBe(true);
+    expect((await third.resolve('modern.vfs')).found).toBe(true);
+  });
+});
+
+/**
+ * Build a signed renewal extending the given expiry by one period
+ */
+function buildRenewal(identity: VerimutIdentity, name: string, previousExpires: number, security: VNSSecurity): VNSRenewal {
+  const owner = identity.peerId.toString();
+  const nonce = security.computePoW(renewalPoWSubject(name, previousExpires), owner);
+  if (nonce === null) {
+    throw new Error('Failed to compute PoW for test renewal');
+  }
+
+  const renewal: VNSRenewal = {
+    name,
+    owner,
+    previousExpires,
+    expires: previousExpires + VNS_CONFIG.EXPIRATION_PERIOD,
+    timestamp: Date.now(),
+    nonce,
+    signature: ''
+  };
+  renewal.signature = signData(
+    identity.signingKeyPem,
+    new VNSSignatureValidator().serializeRenewalForSigning(renewal)
+  );
+  return renewal;
+}
+
+describe('VNSNamespaceStore renewal', () => {
+  let repoPath: string;
+  let identity: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-renew-'));
+    identity = await createOrLoadIdentity(path.join(repoPath, 'identity'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should extend the expiry and change the entry CID', async () => {
+    const reg = buildRegistration(identity, 'renewed.vfs', security);
+    const registered = await store.register(reg, 'peer1');
+
+    const result = await store.renew(buildRenewal(identity, 'renewed.vfs', reg.expires, security), 'peer1');
+    expect(result.success).toBe(true);
+    expect(result.expires).toBe(reg.expires + VNS_CONFIG.EXPIRATION_PERIOD);
+    expect(result.cid).not.toBe(registered.cid);
+
+    const resolved = await store.resolve('renewed.vfs');
+    expect(resolved.expires).toBe(result.expires);
+    expect(store.getRenewalInfo('renewed.vfs')!.nextExpires).toBe(result.expires! + VNS_CONFIG.EXPIRATION_PERIOD);
+  });
+
+  it('should reject a renewal that does not extend the current expiry', async () => {
+    const reg = buildRegistration(identity, 'stale.vfs', security);
+    await store.register(reg, 'peer1');
+    const renewal = buildRenewal(identity, 'stale.vfs', reg.expires, security);
+    await store.renew(renewal, 'peer1');
+
+    const replayed = await store.renew(renewal, 'peer1');
+    expect(replayed.success).toBe(false);
+  });
+
+  it('should reject a renewal with a tampered expiry', async () => {
+    const reg = buildRegistration(identity, 'greedy.vfs', security);
+    await store.register(reg, 'peer1');
+    const renewal = buildRenewal(identity, 'greedy.vfs', reg.expires, security);
+
+    const result = await store.renew({ ...renewal, expires: renewal.expires + 1000 }, 'peer1');
+    expect(result.success).toBe(false);
+  });
+
+  it('should import renewed entries from peers', async () => {
+    const reg = buildRegistration(identity, 'synced.vfs', security);
+    await store.register(reg, 'peer1');
+    await store.renew(buildRenewal(identity, 'synced.vfs', reg.expires, security), 'peer1');
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-renew-peer-'));
+    const other = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await other.initialize();
+    try {
+      expect(await other.importEntry(store.getEntries(['synced.vfs'])[0])).toBe(true);
+      expect(other.getMerkleRoot()).toBe(store.getMerkleRoot());
+      expect((await other.resolve('synced.vfs')).expires).toBe(reg.expires + VNS_CONFIG.EXPIRATION_PERIOD);
+    } finally {
+      other.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject entries from peers with an over-long expiry', async () => {
+    const reg = buildRegistration(identity, 'forever.vfs', security);
+    reg.expires = reg.timestamp + 50 * VNS_CONFIG.EXPIRATION_PERIOD;
+    reg.signature = signData(identity.signingKeyPem, new VNSSignatureValidator().serializeForSigning(reg));
+    expect((await store.register(reg, 'peer1')).error).toBe('Invalid expiration period');
+
+    // A node that skips the check stores it anyway
+    const lenientDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-renew-lenient-'));
+    const lenientSecurity = new VNSSecurity(3);
+    jest.spyOn(lenientSecurity, 'validateExpiryPeriod').mockReturnValue({ valid: true });
+    const lenient = new VNSNamespaceStore(new FileBlockstore(lenientDir), null, lenientSecurity, lenientDir);
+    await lenient.initialize();
+    try {
+      expect((await lenient.register(reg, 'peer1')).success).toBe(true);
+      const entry = lenient.getEntries(['forever.vfs'])[0];
+
+      expect(await store.importEntry(entry)).toBe(false);
+      const delta = relayDelta({ type: 'register' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, identity);
+      expect((await store.applyDelta(delta, 'origin')).error).toContain('Invalid expiration period');
+      expect((await store.resolve('forever.vfs')).found).toBe(false);
+    } finally {
+      jest.restoreAllMocks();
+      lenient.stopExpirySweep();
+      fs.rmSync(lenientDir, { recursive: true, force: true });
+    }
+  });
+});
+
+/**
+ * Build a signed record update
+ */
+function buildUpdate(identity: VerimutIdentity, name: string, value: string, type: VNSRecordType = 'A'): VNSRecordUpdate {
+  const update: VNSRecordUpdate = {
+    name,
+    owner: identity.peerId.toString(),
+    records: [{ type, value, ttl: 3600 }],
+    timestamp: Date.now() + 1,
+    signature: ''
+  };
+  update.signature = signData(
+    identity.signingKeyPem,
+    new VNSSignatureValidator().serializeUpdateForSigning(update)
+  );
+  return update;
+}
+
+describe('VNSNamespaceStore updates', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let other: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-update-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    other = await createOrLoadIdentity(path.join(repoPath, 'other'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should replace records and keep the expiry', async () => {
+    const reg = buildRegistration(owner, 'updated.vfs', security);
+    await store.register(reg, 'peer1');
+
+    const result = await store.update(buildUpdate(owner, 'updated.vfs', '10.0.0.7'), 'peer1');
+    expect(result.success).toBe(true);
+
+    const resolved = await store.resolve('updated.vfs');
+    expect(resolved.records).toEqual([{ type: 'A', value: '10.0.0.7', ttl: 3600 }]);
+    expect(resolved.expires).toBe(reg.expires);
+    expect(resolved.cid).toBe(result.cid);
+  });
+
+  it('should reject updates signed by another key', async () => {
+    await store.register(buildRegistration(owner, 'guarded.vfs', security), 'peer1');
+
+    const forged = { ...buildUpdate(other, 'guarded.vfs', '10.0.0.8'), owner: owner.peerId.toString() };
+    expect((await store.update(forged, 'peer2')).success).toBe(false);
+    expect((await store.update(buildUpdate(other, 'guarded.vfs', '10.0.0.8'), 'peer2')).success).toBe(false);
+  });
+
+  it('should reject re-registration of a live name by another owner', async () => {
+    await store.register(buildRegistration(owner, 'taken.vfs', security), 'peer1');
+
+    const result = await store.register(buildRegistration(other, 'taken.vfs', security), 'peer2');
+    expect(result.success).toBe(false);
+    expect((await store.resolve('taken.vfs')).owner).toBe(owner.peerId.toString());
+  });
+
+  it('should import updated entries from peers', async () => {
+    await store.register(buildRegistration(owner, 'mirrored.vfs', security), 'peer1');
+    await store.update(buildUpdate(owner, 'mirrored.vfs', '10.0.0.9'), 'peer1');
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-update-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      const entry = store.getEntries(['mirrored.vfs'])[0];
+      const tampered = { ...entry, update: { ...entry.update!, records: [{ type: 'A' as const, value: '6.6.6.6' }] } };
+      expect(await peer.importEntry(tampered)).toBe(false);
+
+      expect(await peer.importEntry(entry)).toBe(true);
+      expect((await peer.resolve('mirrored.vfs')).records![0].value).toBe('10.0.0.9');
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not let an earlier signed state with a fresh clock replace the current one', async () => {
+    await store.register(buildRegistration(owner, 'victim.vfs', security), 'peer1');
+    const original = store.getEntries(['victim.vfs'])[0];
+    await store.update(buildUpdate(owner, 'victim.vfs', '2.2.2.2'), 'peer1');
+    const updated = store.getEntries(['victim.vfs'])[0];
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-update-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      expect(await peer.importEntry(updated)).toBe(true);
+
+      // The HLC is neither signed nor part of the CID, so anyone can bump it
+      const stale = { ...original, hlc: { wall: Date.now() + 1000, counter: 0 } };
+      expect(await peer.importEntry(stale)).toBe(false);
+      const relay = await createOrLoadIdentity(path.join(otherDir, 'relay'));
+      const delta = relayDelta({ type: 'update' as const, entry: stale, merkleRoot: '', peerId: 'relay', timestamp: Date.now() }, relay);
+      expect((await peer.applyDelta(delta, 'relay')).error).toBe('Entry would roll back a record update');
+
+      expect((await peer.resolve('victim.vfs')).records![0].value).toBe('2.2.2.2');
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VNSNamespaceStore aliases', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-alias-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    for (const name of ['www.vfs', 'site.vfs', 'loop-a.vfs', 'loop-b.vfs']) {
+      await store.register(buildRegistration(owner, name, security), 'peer1');
+    }
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should follow CNAME records when asked', async () => {
+    await store.update(buildUpdate(owner, 'www.vfs', 'site.vfs', 'CNAME'), 'peer1');
+    await store.update(buildUpdate(owner, 'site.vfs', '10.2.0.1'), 'peer1');
+
+    const direct = await store.resolve('www.vfs');
+    expect(direct.records![0].type).toBe('CNAME');
+
+    const followed = await store.resolve('www.vfs', { followAliases: true });
+    expect(followed.found).toBe(true);
+    expect(followed.name).toBe('site.vfs');
+    expect(followed.records![0].value).toBe('10.2.0.1');
+    expect(followed.aliasChain).toEqual(['www.vfs', 'site.vfs']);
+  });
+
+  it('should detect alias loops', async () => {
+    await store.update(buildUpdate(owner, 'loop-a.vfs', 'loop-b.vfs', 'CNAME'), 'peer1');
+    await store.update(buildUpdate(owner, 'loop-b.vfs', 'loop-a.vfs', 'CNAME'), 'peer1');
+
+    const result = await store.resolve('loop-a.vfs', { followAliases: true });
+    expect(result.found).toBe(false);
+    expect(result.error).toContain('Alias loop');
+  });
+
+  it('should reject records with invalid values', async () => {
+    expect((await store.update(buildUpdate(owner, 'site.vfs', '999.1.1.1'), 'peer1')).success).toBe(false);
+    expect((await store.update(buildUpdate(owner, 'site.vfs', 'ipfs://not-a-cid', 'CONTENT'), 'peer1')).success).toBe(false);
+  });
+});
+
+/**
+ * Build a transfer from `from` to `to`, signed by each of `signers`
+ */
+function buildTransfer(name: string, fromOwner: string, to: VerimutIdentity, signers: VerimutIdentity[]): VNSTransfer {
+  const transfer: VNSTransfer = {
+    name,
+    fromOwner,
+    newOwner: to.peerId.toString(),
+    newPublicKey: to.publicKeyPem,
+    nonce: `nonce-${Math.random()}`,
+    timestamp: Date.now() + 1,
+    signatures: []
+  };
+  const data = new VNSSignatureValidator().serializeTransferForSigning(transfer);
+  transfer.signatures = signers.map(signer => ({
+    publicKey: signer.publicKeyPem,
+    signature: signData(signer.signingKeyPem, data)
+  }));
+  return transfer;
+}
+
+describe('VNSNamespaceStore transfers', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let carol: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-transfer-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    carol = await createOrLoadIdentity(path.join(repoPath, 'carol'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should move a name with a transfer signed by the owner', async () => {
+    await store.register(buildRegistration(alice, 'moved.vfs', security), 'peer1');
+    const aliceId = alice.peerId.toString();
+
+    const result = await store.transfer(buildTransfer('moved.vfs', aliceId, bob, [alice]), 'peer1');
+    expect(result.success).toBe(true);
+    expect((await store.resolve('moved.vfs')).owner).toBe(bob.peerId.toString());
+    expect(store.getNamesByOwner(aliceId)).not.toContain('moved.vfs');
+    expect(store.getNamesByOwner(bob.peerId.toString())).toContain('moved.vfs');
+
+    // Only the new owner can change records now
+    expect((await store.update(buildUpdate(alice, 'moved.vfs', '10.0.0.1'), 'peer1')).success).toBe(false);
+    expect((await store.update(buildUpdate(bob, 'moved.vfs', '10.0.0.2'), 'peer2')).success).toBe(true);
+  });
+
+  it('should reject transfers not signed by the owner', async () => {
+    await store.register(buildRegistration(alice, 'stolen.vfs', security), 'peer1');
+    const aliceId = alice.peerId.toString();
+
+    expect((await store.transfer(buildTransfer('stolen.vfs', aliceId, bob, [bob]), 'peer2')).success).toBe(false);
+    expect((await store.transfer(buildTransfer('stolen.vfs', aliceId, bob, []), 'peer2')).success).toBe(false);
+    expect((await store.resolve('stolen.vfs')).owner).toBe(aliceId);
+  });
+
+  it('should reject a replayed transfer', async () => {
+    await store.register(buildRegistration(alice, 'replayed.vfs', security), 'peer1');
+    const transfer = buildTransfer('replayed.vfs', alice.peerId.toString(), bob, [alice]);
+    await store.transfer(transfer, 'peer1');
+
+    expect((await store.transfer({ ...transfer, signatures: [...transfer.signatures] }, 'peer1')).success).toBe(false);
+  });
+
+  it('should require the threshold of co-owner signatures', async () => {
+    const owners = { keys: [alice.publicKeyPem, bob.publicKeyPem, carol.publicKeyPem], threshold: 2 };
+    const reg = buildRegistration(alice, 'team.vfs', security, owners);
+    expect((await store.register(reg, 'peer1')).success).toBe(true);
+
+    const aliceId = alice.peerId.toString();
+    expect((await store.transfer(buildTransfer('team.vfs', aliceId, carol, [alice]), 'peer1')).success).toBe(false);
+    expect((await store.transfer(buildTransfer('team.vfs', aliceId, carol, [alice, alice]), 'peer1')).success).toBe(false);
+    expect((await store.transfer(buildTransfer('team.vfs', aliceId, carol, [alice, bob]), 'peer1')).success).toBe(true);
+    expect((await store.resolve('team.vfs')).owner).toBe(carol.peerId.toString());
+  });
+
+  it('should verify transfer chains from peers and refuse rollbacks', async () => {
+    const reg = buildRegistration(alice, 'relayed.vfs', security);
+    await store.register(reg, 'peer1');
+    const original = store.getEntries(['relayed.vfs'])[0];
+    await store.transfer(buildTransfer('relayed.vfs', alice.peerId.toString(), bob, [alice]), 'peer1');
+    const transferred = store.getEntries(['relayed.vfs'])[0];
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-transfer-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      const forged = buildTransfer('relayed.vfs', alice.peerId.toString(), carol, [carol]);
+      expect(await peer.importEntry({ ...transferred, transfers: [forged], hlc: { wall: Date.now() + 10, counter: 0 } })).toBe(false);
+
+      expect(await peer.importEntry(transferred)).toBe(true);
+      expect((await peer.resolve('relayed.vfs')).owner).toBe(bob.peerId.toString());
+
+      expect(await peer.importEntry({ ...original, hlc: { wall: Date.now() + 10, counter: 0 } })).toBe(false);
+      expect((await peer.resolve('relayed.vfs')).owner).toBe(bob.peerId.toString());
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+/**
+ * Build a subdomain registration owned by `owner` and authorized by `zone` (no PoW)
+ */
+function buildSubdomain(owner: VerimutIdentity, zone: VerimutIdentity, name: string): VNSRegistration {
+  const now = Date.now();
+  const registration: VNSRegistration = {
+    name,
+    owner: owner.peerId.toString(),
+    records: [{ type: 'A', value: '10.1.0.1', ttl: 3600 }],
+    timestamp: now,
+    expires: now + VNS_CONFIG.EXPIRATION_PERIOD,
+    nonce: 0,
+    signature: '',
+    publicKey: owner.publicKeyPem
+  };
+  const data = new VNSSignatureValidator().serializeForSigning(registration);
+  registration.signature = signData(owner.signingKeyPem, data);
+  registration.zoneSignature = { publicKey: zone.publicKeyPem, signature: signData(zone.signingKeyPem, data) };
+  return registration;
+}
+
+describe('VNSNamespaceStore history', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-history-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  const buildChain = async (name: string) => {
+    await store.register(buildRegistration(alice, name, security), 'peer1');
+    await store.update(buildUpdate(alice, name, '10.0.0.1'), 'peer1');
+    await store.transfer(buildTransfer(name, alice.peerId.toString(), bob, [alice]), 'peer1');
+  };
+
+  it('should list every operation newest first, linked by CID', async () => {
+    await buildChain('chain.vfs');
+
+    const history = await store.getHistory('chain.vfs');
+    expect(history.complete).toBe(true);
+    expect(history.head).toBe((await store.resolve('chain.vfs')).cid);
+    expect(history.events.map(e => e.operation)).toEqual(['transfer', 'update', 'register']);
+    expect(history.events.every(e => e.verified)).toBe(true);
+    expect(history.events[0].newOwner).toBe(bob.peerId.toString());
+
+    // Each entry links to the one it replaced
+    expect(history.events[0].previous).toBe(history.events[1].cid);
+    expect(history.events[1].previous).toBe(history.events[2].cid);
+    expect(history.events[2].previous).toBeUndefined();
+  });
+
+  it('should keep history across restarts', async () => {
+    await buildChain('durable.vfs');
+
+    const reopened = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await reopened.initialize();
+    try {
+      expect((await reopened.getHistory('durable.vfs')).events).toHaveLength(3);
+    } finally {
+      reopened.stopExpirySweep();
+    }
+  });
+
+  it('should flag blocks that no longer match their CID', async () => {
+    await buildChain('tampered.vfs');
+    const history = await store.getHistory('tampered.vfs');
+
+    const blockFile = path.join(repoPath, 'blocks', history.events[1].cid);
+    fs.writeFileSync(blockFile, fs.readFileSync(blockFile, 'utf8').replace('10.0.0.1', '6.6.6.6'));
+
+    const events = (await store.getHistory('tampered.vfs')).events;
+    expect(events[0].verified).toBe(true);
+    expect(events[1].verified).toBe(false);
+  });
+
+  it('should mark history incomplete when predecessors are held elsewhere', async () => {
+    await buildChain('partial.vfs');
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-history-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      expect(await peer.importEntry(store.getEntries(['partial.vfs'])[0])).toBe(true);
+
+      const history = await peer.getHistory('partial.vfs');
+      expect(history.complete).toBe(false);
+      expect(history.events.map(e => e.operation)).toEqual(['transfer']);
+      expect(history.events[0].verified).toBe(true);
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VNSNamespaceStore tombstones', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  const travelTo = (time: number) => jest.spyOn(Date, 'now').mockReturnValue(time);
+  const pastGrace = (expires: number) => expires + VNS_CONFIG.RENEWAL_GRACE_PERIOD + 1000;
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-tombstone-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should replace names past their grace period with a tombstone', async () => {
+    const reg = buildRegistration(alice, 'buried.vfs', security);
+    await store.register(reg, 'peer1');
+    const liveRoot = store.getMerkleRoot();
+
+    travelTo(pastGrace(reg.expires));
+    expect(await store.sweepExpired()).toBe(1);
+
+    const resolved = await store.resolve('buried.vfs');
+    expect(resolved.found).toBe(false);
+    expect(resolved.error).toContain('removed');
+    expect(store.getMerkleRoot()).not.toBe(liveRoot);
+    expect(store.getNamesByOwner(alice.peerId.toString())).not.toContain('buried.vfs');
+
+    const history = await store.getHistory('buried.vfs');
+    expect(history.events.map(e => [e.operation, e.reason])).toEqual([['expire', 'expired'], ['register', undefined]]);
+    expect(history.events.every(e => e.verified)).toBe(true);
+  });
+
+  it('should not let a stale copy resurrect a tombstoned name', async () => {
+    const reg = buildRegistration(alice, 'undead.vfs', security);
+    await store.register(reg, 'peer1');
+    const stale = store.getEntries(['undead.vfs'])[0];
+
+    travelTo(pastGrace(reg.expires));
+    await store.sweepExpired();
+
+    expect(await store.importEntry({ ...stale, hlc: { wall: Date.now() + 1, counter: 0 } })).toBe(false);
+    const delta = relayDelta({
+      type: 'update' as const, entry: { ...stale, hlc: { wall: Date.now() + 1, counter: 0 } }, merkleRoot: '', peerId: 'peer2', timestamp: Date.now()
+    }, alice);
+    expect((await store.applyDelta(delta, 'peer2')).applied).toBe(false);
+    expect((await store.resolve('undead.vfs')).found).toBe(false);
+  });
+
+  it('should spread tombstones to peers holding the live entry', async () => {
+    const reg = buildRegistration(alice, 'spread.vfs', security);
+    await store.register(reg, 'peer1');
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-tombstone-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      expect(await peer.importEntry(store.getEntries(['spread.vfs'])[0])).toBe(true);
+
+      travelTo(pastGrace(reg.expires));
+      await store.sweepExpired();
+
+      const tombstone = store.getEntries(['spread.vfs'])[0];
+      expect(tombstone.tombstone).toBeDefined();
+      expect(await peer.importEntry(tombstone)).toBe(true);
+      expect(peer.getMerkleRoot()).toBe(store.getMerkleRoot());
+
+      // A peer sweeping on its own produces the same tombstone
+      expect(await peer.sweepExpired()).toBe(0);
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject tombstones for names that are still live', async () => {
+    const reg = buildRegistration(alice, 'alive.vfs', security);
+    await store.register(reg, 'peer1');
+    const entry = store.getEntries(['alive.vfs'])[0];
+
+    const forged = { ...entry, tombstone: { reason: 'expired' as const, removedAt: Date.now() }, hlc: { wall: Date.now() + 1, counter: 0 } };
+    expect(await store.importEntry(forged)).toBe(false);
+    expect((await store.resolve('alive.vfs')).found).toBe(true);
+  });
+
+  it('should allow re-registration after a tombstone and link the history', async () => {
+    const reg = buildRegistration(alice, 'reborn.vfs', security);
+    await store.register(reg, 'peer1');
+
+    travelTo(pastGrace(reg.expires));
+    await store.sweepExpired();
+
+    expect((await store.register(buildRegistration(bob, 'reborn.vfs', security), 'peer2')).success).toBe(true);
+    expect((await store.resolve('reborn.vfs')).owner).toBe(bob.peerId.toString());
+
+    const history = await store.getHistory('reborn.vfs');
+    expect(history.events.map(e => e.operation)).toEqual(['register', 'expire', 'register']);
+    expect(history.complete).toBe(true);
+  });
+
+  it('should garbage-collect tombstones after the retention horizon', async () => {
+    const reg = buildRegistration(alice, 'forgotten.vfs', security);
+    await store.register(reg, 'peer1');
+
+    travelTo(pastGrace(reg.expires));
+    await store.sweepExpired();
+    expect(store.getEntries(['forgotten.vfs'])).toHaveLength(1);
+
+    travelTo(pastGrace(reg.expires) + VNS_CONFIG.TOMBSTONE_RETENTION);
+    expect(await store.sweepExpired()).toBe(1);
+    expect(store.getEntries(['forgotten.vfs'])).toHaveLength(0);
+  });
+});
+
+describe('VNSNamespaceStore subdomains', () => {
+  let repoPath: string;
+  let team: VerimutIdentity;
+  let delegate: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-subdomain-'));
+    team = await createOrLoadIdentity(path.join(repoPath, 'team'));
+    delegate = await createOrLoadIdentity(path.join(repoPath, 'delegate'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    await store.register(buildRegistration(team, 'myteam.vfs', security), 'peer1');
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should register subdomains signed by the parent owner without PoW', async () => {
+    const result = await store.register(buildSubdomain(team, team, 'api.myteam.vfs'), 'peer1');
+    expect(result.success).toBe(true);
+
+    const resolved = await store.resolve('api.myteam.vfs');
+    expect(resolved.found).toBe(true);
+    expect(resolved.records![0].value).toBe('10.1.0.1');
+    expect(store.getNamesByOwner(team.peerId.toString())).toEqual(expect.arrayContaining(['myteam.vfs', 'api.myteam.vfs']));
+  });
+
+  it('should reject subdomains not signed by the parent zone', async () => {
+    const result = await store.register(buildSubdomain(delegate, delegate, 'rogue.myteam.vfs'), 'peer2');
+    expect(result.success).toBe(false);
+
+    const orphan = await store.register(buildSubdomain(team, team, 'api.unknown.vfs'), 'peer1');
+    expect(orphan.success).toBe(false);
+  });
+
+  it('should accept subdomains signed by a delegated key', async () => {
+    const update: VNSRecordUpdate = {
+      name: 'myteam.vfs',
+      owner: team.peerId.toString(),
+      records: [{ type: 'DELEGATE', value: delegate.publicKeyPem, ttl: 3600 }],
+      timestamp: Date.now() + 1,
+      signature: ''
+    };
+    update.signature = signData(team.signingKeyPem, new VNSSignatureValidator().serializeUpdateForSigning(update));
+    expect((await store.update(update, 'peer1')).success).toBe(true);
+
+    const result = await store.register(buildSubdomain(delegate, delegate, 'docs.myteam.vfs'), 'peer2');
+    expect(result.success).toBe(true);
+
+    // Subdomains held by others still show up for the zone owner
+    expect(store.getNamesByOwner(team.peerId.toString())).toContain('docs.myteam.vfs');
+    expect(store.getNamesByOwner(delegate.peerId.toString())).toEqual(['docs.myteam.vfs']);
+    expect((await store.resolve('missing.myteam.vfs')).delegatedBy).toBe('myteam.vfs');
+  });
+
+  it('should sync subdomains only once the parent zone is known', async () => {
+    await store.register(buildSubdomain(team, team, 'api.myteam.vfs'), 'peer1');
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-subdomain-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      const [child] = store.getEntries(['api.myteam.vfs']);
+      expect(await peer.importEntry(child)).toBe(false);
+
+      expect(await peer.importEntry(store.getEntries(['myteam.vfs'])[0])).toBe(true);
+      expect(await peer.importEntry(child)).toBe(true);
+      expect((await peer.resolve('api.myteam.vfs')).found).toBe(true);
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+/**
+ * In-process transport backed directly by a remote store
+ */
+function storeTransport(store: VNSNamespaceStore): VNSReconcileTransport {
+  return {
+    label: 'in-process',
+    getMerkleRoot: async () => store.getMerkleRoot(),
+    getBucketHashes: async () => store.getBucketHashes(),
+    getDigests: async (buckets) => store.getDigests(buckets),
+    getEntries: async (names) => store.getEntries(names)
+  };
+}
+
+describe('VNSReconciler', () => {
+  let dirs: string[];
+  let stores: VNSNamespaceStore[];
+  let identity: VerimutIdentity;
+
+  const openStore = async (): Promise<VNSNamespaceStore> => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-reconcile-'));
+    dirs.push(dir);
+    const store = new VNSNamespaceStore(new FileBlockstore(dir), null, new VNSSecurity(3), dir);
+    await store.initialize();
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    dirs = [];
+    stores = [];
+    const identityDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-identity-'));
+    dirs.push(identityDir);
+    identity = await createOrLoadIdentity(identityDir);
+  });
+
+  afterEach(() => {
+    stores.forEach(s => s.stopExpirySweep());
+    dirs.forEach(d => fs.rmSync(d, { recursive: true, force: true }));
+  });
+
+  it('should report in-sync peers without pulling entries', async () => {
+    const local = await openStore();
+    const remote = await openStore();
+
+    const result = await new VNSReconciler(local).reconcileWith(storeTransport(remote));
+    expect(result.inSync).toBe(true);
+    expect(result.requested).toBe(0);
+  });
+
+  it('should pull only the entries a peer is missing', async () => {
+    const local = await openStore();
+    const remote = await openStore();
+    const security = new VNSSecurity(3);
+
+    const shared = buildRegistration(identity, 'shared.vfs', security);
+    await remote.register({ ...shared }, 'peer1');
+    await local.importEntry(remote.getEntries(['shared.vfs'])[0]);
+    await remote.register(buildRegistration(identity, 'missed.vfs', security), 'peer1');
+
+    const result = await new VNSReconciler(local).reconcileWith(storeTransport(remote));
+    expect(result.inSync).toBe(false);
+    expect(result.requested).toBe(1);
+    expect(result.imported).toBe(1);
+    expect((await local.resolve('missed.vfs')).found).toBe(true);
+    expect(local.getMerkleRoot()).toBe(remote.getMerkleRoot());
+  });
+
+  it('should reject tampered entries from a peer', async () => {
+    const local = await openStore();
+    const remote = await openStore();
+    await remote.register(buildRegistration(identity, 'tampered.vfs', new VNSSecurity(3)), 'peer1');
+
+    const transport = storeTransport(remote);
+    transport.getEntries = async (names) => remote.getEntries(names).map(e => ({
+      ...e,
+      registration: { ...e.registration, records: [{ type: 'A' as const, value: '10.0.0.1' }] }
+    }));
+
+    const result = await new VNSReconciler(local).reconcileWith(transport);
+    expect(result.imported).toBe(0);
+    expect((await local.resolve('tampered.vfs')).found).toBe(false);
+  });
+});
+
+describe('VNSNamespaceStore clocks', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let stores: VNSNamespaceStore[];
+  const security = new VNSSecurity(3);
+
+  const createStore = async (dir: string): Promise<VNSNamespaceStore> => {
+    const store = new VNSNamespaceStore(new FileBlockstore(dir), null, new VNSSecurity(3), dir);
+    await store.initialize();
+    stores.push(store);
+    return store;
+  };
+  const tooFarAhead = () => ({ wall: Date.now() + VNS_CONFIG.MAX_CLOCK_DRIFT + 60 * 1000, counter: 0 });
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-clock-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    stores = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    stores.forEach(s => s.stopExpirySweep());
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should reject entries and deltas stamped too far in the future', async () => {
+    const local = await createStore(path.join(repoPath, 'local'));
+    const peer = await createStore(path.join(repoPath, 'peer'));
+    await local.register(buildRegistration(owner, 'skewed.vfs', security), 'peer1');
+    const entry = local.getEntries(['skewed.vfs'])[0];
+
+    expect(await peer.importEntry({ ...entry, hlc: tooFarAhead() })).toBe(false);
+
+    const delta = relayDelta({ type: 'register' as const, entry, merkleRoot: '', peerId: 'peer2', timestamp: Date.now(), hlc: tooFarAhead() }, owner);
+    const result = await peer.applyDelta(delta, 'peer2');
+    expect(result.applied).toBe(false);
+    expect(result.error).toContain('ahead of the local clock');
+    expect((await peer.resolve('skewed.vfs')).found).toBe(false);
+  });
+
+  it('should reject registrations signed in the future', async () => {
+    const store = await createStore(path.join(repoPath, 'local'));
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + VNS_CONFIG.MAX_CLOCK_DRIFT + 60 * 1000);
+    const reg = buildRegistration(owner, 'ahead.vfs', security);
+    jest.restoreAllMocks();
+
+    const result = await store.register(reg, 'peer1');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('ahead of the local clock');
+  });
+
+  it('should break clock ties by CID regardless of arrival order', async () => {
+    const a = await createStore(path.join(repoPath, 'a'));
+    const b = await createStore(path.join(repoPath, 'b'));
+    await a.register(buildRegistration(owner, 'tied.vfs', security), 'peer1');
+    expect(await b.importEntry(a.getEntries(['tied.vfs'])[0])).toBe(true);
+
+    // Concurrent updates on two nodes, signed at the same time and stamped with the same clock
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+    await a.update(buildUpdate(owner, 'tied.vfs', '10.0.0.1'), 'peer1');
+    await b.update(buildUpdate(owner, 'tied.vfs', '10.0.0.2'), 'peer1');
+    jest.restoreAllMocks();
+    const hlc = { wall: Date.now(), counter: 5 };
+    const fromA = { ...a.getEntries(['tied.vfs'])[0], hlc };
+    const fromB = { ...b.getEntries(['tied.vfs'])[0], hlc };
+    expect(fromA.cid).not.toBe(fromB.cid);
+
+    const first = await createStore(path.join(repoPath, 'first'));
+    const second = await createStore(path.join(repoPath, 'second'));
+    await first.importEntry(fromA);
+    await first.importEntry(fromB);
+    await second.importEntry(fromB);
+    await second.importEntry(fromA);
+
+    const winner = fromA.cid > fromB.cid ? fromA.cid : fromB.cid;
+    expect((await first.resolve('tied.vfs')).cid).toBe(winner);
+    expect((await second.resolve('tied.vfs')).cid).toBe(winner);
+  });
+
+  it('should order local changes after entries from a faster clock', async () => {
+    const fast = await createStore(path.join(repoPath, 'fast'));
+    const slow = await createStore(path.join(repoPath, 'slow'));
+
+    // The fast node's clock runs a minute ahead (within the allowed drift)
+    await fast.register(buildRegistration(owner, 'drift.vfs', security), 'peer1');
+    const fastEntry = { ...fast.getEntries(['drift.vfs'])[0], hlc: { wall: Date.now() + 60 * 1000, counter: 3 } };
+    expect(await slow.importEntry(fastEntry)).toBe(true);
+
+    // The slow node's next change still outranks what it has seen
+    expect((await slow.update(buildUpdate(owner, 'drift.vfs', '10.0.0.9'), 'peer1')).success).toBe(true);
+    const slowEntry = slow.getEntries(['drift.vfs'])[0];
+    expect(slowEntry.hlc!.wall).toBe(fastEntry.hlc!.wall);
+    expect(slowEntry.hlc!.counter).toBeGreaterThan(fastEntry.hlc!.counter);
+    expect(await fast.importEntry(slowEntry)).toBe(true);
+    expect((await fast.resolve('drift.vfs')).records).toEqual(slowEntry.update!.records);
+  });
+});
+
+describe('VNSNamespaceStore proof-of-work', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-pow-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should count registrations from the previous window', async () => {
+    const window = VNS_CONFIG.POW_VOLUME_WINDOW;
+    jest.spyOn(Date, 'now').mockReturnValue(Math.floor(Date.now() / window) * window - window / 2);
+    await store.register(buildRegistration(owner, 'counted.vfs', security), 'peer1');
+    await store.register(buildRegistration(owner, 'tallied.vfs', security), 'peer1');
+
+    const nextWindow = Date.now() + window;
+    expect(store.getRegistrationVolume()).toBe(0);
+    expect(store.getRegistrationVolume(nextWindow)).toBe(2);
+    expect(store.getPowDifficulty('abc.vfs', nextWindow)).toBe(security.getRequiredDifficulty('abc.vfs', 2));
+  });
+
+  it('should reject registrations without the volume surcharge', async () => {
+    // A registration whose PoW meets the base difficulty but not one more zero
+    const pow = new VNSProofOfWork(3);
+    let reg = buildRegistration(owner, 'crowded0.vfs', security);
+    for (let i = 1; pow.validate(reg.name, reg.owner, reg.nonce, 4); i++) {
+      reg = buildRegistration(owner, `crowded${i}.vfs`, security);
+    }
+
+    jest.spyOn(store, 'getRegistrationVolume').mockReturnValue(VNS_CONFIG.POW_VOLUME_STEP);
+    const result = await store.register(reg, 'peer1');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('requires 4 leading zeros');
+  });
+});
+
+/**
+ * Build a signed registration without PoW (for the stake-only mode)
+ */
+function buildStakedRegistration(identity: VerimutIdentity, name: string): VNSRegistration {
+  const now = Date.now();
+  const registration: VNSRegistration = {
+    name,
+    owner: identity.peerId.toString(),
+    records: [{ type: 'TXT', value: `record for ${name}`, ttl: 3600 }],
+    timestamp: now,
+    expires: now + VNS_CONFIG.EXPIRATION_PERIOD,
+    nonce: 0,
+    signature: '',
+    publicKey: identity.publicKeyPem
+  };
+  registration.signature = signData(
+    identity.signingKeyPem,
+    new VNSSignatureValidator().serializeForSigning(registration)
+  );
+  return registration;
+}
+
+describe('VNSNamespaceStore stake', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let ledger: VNSLocalStakeLedger;
+  let store: VNSNamespaceStore;
+
+  const stakeSecurity = (stakeLedger: VNSLocalStakeLedger) =>
+    new VNSSecurity(3, 100, undefined, undefined, 'stake', stakeLedger);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-stake-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    ledger = new VNSLocalStakeLedger(path.join(repoPath, 'vns-stake-ledger.json'));
+    ledger.setBalance(alice.peerId.toString(), 150);
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, stakeSecurity(ledger), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should lock stake instead of requiring PoW', async () => {
+    const aliceId = alice.peerId.toString();
+    expect((await store.register(buildStakedRegistration(alice, 'staked.vfs'), 'peer1')).success).toBe(true);
+
+    const status = store.getStakeStatus();
+    expect(status.mode).toBe('stake');
+    expect(status.totalLocked).toBe(100);
+    expect(status.locks.map(lock => [lock.name, lock.owner])).toEqual([['staked.vfs', aliceId]]);
+
+    // 50 left: not enough for a second name
+    const result = await store.register(buildStakedRegistration(alice, 'second.vfs'), 'peer1');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Insufficient stake');
+
+    // Locks survive a restart through the ledger file
+    expect(new VNSLocalStakeLedger(path.join(repoPath, 'vns-stake-ledger.json')).getLocked(aliceId)).toBe(100);
+  });
+
+  it('should move the lock on transfer and release it on expiry', async () => {
+    const reg = buildStakedRegistration(alice, 'handover.vfs');
+    await store.register(reg, 'peer1');
+    const transfer = buildTransfer('handover.vfs', alice.peerId.toString(), bob, [alice]);
+
+    // Bob has no balance to take the stake over
+    expect((await store.transfer(transfer, 'peer1')).error).toContain('Insufficient stake');
+
+    ledger.setBalance(bob.peerId.toString(), 100);
+    expect((await store.transfer(transfer, 'peer1')).success).toBe(true);
+    expect(ledger.getLocked(alice.peerId.toString())).toBe(0);
+    expect(ledger.getLock('handover.vfs')?.owner).toBe(bob.peerId.toString());
+
+    jest.spyOn(Date, 'now').mockReturnValue(reg.expires + VNS_CONFIG.RENEWAL_GRACE_PERIOD + 1000);
+    await store.sweepExpired();
+    expect(ledger.getLock('handover.vfs')).toBeUndefined();
+    expect(store.getStakeStatus().totalLocked).toBe(0);
+  });
+
+  it('should enforce stake on entries from peers', async () => {
+    await store.register(buildStakedRegistration(alice, 'remote.vfs'), 'peer1');
+    const entry = store.getEntries(['remote.vfs'])[0];
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-stake-peer-'));
+    const peerLedger = new VNSLocalStakeLedger();
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, stakeSecurity(peerLedger), otherDir);
+    await peer.initialize();
+    try {
+      const relay = new VNSDeltaGuard();
+      const delta = relayDelta({ type: 'register' as const, entry, merkleRoot: '', peerId: 'peer1', timestamp: Date.now() }, alice, relay);
+      const rejected = await peer.applyDelta(delta, 'peer1');
+      expect(rejected.applied).toBe(false);
+      expect(rejected.error).toContain('Insufficient stake');
+      expect(await peer.importEntry(entry)).toBe(false);
+
+      peerLedger.setBalance(alice.peerId.toString(), 100);
+      expect((await peer.applyDelta(relayDelta(delta, alice, relay), 'peer1')).applied).toBe(true);
+      expect(peerLedger.getLock('remote.vfs')?.owner).toBe(alice.peerId.toString());
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VNSNamespaceStore rate limits', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rate-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should charge registrations to the owner key, not the submitting peer', async () => {
+    for (let i = 0; i < VNS_CONFIG.RATE_LIMIT_PER_HOUR; i++) {
+      expect((await store.register(buildRegistration(alice, `busy${i}.vfs`, security), 'node')).success).toBe(true);
+    }
+    const limited = await store.register(buildRegistration(alice, 'overflow.vfs', security), 'node');
+    expect(limited.error).toContain('Rate limit exceeded');
+
+    // Another owner submitting through the same node has its own budget
+    expect((await store.register(buildRegistration(bob, 'neighbour.vfs', security), 'node')).success).toBe(true);
+
+    const [usage] = store.getRateLimits(rateLimitKey({ owner: '', publicKey: alice.publicKeyPem }));
+    expect(usage.local.remaining).toBe(0);
+    expect(usage.relay.used).toBe(0);
+  });
+
+  it('should only charge registrations the store accepts', async () => {
+    await store.register(buildRegistration(bob, 'taken.vfs', security), 'node');
+    const rejected = await store.register(buildRegistration(alice, 'taken.vfs', security), 'node');
+    expect(rejected.error).toContain('already registered to another owner');
+
+    const [usage] = store.getRateLimits(rateLimitKey({ owner: '', publicKey: alice.publicKeyPem }));
+    expect(usage.local.used).toBe(0);
+  });
+
+  it('should count relayed registrations against the relay budget', async () => {
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rate-peer-'));
+    const origin = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await origin.initialize();
+    try {
+      for (let i = 0; i < VNS_CONFIG.RATE_LIMIT_PER_HOUR; i++) {
+        await store.register(buildRegistration(alice, `local${i}.vfs`, security), 'node');
+      }
+      await origin.register(buildRegistration(alice, 'relayed.vfs', security), 'origin');
+
+      const entry = origin.getEntries(['relayed.vfs'])[0];
+      const delta = relayDelta({ type: 'register' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, bob);
+      expect((await store.applyDelta(delta, 'origin')).applied).toBe(true);
+
+      const [usage] = store.getRateLimits();
+      expect(usage.local.used).toBe(VNS_CONFIG.RATE_LIMIT_PER_HOUR);
+      expect(usage.relay.used).toBe(1);
+    } finally {
+      origin.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should charge relayed registrations that arrive already transferred', async () => {
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rate-peer-'));
+    const origin = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await origin.initialize();
+    try {
+      await origin.register(buildRegistration(alice, 'handed.vfs', security), 'origin');
+      await origin.transfer(buildTransfer('handed.vfs', alice.peerId.toString(), bob, [alice]), 'origin');
+
+      const entry = origin.getEntries(['handed.vfs'])[0];
+      expect(entry.transfers).toHaveLength(1);
+      const delta = relayDelta({ type: 'transfer' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, bob);
+      expect((await store.applyDelta(delta, 'origin')).applied).toBe(true);
+
+      const [usage] = store.getRateLimits(rateLimitKey({ owner: '', publicKey: alice.publicKeyPem }));
+      expect(usage.relay.used).toBe(1);
+    } finally {
+      origin.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VNSNamespaceStore delta envelopes', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let node: VerimutIdentity;
+  let origin: VNSNamespaceStore;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-delta-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    node = await createOrLoadIdentity(path.join(repoPath, 'node'));
+    origin = new VNSNamespaceStore(new FileBlockstore(path.join(repoPath, 'origin')), null, new VNSSecurity(3), path.join(repoPath, 'origin'));
+    store = new VNSNamespaceStore(new FileBlockstore(path.join(repoPath, 'store')), null, new VNSSecurity(3), path.join(repoPath, 'store'));
+    await origin.initialize();
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    origin.stopExpirySweep();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should sign outgoing deltas with the node key', async () => {
+    const sent: VNSDelta[] = [];
+    origin.setNodeIdentity(peerIdKeyPems(node.peerId));
+    await origin.setSyncCallback(async delta => { sent.push(delta); }, node.peerId.toString());
+    await origin.register(buildRegistration(owner, 'signed.vfs', security), 'peer1');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].sequence).toBe(1);
+    expect(sent[0].publicKey).toBe(peerIdKeyPems(node.peerId).publicKeyPem);
+    expect((await store.applyDelta(sent[0], 'origin')).applied).toBe(true);
+    expect((await store.resolve('signed.vfs')).found).toBe(true);
+  });
+
+  it('should reject unsigned and replayed deltas', async () => {
+    await origin.register(buildRegistration(owner, 'replayed.vfs', security), 'peer1');
+    const entry = origin.getEntries(['replayed.vfs'])[0];
+    const delta = { type: 'register' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() };
+
+    expect((await store.applyDelta({ ...delta }, 'origin')).error).toBe('Delta is not signed by its origin');
+
+    const sealed = relayDelta(delta, node);
+    expect((await store.applyDelta(sealed, 'origin')).applied).toBe(true);
+    const replay = await store.applyDelta(sealed, 'origin');
+    expect(replay.applied).toBe(false);
+    expect(replay.error).toContain('replays sequence');
+  });
+
+  it('should drop an entry already processed without charging the rate limit again', async () => {
+    await origin.register(buildRegistration(owner, 'echo.vfs', security), 'peer1');
+    const entry = origin.getEntries(['echo.vfs'])[0];
+    const delta = () => ({ type: 'register' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() });
+
+    expect((await store.applyDelta(relayDelta(delta(), node), 'origin')).applied).toBe(true);
+    const echoed = await store.applyDelta(relayDelta({ ...delta(), peerId: 'other' }, owner), 'other');
+    expect(echoed.error).toBe('Duplicate delta (entry already processed)');
+    expect(store.getRateLimits()[0].relay.used).toBe(1);
+  });
+
+  it('should reject entries that do not match their CID', async () => {
+    await origin.register(buildRegistration(owner, 'tampered.vfs', security), 'peer1');
+    const entry = origin.getEntries(['tampered.vfs'])[0];
+    const relay = new VNSDeltaGuard();
+    const delta = (e: typeof entry) => ({ type: 'register' as const, entry: e, merkleRoot: '', peerId: 'origin', timestamp: Date.now() });
+
+    // Same CID, different (still validly signed) registration
+    const tampered = { ...entry, registration: { ...entry.registration, timestamp: entry.registration.timestamp - 1 } };
+    const result = await store.applyDelta(relayDelta(delta(tampered), node, relay), 'origin');
+    expect(result.applied).toBe(false);
+    expect(result.error).toBe('Entry does not match its CID');
+    expect((await store.resolve('tampered.vfs')).found).toBe(false);
+    expect(await store.importEntry(tampered)).toBe(false);
+
+    // The CID was not marked as processed, so the genuine entry still applies
+    expect((await store.applyDelta(relayDelta(delta(entry), node, relay), 'origin')).applied).toBe(true);
+  });
+
+  it('should not roll a name back to a superseded state', async () => {
+    await origin.register(buildRegistration(owner, 'rollback.vfs', security), 'peer1');
+    const first = origin.getEntries(['rollback.vfs'])[0];
+    const relay = new VNSDeltaGuard();
+    await store.applyDelta(relayDelta({ type: 'register' as const, entry: first, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, node, relay), 'origin');
+
+    await origin.update(buildUpdate(owner, 'rollback.vfs', '10.0.0.20'), 'peer1');
+    const second = origin.getEntries(['rollback.vfs'])[0];
+    await store.applyDelta(relayDelta({ type: 'update' as const, entry: second, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, node, relay), 'origin');
+
+    // The first state, freshly wrapped by another node
+    const replay = relayDelta({ type: 'register' as const, entry: first, merkleRoot: '', peerId: 'other', timestamp: Date.now() }, owner);
+    expect((await store.applyDelta(replay, 'other')).error).toBe('Duplicate delta (entry already processed)');
+    expect(store.getEntries(['rollback.vfs'])[0].cid).toBe(second.cid);
+  });
+});
+
+/**
+ * Build a key rotation signed by `signer` (the owner key, or the recovery key)
+ */
+function buildRotation(
+  name: string,
+  owner: string,
+  newKey: VerimutIdentity,
+  signer: VerimutIdentity,
+  by: VNSKeyRotation['signer'] = 'owner',
+  newRecoveryKey?: string
+): VNSKeyRotation {
+  const rotation: VNSKeyRotation = {
+    name,
+    owner,
+    newPublicKey: newKey.publicKeyPem,
+    newRecoveryKey,
+    signer: by,
+    nonce: `rotation-${Math.random()}`,
+    timestamp: Date.now(),
+    signature: ''
+  };
+  rotation.signature = signData(signer.signingKeyPem, new VNSSignatureValidator().serializeRotationForSigning(rotation));
+  return rotation;
+}
+
+describe('VNSNamespaceStore key rotation', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let fresh: VerimutIdentity;
+  let recovery: VerimutIdentity;
+  let thief: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  let base: number;
+  const security = new VNSSecurity(3);
+
+  const at = (offset: number) => jest.spyOn(Date, 'now').mockReturnValue(base + offset);
+
+  /**
+   * Update signed by `signer` on behalf of the registered owner
+   */
+  const updateAs = (signer: VerimutIdentity, name: string, value: string): VNSRecordUpdate => {
+    const update: VNSRecordUpdate = {
+      name,
+      owner: owner.peerId.toString(),
+      records: [{ type: 'A', value, ttl: 3600 }],
+      timestamp: Date.now(),
+      signature: ''
+    };
+    update.signature = signData(signer.signingKeyPem, new VNSSignatureValidator().serializeUpdateForSigning(update));
+    return update;
+  };
+
+  const registerWithRecovery = async (name: string): Promise<void> => {
+    const reg = buildRegistration(owner, name, security);
+    reg.recoveryKey = recovery.publicKeyPem;
+    reg.signature = signData(owner.signingKeyPem, new VNSSignatureValidator().serializeForSigning(reg));
+    expect((await store.register(reg, 'peer1')).success).toBe(true);
+  };
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rotate-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    fresh = await createOrLoadIdentity(path.join(repoPath, 'fresh'));
+    recovery = await createOrLoadIdentity(path.join(repoPath, 'recovery'));
+    thief = await createOrLoadIdentity(path.join(repoPath, 'thief'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    base = Date.now();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should hand signing over to the new key and keep the owner', async () => {
+    await store.register(buildRegistration(owner, 'rotated.vfs', security), 'peer1');
+    const ownerId = owner.peerId.toString();
+
+    at(1000);
+    expect((await store.rotateKey(buildRotation('rotated.vfs', ownerId, fresh, owner), 'peer1')).success).toBe(true);
+
+    at(2000);
+    expect((await store.update(updateAs(owner, 'rotated.vfs', '10.0.0.30'), 'peer1')).error).toBe('Invalid update signature');
+    expect((await store.update(updateAs(fresh, 'rotated.vfs', '10.0.0.31'), 'peer1')).success).toBe(true);
+
+    const resolved = await store.resolve('rotated.vfs');
+    expect(resolved.owner).toBe(ownerId);
+    expect(resolved.records?.[0].value).toBe('10.0.0.31');
+
+    const history = await store.getHistory('rotated.vfs');
+    expect(history.events.map(e => e.operation)).toEqual(['update', 'rotate', 'register']);
+    expect(history.events.every(e => e.verified)).toBe(true);
+  });
+
+  it('should let the recovery key take a leaked name back', async () => {
+    await registerWithRecovery('leaked.vfs');
+    const ownerId = owner.peerId.toString();
+
+    // Whoever holds the leaked key can rotate it, but not the recovery key
+    at(1000);
+    const hijack = buildRotation('leaked.vfs', ownerId, thief, owner, 'owner', thief.publicKeyPem);
+    expect((await store.rotateKey(hijack, 'peer2')).error).toBe('Only the recovery key may replace the recovery key');
+    expect((await store.rotateKey(buildRotation('leaked.vfs', ownerId, thief, owner), 'peer2')).success).toBe(true);
+
+    at(2000);
+    expect((await store.rotateKey(buildRotation('leaked.vfs', ownerId, fresh, recovery, 'recovery'), 'peer1')).success).toBe(true);
+
+    at(3000);
+    expect((await store.update(updateAs(thief, 'leaked.vfs', '10.0.0.40'), 'peer2')).success).toBe(false);
+    expect((await store.update(updateAs(fresh, 'leaked.vfs', '10.0.0.41'), 'peer1')).success).toBe(true);
+  });
+
+  it('should reject rotations by keys that do not hold the name', async () => {
+    await store.register(buildRegistration(owner, 'guarded.vfs', security), 'peer1');
+    const ownerId = owner.peerId.toString();
+
+    at(1000);
+    expect((await store.rotateKey(buildRotation('guarded.vfs', ownerId, thief, thief), 'peer2')).error).toBe('Invalid key rotation signature');
+    expect((await store.rotateKey(buildRotation('guarded.vfs', ownerId, thief, thief, 'recovery'), 'peer2')).error).toBe('Name has no recovery key');
+  });
+
+  it('should validate the rotation chain of entries from peers', async () => {
+    await registerWithRecovery('chained.vfs');
+    const ownerId = owner.peerId.toString();
+    const registered = store.getEntries(['chained.vfs'])[0];
+
+    at(1000);
+    await store.rotateKey(buildRotation('chained.vfs', ownerId, thief, owner), 'peer2');
+    at(2000);
+    await store.rotateKey(buildRotation('chained.vfs', ownerId, fresh, recovery, 'recovery'), 'peer1');
+    const rotated = store.getEntries(['chained.vfs'])[0];
+
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rotate-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      const relay = new VNSDeltaGuard();
+      const send = (type: VNSDelta['type'], entry: typeof rotated) =>
+        peer.applyDelta(relayDelta({ type, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() }, owner, relay), 'origin');
+
+      // A forged rotation (not signed by the key it replaces) is refused
+      at(1000);
+      const forged = {
+        ...rotated,
+        rotations: [buildRotation('chained.vfs', ownerId, thief, thief), ...rotated.rotations!.slice(1)]
+      };
+      at(2000);
+      expect(await peer.importEntry(forged)).toBe(false);
+
+      expect((await send('register', registered)).applied).toBe(true);
+      expect((await send('rotate', rotated)).applied).toBe(true);
+      expect(peer.getEntries(['chained.vfs'])[0].rotations).toHaveLength(2);
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VNSNamespaceStore reverse resolution', () => {
+  let repoPath: string;
+  let node: VerimutIdentity;
+  let other: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  let base: number;
+  const security = new VNSSecurity(3);
+
+  const at = (offset: number) => jest.spyOn(Date, 'now').mockReturnValue(base + offset);
+
+  /**
+   * Register a name pointing at the node's peer ID and claiming it as primary
+   */
+  const claim = async (identity: VerimutIdentity, name: string, records?: VNSRegistration['records']) => {
+    const subject = node.peerId.toString();
+    const reg = buildRegistration(identity, name, security);
+    reg.records = records || [
+      { type: 'PEER', value: `/ip4/10.0.0.5/tcp/4001/p2p/${subject}`, ttl: 3600 },
+      { type: 'PRIMARY', value: subject, ttl: 3600 }
+    ];
+    reg.signature = signData(identity.signingKeyPem, new VNSSignatureValidator().serializeForSigning(reg));
+    return store.register(reg, 'peer1');
+  };
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-reverse-'));
+    node = await createOrLoadIdentity(path.join(repoPath, 'node'));
+    other = await createOrLoadIdentity(path.join(repoPath, 'other'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+    base = Date.now();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setFriendlyNameSource(null);
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should only index claims the forward records confirm', async () => {
+    const unbacked = await claim(node, 'unbacked.vfs', [
+      { type: 'A', value: '10.0.0.5', ttl: 3600 },
+      { type: 'PRIMARY', value: '10.0.0.6', ttl: 3600 }
+    ]);
+    expect(unbacked.success).toBe(false);
+    expect(unbacked.error).toContain('not backed');
+
+    expect((await claim(node, 'box.vfs', [
+      { type: 'A', value: '10.0.0.5', ttl: 3600 },
+      { type: 'PRIMARY', value: '10.0.0.5', ttl: 3600 }
+    ])).success).toBe(true);
+    expect(store.reverseResolve(' 10.0.0.5 ')).toMatchObject({ found: true, name: 'box.vfs', candidates: ['box.vfs'] });
+    setFriendlyNameSource(store);
+    expect(lookupFriendlyName('10.0.0.5')).toBe('box.vfs');
+    expect(store.reverseResolve('10.0.0.6').found).toBe(false);
+  });
+
+  it('should prefer the name held by the peer itself, then the oldest claim', async () => {
+    const subject = node.peerId.toString();
+
+    at(0);
+    expect((await claim(other, 'squatter.vfs')).success).toBe(true);
+    at(1000);
+    expect((await claim(other, 'later.vfs')).success).toBe(true);
+    expect(store.reverseResolve(subject)).toMatchObject({ name: 'squatter.vfs', selfClaimed: false, verified: false });
+
+    // Third-party claims never label the peer in logs and status output
+    setFriendlyNameSource(store);
+    expect(lookupFriendlyName(subject)).toBeNull();
+
+    at(2000);
+    expect((await claim(node, 'node.vfs')).success).toBe(true);
+    expect(store.reverseResolve(subject)).toMatchObject({
+      found: true,
+      name: 'node.vfs',
+      owner: subject,
+      selfClaimed: true,
+      verified: true,
+      candidates: ['node.vfs', 'squatter.vfs', 'later.vfs']
+    });
+    expect(lookupFriendlyName(subject)).toBe('node.vfs');
+  });
+
+  it('should drop a claim once the records no longer make it', async () => {
+    const subject = node.peerId.toString();
+    expect((await claim(node, 'node.vfs')).success).toBe(true);
+
+    expect((await store.update(buildUpdate(node, 'node.vfs', '10.0.0.7'), 'peer1')).success).toBe(true);
+    expect(store.reverseResolve(subject)).toEqual({ found: false, subject });
+  });
+});
+
+describe('VNSNamespaceStore listing', () => {
+  let repoPath: string;
+  let owner: VerimutIdentity;
+  let other: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-list-'));
+    owner = await createOrLoadIdentity(path.join(repoPath, 'owner'));
+    other = await createOrLoadIdentity(path.join(repoPath, 'other'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+
+    for (const name of ['alpine.vfs', 'alpha.vfs', 'beta.vfs']) {
+      expect((await store.register(buildRegistration(owner, name, security), 'peer1')).success).toBe(true);
+    }
+    expect((await store.register(buildRegistration(other, 'alps.vfs', security), 'peer1')).success).toBe(true);
+  });
+
+  afterEach(() => {
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should page through a prefix in name order', () => {
+    const first = store.listNames({ prefix: 'AL', limit: 2 });
+    expect(first.names.map(n => n.name)).toEqual(['alpha.vfs', 'alpine.vfs']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = store.listNames({ prefix: 'al', limit: 2, cursor: first.nextCursor! });
+    expect(second.names.map(n => n.name)).toEqual(['alps.vfs']);
+    expect(second.nextCursor).toBeNull();
+
+    expect(store.listNames({ prefix: '*a.vfs' }).names.map(n => n.name)).toEqual(['alpha.vfs', 'beta.vfs']);
+  });
+
+  it('should filter by owner, record type and expiry', async () => {
+    const otherId = other.peerId.toString();
+    expect(store.listNames({ owner: otherId }).names).toEqual([
+      { name: 'alps.vfs', owner: otherId, expires: expect.any(Number), recordTypes: ['TXT'] }
+    ]);
+
+    await store.update(buildUpdate(owner, 'beta.vfs', '10.0.0.12'), 'peer1');
+    expect(store.listNames({ recordType: 'A' }).names.map(n => n.name)).toEqual(['beta.vfs']);
+
+    const soon = Date.now() + VNS_CONFIG.EXPIRATION_PERIOD + 60000;
+    expect(store.listNames({ expiringBefore: soon }).names.map(n => n.name)).toEqual(['alpha.vfs', 'alpine.vfs', 'alps.vfs', 'beta.vfs']);
+    expect(store.listNames({ expiringBefore: Date.now() }).names).toEqual([]);
+  });
+
+  it('should reject bad cursors and limits', () => {
+    expect(store.listNames({ cursor: 'not-a-cursor' }).error).toBe('Invalid cursor');
+    expect(store.listNames({ limit: VNS_CONFIG.LIST_MAX_LIMIT + 1 }).error).toContain('Limit');
+  });
+});
+
+describe('VNSNamespaceStore change subscriptions', () => {
+  let repoPath: string;
+  let alice: VerimutIdentity;
+  let bob: VerimutIdentity;
+  let store: VNSNamespaceStore;
+  const security = new VNSSecurity(3);
+
+  beforeEach(async () => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-subscribe-'));
+    alice = await createOrLoadIdentity(path.join(repoPath, 'alice'));
+    bob = await createOrLoadIdentity(path.join(repoPath, 'bob'));
+    store = new VNSNamespaceStore(new FileBlockstore(repoPath), null, new VNSSecurity(3), repoPath);
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.stopExpirySweep();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should emit typed events for each change to a followed name', async () => {
+    const events: VNSChangeEvent[] = [];
+    const unsubscribe = store.subscribe({ names: ['Watched.vfs'] }, event => events.push(event));
+    const aliceId = alice.peerId.toString();
+
+    const reg = buildRegistration(alice, 'watched.vfs', security);
+    await store.register(reg, 'peer1');
+    await store.register(buildRegistration(alice, 'ignored.vfs', security), 'peer1');
+    await store.update(buildUpdate(alice, 'watched.vfs', '10.0.0.50'), 'peer1');
+    await store.transfer(buildTransfer('watched.vfs', aliceId, bob, [alice]), 'peer1');
+
+    jest.spyOn(Date, 'now').mockReturnValue(reg.expires + VNS_CONFIG.RENEWAL_GRACE_PERIOD + 1000);
+    await store.sweepExpired();
+
+    expect(events.map(e => e.type)).toEqual(['register', 'update', 'transfer', 'expire']);
+    expect(events[1].records).toEqual([{ type: 'A', value: '10.0.0.50', ttl: 3600 }]);
+    expect(events[2]).toMatchObject({ owner: bob.peerId.toString(), previousOwner: aliceId });
+    expect(events[3].records).toEqual([]);
+
+    unsubscribe();
+    expect(store.getSubscriptionCount()).toBe(0);
+  });
+
+  it('should report relayed changes and filter by owner', async () => {
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-subscribe-peer-'));
+    const peer = new VNSNamespaceStore(new FileBlockstore(otherDir), null, new VNSSecurity(3), otherDir);
+    await peer.initialize();
+    try {
+      const events: VNSChangeEvent[] = [];
+      peer.subscribe({ owner: bob.peerId.toString() }, event => events.push(event));
+
+      await store.register(buildRegistration(alice, 'alice-only.vfs', security), 'peer1');
+      await store.register(buildRegistration(bob, 'bob-site.vfs', security), 'peer1');
+
+      const relay = new VNSDeltaGuard();
+      for (const entry of store.getEntries(['alice-only.vfs', 'bob-site.vfs'])) {
+        const delta = { type: 'register' as const, entry, merkleRoot: '', peerId: 'origin', timestamp: Date.now() };
+        expect((await peer.applyDelta(relayDelta(delta, alice, relay), 'origin')).applied).toBe(true);
+      }
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'register', name: 'bob-site.vfs', cid: store.getEntries(['bob-site.vfs'])[0].cid });
+    } finally {
+      peer.stopExpirySweep();
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
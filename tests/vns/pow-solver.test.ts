@@ -0,0 +1,58 @@
+/**
+ * VNS PoW Solver Tests
+ *
+ * Unit tests for the worker-thread nonce search, progress, cancellation and timeouts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { solvePoW, VNSPoWProgress } from '../../src/vns/pow-solver.js';
+import { VNSProofOfWork } from '../../src/vns/security.js';
+
+describe('solvePoW', () => {
+  const pow = new VNSProofOfWork(3);
+
+  it('should find a nonce the validator accepts', async () => {
+    const solution = await solvePoW({ name: 'solver.vfs', owner: 'owner', zeros: 3 }, { threads: 2 });
+    expect(solution.status).toBe('found');
+    expect(Number.isInteger(solution.nonce)).toBe(true);
+    expect(pow.validate('solver.vfs', 'owner', solution.nonce!, 3)).toBe(true);
+    expect(solution.attempts).toBeGreaterThan(0);
+  });
+
+  it('should solve scrypt puzzles through VNSProofOfWork.solve', async () => {
+    const solution = await pow.solve('solver.vfs', 'owner', 3, 'scrypt', { threads: 2 });
+    expect(solution.status).toBe('found');
+    expect(pow.validate('solver.vfs', 'owner', solution.nonce!, 3, 'scrypt')).toBe(true);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const solution = await solvePoW({ name: 'solver.vfs', owner: 'owner', zeros: 12 }, { threads: 2, maxAttempts: 500 });
+    expect(solution.status).toBe('exhausted');
+    expect(solution.nonce).toBeNull();
+    expect(solution.attempts).toBe(500);
+  });
+
+  it('should report progress and stop on timeout', async () => {
+    const reports: VNSPoWProgress[] = [];
+    const solution = await solvePoW({ name: 'solver.vfs', owner: 'owner', zeros: 12 }, {
+      threads: 1,
+      timeout: 300,
+      onProgress: progress => reports.push(progress),
+      progressInterval: 50
+    });
+    expect(solution.status).toBe('timeout');
+    expect(solution.nonce).toBeNull();
+    expect(reports.length).toBeGreaterThan(0);
+  });
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const solution = await solvePoW({ name: 'solver.vfs', owner: 'owner', zeros: 12 }, {
+      threads: 1,
+      signal: controller.signal
+    });
+    expect(solution.status).toBe('cancelled');
+    expect(solution.nonce).toBeNull();
+  });
+});
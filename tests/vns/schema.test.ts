@@ -8,6 +8,9 @@ import { describe, it, expect } from '@jest/globals';
 import {
   validateVNSName,
   normalizeVNSName,
+  getParentVNSName,
+  validateVNSRecord,
+  validateVNSRecords,
   VNS_CONFIG,
   RESERVED_VNS_NAMES
 } from '../../src/types/vns-schema.js';
@@ -19,7 +22,9 @@ describe('validateVNSName', () => {
       'my-project.vfs',
       'cool_name.vfs',
       'abc123.vfs',
-      '123.vfs'
+      '123.vfs',
+      'api.myteam.vfs',
+      'a.b.myteam.vfs'
     ];
 
     validNames.forEach(name => {
@@ -59,7 +64,6 @@ describe('validateVNSName', () => {
     const invalidNames = [
       'test@domain.vfs',
       'test space.vfs',
-      'test.domain.vfs', // No subdomains
       'Test.vfs', // Must be lowercase
       'test!.vfs'
     ];
@@ -72,12 +76,95 @@ describe('validateVNSName', () => {
     });
   });
 
+  it('should validate every label of a subdomain', () => {
+    expect(validateVNSName('api.ab.vfs').valid).toBe(false); // registered label too short
+    expect(validateVNSName('-api.myteam.vfs').valid).toBe(false);
+    expect(validateVNSName('a..myteam.vfs').valid).toBe(false);
+    expect(validateVNSName('a.b.c.d.e.myteam.vfs').error).toContain('subdomain levels');
+  });
+
   it('should reject names starting or ending with hyphen', () => {
     expect(validateVNSName('-test.vfs').valid).toBe(false);
     expect(validateVNSName('test-.vfs').valid).toBe(false);
   });
 });
 
+describe('getParentVNSName', () => {
+  it('should return the parent zone of a subdomain', () => {
+    expect(getParentVNSName('api.myteam.vfs')).toBe('myteam.vfs');
+    expect(getParentVNSName('v1.api.myteam.vfs')).toBe('api.myteam.vfs');
+  });
+
+  it('should return null for registered names', () => {
+    expect(getParentVNSName('myteam.vfs')).toBeNull();
+  });
+});
+
+describe('validateVNSRecord', () => {
+  it('should accept well-formed values for each type', () => {
+    const records = [
+      { type: 'A' as const, value: '192.168.1.10' },
+      { type: 'AAAA' as const, value: '2001:db8::1' },
+      { type: 'CNAME' as const, value: 'site.vfs' },
+      { type: 'SRV' as const, value: '10 5 443 api.myteam.vfs' },
+      { type: 'MX' as const, value: '10 mail.myteam.vfs' },
+      { type: 'PEER' as const, value: '/ip4/1.2.3.4/tcp/4001/p2p/12D3KooWExample' },
+      { type: 'CONTENT' as const, value: 'ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG' },
+      { type: 'CONTENT' as const, value: 'ipns://docs.example.com' }
+    ];
+
+    records.forEach(record => {
+      expect(validateVNSRecord(record)).toEqual({ valid: true });
+    });
+  });
+
+  it('should reject malformed values', () => {
+    const records = [
+      { type: 'A' as const, value: '300.1.1.1' },
+      { type: 'AAAA' as const, value: '192.168.1.1' },
+      { type: 'CNAME' as const, value: 'not a name' },
+      { type: 'SRV' as const, value: '10 5 api.myteam.vfs' },
+      { type: 'SRV' as const, value: '10 5 0 api.myteam.vfs' },
+      { type: 'MX' as const, value: 'mail.myteam.vfs' },
+      { type: 'PEER' as const, value: '/ip4/1.2.3.4/tcp/4001' },
+      { type: 'CONTENT' as const, value: 'ipfs://hello' },
+      { type: 'DELEGATE' as const, value: 'not-a-key' }
+    ];
+
+    records.forEach(record => {
+      expect(validateVNSRecord(record).valid).toBe(false);
+    });
+  });
+
+  it('should not allow a CNAME alongside other records', () => {
+    const result = validateVNSRecords([
+      { type: 'CNAME', value: 'site.vfs' },
+      { type: 'TXT', value: 'hello' }
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('CNAME');
+  });
+
+  it('should only accept a PRIMARY claim backed by a forward record', () => {
+    const peerId = '12D3KooWGzBZ4hzhBGLmcNmoqhYy6ga4nXtwP7wD9KjhuBh1X5cc';
+    expect(validateVNSRecord({ type: 'PRIMARY', value: 'not an address' }).valid).toBe(false);
+
+    expect(validateVNSRecords([
+      { type: 'PEER', value: `/ip4/1.2.3.4/tcp/4001/p2p/${peerId}` },
+      { type: 'A', value: '1.2.3.4' },
+      { type: 'PRIMARY', value: peerId },
+      { type: 'PRIMARY', value: '1.2.3.4' }
+    ])).toEqual({ valid: true });
+
+    const unbacked = validateVNSRecords([
+      { type: 'A', value: '1.2.3.4' },
+      { type: 'PRIMARY', value: '5.6.7.8' }
+    ]);
+    expect(unbacked.valid).toBe(false);
+    expect(unbacked.error).toContain('not backed');
+  });
+});
+
 describe('normalizeVNSName', () => {
   it('should convert to lowercase', () => {
     expect(normalizeVNSName('TEST.VFS')).toBe('test.vfs');
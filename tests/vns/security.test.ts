@@ -5,9 +5,21 @@
  */
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { VNSSecurity, VNSProofOfWork, VNSRateLimiter } from '../../src/vns/security.js';
-import { VNS_CONFIG } from '../../src/types/vns-schema.js';
-import { createOrLoadIdentity } from '../../src/identity.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  VNSSecurity,
+  VNSProofOfWork,
+  VNSRateLimiter,
+  VNSSignatureValidator,
+  powVolumeWindow,
+  powHash,
+  powZeros,
+  rateLimitKey
+} from '../../src/vns/security.js';
+import { VNS_CONFIG, VNSPoWAlgorithm, VNSRegistration } from '../../src/types/vns-schema.js';
+import { createOrLoadIdentity, signData } from '../../src/identity.js';
 
 describe('VNSProofOfWork', () => {
   let pow: VNSProofOfWork;
@@ -105,6 +117,43 @@ describe('VNSRateLimiter', () => {
     // Cleanup should not crash
     limiter.cleanup();
   });
+
+  it('should keep separate budgets for local and relayed registrations', () => {
+    for (let i = 0; i < VNS_CONFIG.RATE_LIMIT_PER_HOUR; i++) {
+      limiter.recordAttempt('key1', 'local');
+    }
+    expect(limiter.checkLimit('key1', 'local')).toBe(false);
+    expect(limiter.checkLimit('key1', 'relay')).toBe(true);
+    expect(limiter.getUsage('key1', 'relay')).toEqual({
+      limit: VNS_CONFIG.RATE_LIMIT_RELAY_PER_HOUR,
+      used: 0,
+      remaining: VNS_CONFIG.RATE_LIMIT_RELAY_PER_HOUR,
+      resetsAt: null
+    });
+  });
+
+  it('should keep counters across restarts', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-rate-'));
+    try {
+      const file = path.join(dir, 'vns-rate-limits.json');
+      const persisted = new VNSRateLimiter(file);
+      persisted.recordAttempt('key1', 'local');
+      persisted.recordAttempt('key1', 'relay');
+      persisted.flush();
+
+      const reopened = new VNSRateLimiter(file);
+      expect(reopened.getUsage('key1', 'local').used).toBe(1);
+      expect(reopened.getUsage('key1', 'relay').used).toBe(1);
+      expect(reopened.getKeys()).toEqual(['key1']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should key registrations by owner public key', () => {
+    expect(rateLimitKey({ owner: 'a', publicKey: 'PEM' })).toBe(rateLimitKey({ owner: 'b', publicKey: 'PEM' }));
+    expect(rateLimitKey({ owner: 'a' })).not.toBe(rateLimitKey({ owner: 'b' }));
+  });
 });
 
 describe('VNSSecurity', () => {
@@ -197,4 +246,97 @@ describe('VNSSecurity', () => {
     expect(security.isExpired(past)).toBe(true);
     expect(security.isExpired(future)).toBe(false);
   });
+
+  it('should require more work for short names', () => {
+    expect(security.getRequiredDifficulty('longer.vfs')).toBe(3);
+    expect(security.getRequiredDifficulty('four.vfs')).toBe(3);
+    expect(security.getRequiredDifficulty('abc.vfs')).toBe(4);
+    expect(security.getRequiredDifficulty(null)).toBe(3);
+  });
+
+  it('should scale difficulty with registration volume up to the cap', () => {
+    const step = VNS_CONFIG.POW_VOLUME_STEP;
+    expect(security.getRequiredDifficulty(null, step - 1)).toBe(3);
+    expect(security.getRequiredDifficulty(null, step)).toBe(4);
+    expect(security.getRequiredDifficulty(null, step * 4)).toBe(5);
+    expect(security.getRequiredDifficulty('abc.vfs', step * 4)).toBe(6);
+    expect(security.getRequiredDifficulty(null, step * 1e6)).toBe(VNS_CONFIG.POW_MAX_DIFFICULTY);
+  });
+
+  it('should count volume over the last full window', () => {
+    const hour = VNS_CONFIG.POW_VOLUME_WINDOW;
+    expect(powVolumeWindow(10 * hour + 5)).toEqual({ start: 9 * hour, end: 10 * hour });
+    expect(powVolumeWindow(10 * hour)).toEqual({ start: 9 * hour, end: 10 * hour });
+  });
+});
+
+describe('VNSSecurity proof-of-work algorithms', () => {
+  const since = Date.now() - 60 * 1000;
+  let security: VNSSecurity;
+
+  beforeEach(() => {
+    security = new VNSSecurity(3, undefined, undefined, { algorithm: 'scrypt', since });
+  });
+
+  const buildRegistration = async (
+    name: string,
+    timestamp: number,
+    algorithm: VNSPoWAlgorithm | undefined
+  ): Promise<VNSRegistration> => {
+    const identity = await createOrLoadIdentity('./test-identity.json');
+    const owner = identity.peerId.toString();
+    const registration: VNSRegistration = {
+      name,
+      owner,
+      records: [{ type: 'A', value: '192.168.1.1', ttl: 3600 }],
+      timestamp,
+      expires: timestamp + VNS_CONFIG.EXPIRATION_PERIOD,
+      nonce: security.computePoW(name, owner, 3, algorithm || 'sha256')!,
+      powAlgorithm: algorithm,
+      signature: '',
+      publicKey: identity.publicKeyPem
+    };
+    registration.signature = signData(
+      identity.signingKeyPem,
+      new VNSSignatureValidator().serializeForSigning(registration)
+    );
+    return registration;
+  };
+
+  it('should hash with the chosen algorithm and need fewer zeros for scrypt', () => {
+    expect(powHash('test.vfs', 'owner', 1, 'scrypt')).not.toBe(powHash('test.vfs', 'owner', 1, 'sha256'));
+    expect(powZeros(3, 'sha256')).toBe(3);
+    expect(powZeros(3, 'scrypt')).toBe(3 - VNS_CONFIG.POW_SCRYPT_ZERO_DISCOUNT);
+
+    const pow = new VNSProofOfWork(3);
+    const nonce = pow.compute('test.vfs', 'owner', 1000, 3, 'scrypt');
+    expect(nonce).not.toBeNull();
+    expect(pow.validate('test.vfs', 'owner', nonce!, 3, 'scrypt')).toBe(true);
+  });
+
+  it('should accept registrations using the pinned algorithm', async () => {
+    const registration = await buildRegistration('memoryhard.vfs', Date.now(), 'scrypt');
+    expect(security.validateAuthenticity(registration).valid).toBe(true);
+
+    // The algorithm is signed, so it can't be swapped after the fact
+    registration.powAlgorithm = undefined;
+    expect(security.validateAuthenticity(registration).valid).toBe(false);
+  });
+
+  it('should keep validating SHA-256 registrations from before the switch', async () => {
+    const legacy = await buildRegistration('legacy.vfs', since - 1000, undefined);
+    expect(security.validateAuthenticity(legacy).valid).toBe(true);
+
+    const late = await buildRegistration('late.vfs', since + 1000, undefined);
+    const result = security.validateAuthenticity(late);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('must use scrypt');
+  });
+
+  it('should reject algorithms the network has not pinned', async () => {
+    const sha256Only = new VNSSecurity(3);
+    const registration = await buildRegistration('pinned.vfs', Date.now(), 'scrypt');
+    expect(sha256Only.validateAuthenticity(registration).error).toContain('must use sha256');
+    expect(sha256Only.validatePoWAlgorithm('argon2', Date.now()).error).toContain('Unknown proof-of-work algorithm');
+  });
 });
@@ -0,0 +1,92 @@
+/**
+ * VNS Shard Tree Tests
+ *
+ * Unit tests for sharding, incremental writes and lazy shard loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VNSShardTree } from '../../src/vns/shard-tree.js';
+import { FileBlockstore } from '../../src/blockstore.js';
+
+describe('VNSShardTree', () => {
+  let repoPath: string;
+  let blockstore: FileBlockstore;
+  const options = { rootLimit: 8, bucketSize: 4 };
+  const names = Array.from({ length: 60 }, (_, i) => `name${i}.vfs`);
+
+  const build = async (list: string[]): Promise<VNSShardTree> => {
+    const tree = new VNSShardTree(blockstore, options);
+    for (const name of list) {
+      await tree.set(name, `cid-${name}`);
+    }
+    return tree;
+  };
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-shards-'));
+    blockstore = new FileBlockstore(repoPath);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should produce the same root regardless of insertion order', async () => {
+    const forward = await (await build(names)).flush();
+    const reversed = await (await build([...names].reverse())).flush();
+    expect(reversed).toBe(forward);
+  });
+
+  it('should list every name after a reload', async () => {
+    const root = await (await build(names)).flush();
+    const loaded = await VNSShardTree.load(blockstore, root, options);
+
+    const listed: string[] = [];
+    for await (const { name, cid } of loaded.entries()) {
+      expect(cid).toBe(`cid-${name}`);
+      listed.push(name);
+    }
+    expect(listed.sort()).toEqual([...names].sort());
+    expect(loaded.size).toBe(names.length);
+  });
+
+  it('should read only the shards on the path of a lookup', async () => {
+    const root = await (await build(names)).flush();
+    const loaded = await VNSShardTree.load(blockstore, root, options);
+
+    const get = jest.spyOn(blockstore, 'get');
+    expect(await loaded.get('name7.vfs')).toBe('cid-name7.vfs');
+    expect(await loaded.get('missing.vfs')).toBeUndefined();
+    expect(get.mock.calls.length).toBeLessThan(8);
+  });
+
+  it('should rewrite only one leaf-to-root path per change', async () => {
+    const tree = await build(names);
+    await tree.flush();
+
+    const put = jest.spyOn(blockstore, 'put');
+    await tree.set('name7.vfs', 'cid-changed');
+    await tree.flush();
+    expect(put.mock.calls.length).toBeGreaterThan(0);
+    expect(put.mock.calls.length).toBeLessThanOrEqual(3);
+
+    put.mockClear();
+    await tree.flush();
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('should collapse back into a single leaf when names are removed', async () => {
+    const small = await (await build(names.slice(0, 5))).flush();
+
+    const tree = await build(names);
+    for (const name of names.slice(5)) {
+      await tree.delete(name);
+    }
+    expect(tree.size).toBe(5);
+    expect(await tree.flush()).toBe(small);
+  });
+});
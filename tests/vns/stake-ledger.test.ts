@@ -0,0 +1,78 @@
+/**
+ * VNS Stake Ledger Tests
+ *
+ * Unit tests for balances, locks and ledger persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VNSLocalStakeLedger } from '../../src/vns/stake-ledger.js';
+import { VNSStakeValidator } from '../../src/vns/security.js';
+
+describe('VNSLocalStakeLedger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vns-ledger-'));
+    file = path.join(dir, 'vns-stake-ledger.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist balances and locks', () => {
+    const ledger = new VNSLocalStakeLedger(file);
+    ledger.setBalance('alice', 300);
+    ledger.lock({ name: 'one.vfs', owner: 'alice', amount: 100, lockedAt: 1, expires: 2 });
+    ledger.lock({ name: 'two.vfs', owner: 'alice', amount: 100, lockedAt: 1, expires: 2 });
+
+    const reopened = new VNSLocalStakeLedger(file);
+    expect(reopened.getBalance('alice')).toBe(300);
+    expect(reopened.getLocked('alice')).toBe(200);
+    expect(reopened.getLocks().map(lock => lock.name)).toEqual(['one.vfs', 'two.vfs']);
+
+    reopened.release('one.vfs');
+    expect(new VNSLocalStakeLedger(file).getLocked('alice')).toBe(100);
+  });
+
+  it('should reject an unreadable ledger file', () => {
+    fs.writeFileSync(file, '{"version": 1, "balan');
+    expect(() => new VNSLocalStakeLedger(file)).toThrow('unreadable');
+  });
+
+  it('should take balances from a pinned allocation over the file', () => {
+    const ledger = new VNSLocalStakeLedger(file);
+    ledger.setBalance('alice', 300);
+    ledger.lock({ name: 'one.vfs', owner: 'alice', amount: 100, lockedAt: 1, expires: 2 });
+
+    const pinned = new VNSLocalStakeLedger(file, { bob: 200 });
+    expect(pinned.getBalance('alice')).toBe(0);
+    expect(pinned.getBalance('bob')).toBe(200);
+    expect(pinned.getLocked('alice')).toBe(100);
+    expect(() => pinned.setBalance('alice', 300)).toThrow('pinned');
+    expect(() => new VNSLocalStakeLedger(null, { bob: -1 })).toThrow('Invalid stake allocation');
+  });
+
+  it('should only lock unlocked balance and move locks between owners', () => {
+    const ledger = new VNSLocalStakeLedger();
+    ledger.setBalance('alice', 150);
+    ledger.setBalance('bob', 100);
+    const validator = new VNSStakeValidator(100, ledger);
+
+    expect(validator.validateLock('first.vfs', 'alice').valid).toBe(true);
+    validator.lock('first.vfs', 'alice', 10);
+    expect(validator.getAvailable('alice')).toBe(50);
+    expect(validator.validateLock('second.vfs', 'alice').valid).toBe(false);
+
+    // The holder's own lock covers the name (renewals and replays)
+    expect(validator.validateLock('first.vfs', 'alice').valid).toBe(true);
+
+    validator.lock('first.vfs', 'bob', 20);
+    expect(validator.getAvailable('alice')).toBe(150);
+    expect(validator.getAvailable('bob')).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * VNS Zone File Tests
+ *
+ * Unit tests for zone file parsing, formatting and import planning
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { VNSZone, formatZoneFile, parseZone, parseZoneFile, planZoneChanges } from '../../src/vns/zone-file.js';
+
+const PEER_ID = '12D3KooWGzBZ4hzhBGLmcNmoqhYy6ga4nXtwP7wD9KjhuBh1X5cc';
+
+describe('VNS zone files', () => {
+  const zone: VNSZone = {
+    version: 1,
+    exported: Date.UTC(2026, 0, 1),
+    names: [
+      {
+        name: 'myteam.vfs',
+        owner: 'owner-1',
+        expires: Date.UTC(2027, 0, 1),
+        records: [
+          { type: 'A', value: '10.0.0.1', ttl: 3600 },
+          { type: 'TXT', value: 'say "hi"\nback\\slash', ttl: 300 },
+          { type: 'PEER', value: `/ip4/10.0.0.1/tcp/4001/p2p/${PEER_ID}`, ttl: 3600 },
+          { type: 'PRIMARY', value: PEER_ID, ttl: 3600 }
+        ]
+      },
+      {
+        name: 'api.myteam.vfs',
+        records: [
+          { type: 'SRV', value: '10 5 443 backend.myteam.vfs', ttl: 3600 },
+          { type: 'MX', value: '10 mail.myteam.vfs', ttl: 3600 }
+        ]
+      }
+    ]
+  };
+
+  it('should read back what it writes', () => {
+    const text = formatZoneFile(zone);
+    expect(text).toContain('api.myteam.vfs.');
+    expect(text).toContain('SRV      10 5 443 backend.myteam.vfs.');
+    expect(text).toContain('; myteam.vfs owner=owner-1 expires=2027-01-01T00:00:00.000Z');
+
+    const parsed = parseZoneFile(text);
+    expect(parsed.names).toEqual(zone.names);
+    expect(parseZone(JSON.stringify(zone))).toEqual(zone);
+  });
+
+  it('should resolve relative names, default TTLs and continuation lines', () => {
+    const parsed = parseZoneFile([
+      '$ORIGIN MyTeam.vfs.',
+      '$TTL 600',
+      '@        IN A      10.0.0.2 ; comment',
+      '         60 TXT    "two words"',
+      'www      CNAME     @',
+      'other.vfs. IN A    10.0.0.3'
+    ].join('\n'));
+
+    expect(parsed.names).toEqual([
+      { name: 'myteam.vfs', records: [{ type: 'A', value: '10.0.0.2', ttl: 600 }, { type: 'TXT', value: 'two words', ttl: 60 }] },
+      { name: 'www.myteam.vfs', records: [{ type: 'CNAME', value: 'myteam.vfs', ttl: 600 }] },
+      { name: 'other.vfs', records: [{ type: 'A', value: '10.0.0.3', ttl: 600 }] }
+    ]);
+  });
+
+  it('should point at the offending line or name', () => {
+    expect(() => parseZoneFile('myteam.vfs. IN TXT "open')).toThrow('Line 1: Unterminated quoted string');
+    expect(() => parseZoneFile('\nmyteam.vfs. IN NS ns1')).toThrow('Line 2: Unknown record type: NS');
+    expect(() => parseZoneFile('myteam.vfs. IN A 999.0.0.1')).toThrow('myteam.vfs: Invalid IPv4 address');
+    expect(() => parseZone('{"version":2}')).toThrow('version');
+  });
+
+  it('should plan registrations and updates against the live namespace', () => {
+    const live = new Map([
+      ['myteam.vfs', { owner: 'me', records: [...zone.names[0].records].reverse() }],
+      ['api.myteam.vfs', { owner: 'me', records: [{ type: 'A' as const, value: '10.0.0.9', ttl: 3600 }] }]
+    ]);
+    live.set('taken.vfs', { owner: 'someone-else', records: [] });
+    const desired: VNSZone = {
+      ...zone,
+      names: [
+        ...zone.names,
+        { name: 'taken.vfs', records: [{ type: 'A', value: '10.0.0.4' }] },
+        { name: 'free.vfs', records: [{ type: 'A', value: '10.0.0.5' }] }
+      ]
+    };
+
+    expect(planZoneChanges(desired, live, 'me').map(c => [c.name, c.action])).toEqual([
+      ['myteam.vfs', 'unchanged'],
+      ['api.myteam.vfs', 'update'],
+      ['taken.vfs', 'conflict'],
+      ['free.vfs', 'register']
+    ]);
+  });
+});